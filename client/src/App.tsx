@@ -2,6 +2,15 @@ import { Switch, Route } from "wouter";
 import { Home } from "@/pages/Home";
 import { ChartOfAccounts } from "@/pages/ChartOfAccounts";
 import { Analysis } from "@/pages/Analysis";
+import { DataUpload } from "@/pages/DataUpload";
+import { CompanySettings } from "@/pages/CompanySettings";
+import { Journals } from "@/pages/Journals";
+import { Rules } from "@/pages/Rules";
+import { Review } from "@/pages/Review";
+import { TrialBalance } from "@/pages/reports/TrialBalance";
+import { IncomeStatement } from "@/pages/reports/IncomeStatement";
+import { BalanceSheet } from "@/pages/reports/BalanceSheet";
+import { GeneralLedger } from "@/pages/reports/GeneralLedger";
 import { AdminDashboard } from "@/pages/admin/Dashboard";
 import { ActiveSubscribers } from "@/pages/admin/ActiveSubscribers";
 import { DeactivatedSubscribers } from "@/pages/admin/DeactivatedSubscribers";
@@ -13,6 +22,7 @@ import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@
 import { Button } from "@/components/ui/button";
 import type { MasterAccount } from "@db/schema";
 import { TutorialProvider } from "@/components/TutorialProvider";
+import { CompanySwitcher } from "@/components/CompanySwitcher";
 import {
   LayoutDashboard,
   FileSpreadsheet,
@@ -28,6 +38,9 @@ import {
   TrendingUp,
   BadgeDollarSign,
   Users,
+  NotebookPen,
+  ListChecks,
+  ClipboardCheck,
   Loader2
 } from "lucide-react";
 import {
@@ -127,6 +140,21 @@ function App() {
       label: "Data Analysis",
       icon: <BarChart3 className="h-4 w-4" />
     },
+    {
+      href: "/review",
+      label: "Review",
+      icon: <ClipboardCheck className="h-4 w-4" />
+    },
+    {
+      href: "/rules",
+      label: "Rules",
+      icon: <ListChecks className="h-4 w-4" />
+    },
+    {
+      href: "/journals",
+      label: "Journals",
+      icon: <NotebookPen className="h-4 w-4" />
+    },
     {
       label: "Reports",
       icon: <FileText className="h-4 w-4" />,
@@ -192,6 +220,7 @@ function App() {
                 <span className="font-bold">Analee</span>
               </a>
             </div>
+            {user.role !== 'admin' && <CompanySwitcher />}
             <nav className="flex flex-1 items-center space-x-6 text-sm font-medium">
               {navItems.map((item) =>
                 item.dropdown ? (
@@ -236,6 +265,15 @@ function App() {
             <Route path="/" component={Home} />
             <Route path="/chart-of-accounts" component={ChartOfAccounts} />
             <Route path="/analysis" component={Analysis} />
+            <Route path="/data-upload" component={DataUpload} />
+            <Route path="/company-settings" component={CompanySettings} />
+            <Route path="/review" component={Review} />
+            <Route path="/rules" component={Rules} />
+            <Route path="/journals" component={Journals} />
+            <Route path="/reports/general-ledger" component={GeneralLedger} />
+            <Route path="/reports/trial-balance" component={TrialBalance} />
+            <Route path="/reports/financial-position" component={BalanceSheet} />
+            <Route path="/reports/income" component={IncomeStatement} />
             <Route path="/admin/dashboard" component={AdminDashboard} />
             <Route path="/admin/active-subscribers" component={ActiveSubscribers} />
             <Route path="/admin/deactivated-subscribers" component={DeactivatedSubscribers} />
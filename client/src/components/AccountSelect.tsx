@@ -1,20 +1,30 @@
 import { useQuery } from "@tanstack/react-query";
-import { 
-  Select, 
-  SelectContent, 
-  SelectItem, 
-  SelectTrigger, 
-  SelectValue 
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
 } from "@/components/ui/select";
-import type { Account } from "@db/schema";
+import type { UserAccount } from "@db/schema";
+
+type AccountNode = UserAccount & { children?: AccountNode[] };
 
 interface AccountSelectProps {
   value?: number;
   onValueChange: (value: number) => void;
 }
 
+// /api/accounts returns the chart as a tree; list every account, not just the top level
+function flattenAccounts(accounts: AccountNode[]): UserAccount[] {
+  return accounts.flatMap(({ children, ...account }) => [
+    account,
+    ...flattenAccounts(children ?? []),
+  ]);
+}
+
 export function AccountSelect({ value, onValueChange }: AccountSelectProps) {
-  const { data: accounts } = useQuery({
+  const { data: accounts = [] } = useQuery<AccountNode[]>({
     queryKey: ["/api/accounts"],
   });
 
@@ -27,7 +37,7 @@ export function AccountSelect({ value, onValueChange }: AccountSelectProps) {
         <SelectValue placeholder="Select account" />
       </SelectTrigger>
       <SelectContent>
-        {accounts?.map((account: Account) => (
+        {flattenAccounts(accounts).map((account) => (
           <SelectItem key={account.id} value={account.id.toString()}>
             {account.code} - {account.name}
           </SelectItem>
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { AccountSelect } from "@/components/AccountSelect";
+import { Edit2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { bankAccountTypes, bankNames, sendJson } from "@/lib/imports";
+import type { BankAccount, UserAccount } from "@db/schema";
+
+type BankAccountWithLedger = BankAccount & {
+  ledgerAccount: Pick<UserAccount, "id" | "code" | "name" | "type">;
+};
+
+type BankAccountFormData = Pick<
+  BankAccount,
+  "name" | "bankName" | "accountNumber" | "type" | "currency" | "active"
+> & { ledgerAccountId?: number };
+
+const emptyForm: BankAccountFormData = {
+  name: "",
+  bankName: bankNames[0],
+  accountNumber: "",
+  type: "cheque",
+  currency: "ZAR",
+  active: true,
+};
+
+// Each bank account posts to its own ledger account, so statements from
+// different accounts stay apart in the reports
+export function BankAccountList() {
+  const [editing, setEditing] = useState<BankAccountWithLedger | "new" | null>(null);
+  const [form, setForm] = useState<BankAccountFormData>(emptyForm);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: bankAccounts = [] } = useQuery<BankAccountWithLedger[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: BankAccountFormData) =>
+      editing === "new"
+        ? sendJson("/api/bank-accounts", "POST", data)
+        : sendJson(`/api/bank-accounts/${editing!.id}`, "PATCH", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => sendJson(`/api/bank-accounts/${id}`, "DELETE"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-accounts"] });
+    },
+    onError,
+  });
+
+  const startEditing = (bankAccount: BankAccountWithLedger | "new") => {
+    setEditing(bankAccount);
+    setForm(
+      bankAccount === "new"
+        ? emptyForm
+        : {
+            name: bankAccount.name,
+            bankName: bankAccount.bankName,
+            accountNumber: bankAccount.accountNumber,
+            type: bankAccount.type,
+            currency: bankAccount.currency,
+            active: bankAccount.active,
+            ledgerAccountId: bankAccount.ledgerAccountId,
+          }
+    );
+  };
+
+  const typeLabel = (type: string) =>
+    bankAccountTypes.find(({ value }) => value === type)?.label ?? type;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Bank Accounts</CardTitle>
+        <Button variant="outline" size="sm" onClick={() => startEditing("new")}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Bank Account
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {bankAccounts.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            Add the company's bank accounts to import their statements.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Bank</TableHead>
+                <TableHead>Account number</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Ledger account</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bankAccounts.map((bankAccount) => (
+                <TableRow key={bankAccount.id}>
+                  <TableCell>
+                    {bankAccount.name}
+                    {!bankAccount.active && (
+                      <Badge variant="secondary" className="ml-2">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{bankAccount.bankName}</TableCell>
+                  <TableCell>{bankAccount.accountNumber}</TableCell>
+                  <TableCell>
+                    {typeLabel(bankAccount.type)}
+                    {bankAccount.currency !== "ZAR" ? ` (${bankAccount.currency})` : ""}
+                  </TableCell>
+                  <TableCell>
+                    {bankAccount.ledgerAccount.code} - {bankAccount.ledgerAccount.name}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(bankAccount)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(bankAccount.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Bank Account" : "Edit Bank Account"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Name</Label>
+              <Input
+                placeholder="e.g. Business Cheque"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Bank</Label>
+                <Select
+                  value={form.bankName}
+                  onValueChange={(value) => setForm({ ...form, bankName: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {bankNames.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Account number</Label>
+                <Input
+                  value={form.accountNumber}
+                  onChange={(e) => setForm({ ...form, accountNumber: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select
+                  value={form.type}
+                  onValueChange={(value) => setForm({ ...form, type: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {bankAccountTypes.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Currency</Label>
+                <Input
+                  maxLength={3}
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Ledger account</Label>
+              <AccountSelect
+                value={form.ledgerAccountId}
+                onValueChange={(ledgerAccountId) => setForm({ ...form, ledgerAccountId })}
+              />
+              <p className="text-sm text-muted-foreground">
+                The asset account (or liability account for a credit card) that this
+                account's statements post to.
+              </p>
+            </div>
+            {editing !== "new" && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="bank-account-active"
+                  checked={form.active}
+                  onCheckedChange={(active) => setForm({ ...form, active })}
+                />
+                <Label htmlFor="bank-account-active">Active</Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(form)}
+              disabled={
+                !form.name.trim() ||
+                !form.accountNumber.trim() ||
+                form.ledgerAccountId === undefined ||
+                saveMutation.isPending
+              }
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import type { BankAccount } from "@db/schema";
+
+interface BankAccountSelectProps {
+  value?: number;
+  onValueChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+// Inactive accounts stay selectable so their old statements can still be
+// reported on
+export function BankAccountSelect({ value, onValueChange, disabled }: BankAccountSelectProps) {
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  return (
+    <Select
+      value={value?.toString()}
+      onValueChange={(val) => onValueChange(Number(val))}
+      disabled={disabled}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="Select bank account" />
+      </SelectTrigger>
+      <SelectContent>
+        {bankAccounts.map((bankAccount) => (
+          <SelectItem key={bankAccount.id} value={bankAccount.id.toString()}>
+            {bankAccount.name} ({bankAccount.accountNumber}){bankAccount.active ? "" : " - inactive"}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
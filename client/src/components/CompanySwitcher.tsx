@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Building2, Check, ChevronDown, Edit2, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/lib/imports";
+import type { Company } from "@db/schema";
+
+// Shows the company being worked in and switches between the user's
+// companies. Every other query depends on the active company, so switching
+// refetches them all.
+export function CompanySwitcher() {
+  const [dialog, setDialog] = useState<"create" | "rename" | null>(null);
+  const [name, setName] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: active } = useQuery<Company>({
+    queryKey: ["/api/companies/active"],
+  });
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const switchMutation = useMutation({
+    mutationFn: (id: number) => sendJson(`/api/companies/${id}/switch`, "POST"),
+    onSuccess: (company: Company) => {
+      queryClient.invalidateQueries();
+      toast({ title: `Switched to ${company.name}` });
+    },
+    onError,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (): Promise<Company> =>
+      dialog === "rename"
+        ? sendJson(`/api/companies/${active!.id}`, "PATCH", { name })
+        : sendJson("/api/companies", "POST", { name }),
+    onSuccess: (company: Company) => {
+      setDialog(null);
+      if (dialog === "create") {
+        switchMutation.mutate(company.id);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/companies/active"] });
+      }
+    },
+    onError,
+  });
+
+  const openDialog = (mode: "create" | "rename") => {
+    setName(mode === "rename" ? active?.name ?? "" : "");
+    setDialog(mode);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="mr-6 gap-2">
+            <Building2 className="h-4 w-4" />
+            <span className="max-w-48 truncate">{active?.name ?? "Loading..."}</span>
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Companies</DropdownMenuLabel>
+          {companies.map((company) => (
+            <DropdownMenuItem
+              key={company.id}
+              onSelect={() => company.id !== active?.id && switchMutation.mutate(company.id)}
+              className="flex items-center gap-2"
+            >
+              <Check className={`h-4 w-4 ${company.id === active?.id ? "" : "invisible"}`} />
+              <span className="truncate">{company.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => openDialog("rename")} className="flex items-center gap-2">
+            <Edit2 className="h-4 w-4" />
+            Rename company
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => openDialog("create")} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            New company
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog === "rename" ? "Rename Company" : "New Company"}</DialogTitle>
+          </DialogHeader>
+          <form
+            id="company-form"
+            className="space-y-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <Label htmlFor="company-name">Name</Label>
+            <Input
+              id="company-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+            {dialog === "create" && (
+              <p className="text-sm text-muted-foreground pt-2">
+                The new company starts with its own copy of the standard chart of accounts.
+              </p>
+            )}
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" form="company-form" disabled={saveMutation.isPending}>
+              {dialog === "rename" ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
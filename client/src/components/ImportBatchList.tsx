@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2, Wand2 } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/lib/imports";
+import type { BankAccount, ImportBatch } from "@db/schema";
+
+type ImportBatchWithBankAccount = ImportBatch & {
+  bankAccount: Pick<BankAccount, "id" | "name"> | null;
+};
+
+interface CategorisationSummary {
+  batchId: number;
+  threshold: number;
+  total: number;
+  autoAllocated: number;
+  disputed: number;
+  queued: number;
+}
+
+const thresholds = [0.6, 0.7, 0.8, 0.9, 0.95];
+
+export function ImportBatchList() {
+  const [categorising, setCategorising] = useState<ImportBatchWithBankAccount | null>(null);
+  const [threshold, setThreshold] = useState(0.8);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: allBatches = [] } = useQuery<ImportBatchWithBankAccount[]>({
+    queryKey: ["/api/import-batches"],
+  });
+  const batches = allBatches.filter((batch) => batch.type === "bank-statement");
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(`/api/import-batches/${id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error((await res.json()).message);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/transactions"),
+      });
+      toast({
+        title: "Success",
+        description: "Statement and its transactions removed",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const categoriseMutation = useMutation({
+    mutationFn: (id: number): Promise<CategorisationSummary> =>
+      sendJson(`/api/import-batches/${id}/categorise`, "POST", { threshold }),
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          String(query.queryKey[0]).startsWith("/api/transactions") ||
+          String(query.queryKey[0]).startsWith("/api/predictions") ||
+          String(query.queryKey[0]).startsWith("/api/reports/"),
+      });
+      setCategorising(null);
+      toast({
+        title: "Statement categorised",
+        description: `${summary.autoAllocated} of ${summary.total} transaction(s) allocated automatically, ${summary.queued + summary.disputed} to review`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const formatDate = (value: Date | string | null) =>
+    value ? format(new Date(value), "yyyy-MM-dd") : "-";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Uploaded Statements</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {batches.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No statements uploaded yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Bank account</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Rows</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map((batch) => (
+                <TableRow key={batch.id}>
+                  <TableCell>{batch.fileName}</TableCell>
+                  <TableCell>{batch.bankAccount?.name ?? "-"}</TableCell>
+                  <TableCell>
+                    {formatDate(batch.periodStart)} to {formatDate(batch.periodEnd)}
+                  </TableCell>
+                  <TableCell className="text-right">{batch.rowCount}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{batch.status}</Badge>
+                  </TableCell>
+                  <TableCell>{formatDate(batch.createdAt)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Auto-categorise"
+                        onClick={() => setCategorising(batch)}
+                        disabled={batch.status !== "completed"}
+                      >
+                        <Wand2 className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {batch.fileName}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This removes all {batch.rowCount} transactions imported from this
+                              statement, together with their explanations and the learning
+                              recorded from them. This cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteMutation.mutate(batch.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={categorising !== null} onOpenChange={(open) => !open && setCategorising(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Auto-categorise {categorising?.fileName}</DialogTitle>
+            <DialogDescription>
+              Unexplained transactions are given their best prediction when it is at least
+              this confident. The rest are queued for you to review.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={threshold.toString()} onValueChange={(value) => setThreshold(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {thresholds.map((value) => (
+                <SelectItem key={value} value={value.toString()}>
+                  {Math.round(value * 100)}% confident or more
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCategorising(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => categoriseMutation.mutate(categorising!.id)}
+              disabled={categoriseMutation.isPending}
+            >
+              {categoriseMutation.isPending ? "Categorising..." : "Run"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { Edit2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { bankNames, dateFormats, signConventions, sendJson, type BankColumnMap } from "@/lib/imports";
+import type { ImportProfile } from "@db/schema";
+
+type ProfileFormData = Pick<ImportProfile, "name" | "bankName" | "skipRows" | "dateFormat" | "signConvention">;
+
+export function ImportProfileList() {
+  const [editing, setEditing] = useState<ImportProfile | null>(null);
+  const [form, setForm] = useState<ProfileFormData>({
+    name: "",
+    bankName: null,
+    skipRows: 0,
+    dateFormat: "auto",
+    signConvention: "standard",
+  });
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: profiles = [] } = useQuery<ImportProfile[]>({
+    queryKey: ["/api/import-profiles"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (data: ProfileFormData) =>
+      sendJson(`/api/import-profiles/${editing!.id}`, "PATCH", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => sendJson(`/api/import-profiles/${id}`, "DELETE"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+    },
+    onError,
+  });
+
+  const startEditing = (profile: ImportProfile) => {
+    setEditing(profile);
+    setForm({
+      name: profile.name,
+      bankName: profile.bankName,
+      skipRows: profile.skipRows,
+      dateFormat: profile.dateFormat,
+      signConvention: profile.signConvention,
+    });
+  };
+
+  const describeMapping = (columnMap: BankColumnMap) =>
+    Object.entries(columnMap)
+      .filter(([, column]) => column)
+      .map(([field, column]) => `${field}: ${column}`)
+      .join(", ");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Profiles</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {profiles.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            Save a column mapping while importing a statement to have it picked up
+            automatically next time.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Bank</TableHead>
+                <TableHead>Columns</TableHead>
+                <TableHead className="text-right">Rows skipped</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {profiles.map((profile) => (
+                <TableRow key={profile.id}>
+                  <TableCell>{profile.name}</TableCell>
+                  <TableCell>{profile.bankName ?? "-"}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {describeMapping(profile.columnMap as BankColumnMap)}
+                  </TableCell>
+                  <TableCell className="text-right">{profile.skipRows}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(profile)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(profile.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Import Profile</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Bank</Label>
+              <Select
+                value={form.bankName ?? undefined}
+                onValueChange={(value) => setForm({ ...form, bankName: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select bank" />
+                </SelectTrigger>
+                <SelectContent>
+                  {bankNames.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Rows above header</Label>
+              <Input
+                type="number"
+                min={0}
+                value={form.skipRows}
+                onChange={(e) => setForm({ ...form, skipRows: Math.max(0, Number(e.target.value)) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Date format</Label>
+              <Select
+                value={form.dateFormat}
+                onValueChange={(value) => setForm({ ...form, dateFormat: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dateFormats.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Amount sign</Label>
+              <Select
+                value={form.signConvention}
+                onValueChange={(value) => setForm({ ...form, signConvention: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {signConventions.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => updateMutation.mutate(form)}
+              disabled={!form.name.trim() || updateMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
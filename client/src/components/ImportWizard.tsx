@@ -0,0 +1,516 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { BankAccountSelect } from "@/components/BankAccountSelect";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import {
+  bankNames,
+  dateFormats,
+  signConventions,
+  sendJson,
+  type BankColumnMap,
+  type ImportOptions,
+  type ImportSession
+} from "@/lib/imports";
+import type { ImportProfile } from "@db/schema";
+
+const mappingFields: { field: keyof BankColumnMap; label: string }[] = [
+  { field: "date", label: "Date" },
+  { field: "description", label: "Description" },
+  { field: "amount", label: "Amount" },
+  { field: "debit", label: "Debit (money out)" },
+  { field: "credit", label: "Credit (money in)" },
+  { field: "reference", label: "Reference" },
+  { field: "balance", label: "Balance" },
+];
+
+const NOT_MAPPED = "__none__";
+
+const formatDate = (value: string | Date | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd") : "-";
+
+const formatCell = (value: any) =>
+  value === null || value === undefined ? "" : String(value);
+
+interface ImportWizardProps {
+  file: File | null;
+  onClose: () => void;
+}
+
+export function ImportWizard({ file, onClose }: ImportWizardProps) {
+  const [session, setSession] = useState<ImportSession | null>(null);
+  const [columnMap, setColumnMap] = useState<BankColumnMap>({});
+  const [options, setOptions] = useState<Partial<ImportOptions>>({});
+  const [step, setStep] = useState<"mapping" | "review">("mapping");
+  const [profileName, setProfileName] = useState("");
+  const [bankName, setBankName] = useState(bankNames[0]);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: profiles = [] } = useQuery<ImportProfile[]>({
+    queryKey: ["/api/import-profiles"],
+  });
+
+  const showSession = (data: ImportSession) => {
+    setSession(data);
+    setColumnMap(data.columnMap);
+    setOptions(data.options);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Import Error",
+      description: error.message,
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (upload: File) => {
+      const formData = new FormData();
+      formData.append("file", upload);
+      const res = await fetch("/api/import-batches", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || "Failed to read file");
+      return data as ImportSession;
+    },
+    onSuccess: (data) => {
+      showSession(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+    },
+    onError: (error: Error) => {
+      onError(error);
+      onClose();
+    },
+  });
+
+  const mappingMutation = useMutation({
+    mutationFn: (changes: {
+      bankAccountId?: number;
+      profileId?: number;
+      columnMap?: BankColumnMap;
+      options?: Partial<ImportOptions>;
+    }): Promise<ImportSession> =>
+      sendJson(`/api/import-batches/${session!.batch.id}`, "PATCH", changes),
+    onSuccess: showSession,
+    onError,
+  });
+
+  const saveProfileMutation = useMutation({
+    mutationFn: (): Promise<ImportProfile> =>
+      sendJson("/api/import-profiles", "POST", {
+        name: profileName,
+        bankName,
+        headerSignature: session!.headerSignature,
+        columnMap: session!.columnMap,
+        ...session!.options,
+      }),
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+      mappingMutation.mutate({ profileId: profile.id });
+      setProfileName("");
+      toast({
+        title: "Success",
+        description: `Saved profile ${profile.name}`,
+      });
+    },
+    onError,
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: (skipDuplicates: boolean) =>
+      sendJson(`/api/import-batches/${session!.batch.id}/commit`, "POST", { skipDuplicates }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/transactions"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+      toast({
+        title: "Success",
+        description: "Bank statement imported",
+      });
+      reset();
+    },
+    onError,
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: () => sendJson(`/api/import-batches/${session!.batch.id}`, "DELETE"),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+      reset();
+    },
+  });
+
+  const reset = () => {
+    setSession(null);
+    setColumnMap({});
+    setOptions({});
+    setStep("mapping");
+    onClose();
+  };
+
+  useEffect(() => {
+    if (file) {
+      uploadMutation.mutate(file);
+    }
+  }, [file]);
+
+  const isBusy = mappingMutation.isPending || commitMutation.isPending || discardMutation.isPending;
+  const needsBankAccount = !session?.batch.bankAccountId;
+  const mappingChanged =
+    JSON.stringify(columnMap) !== JSON.stringify(session?.columnMap ?? {}) ||
+    JSON.stringify(options) !== JSON.stringify(session?.options ?? {});
+
+  return (
+    <Dialog
+      open={!!file}
+      onOpenChange={(open) => !open && (session ? discardMutation.mutate() : reset())}
+    >
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>
+            {step === "mapping" ? "Map columns" : "Review import"}: {file?.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!session ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Reading file...
+          </div>
+        ) : step === "mapping" ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-1 col-span-2">
+                <Label>Bank account</Label>
+                <BankAccountSelect
+                  value={session.batch.bankAccountId ?? undefined}
+                  onValueChange={(bankAccountId) => mappingMutation.mutate({ bankAccountId })}
+                  disabled={isBusy}
+                />
+              </div>
+              <div className="space-y-1 col-span-2">
+                <Label>Import profile</Label>
+                <Select
+                  value={session.batch.profileId?.toString() ?? NOT_MAPPED}
+                  onValueChange={(value) =>
+                    value !== NOT_MAPPED && mappingMutation.mutate({ profileId: Number(value) })
+                  }
+                  disabled={isBusy}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>No profile (custom mapping)</SelectItem>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id.toString()}>
+                        {profile.name}{profile.bankName ? ` (${profile.bankName})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Rows above header</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={options.skipRows ?? 0}
+                  onChange={(e) => setOptions({ ...options, skipRows: Math.max(0, Number(e.target.value)) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Date format</Label>
+                <Select
+                  value={options.dateFormat ?? "auto"}
+                  onValueChange={(value) => setOptions({ ...options, dateFormat: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {dateFormats.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {value === "auto" && session.dateFormat && session.options.dateFormat === "auto"
+                          ? `${label} (${session.dateFormat})`
+                          : label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Amount sign</Label>
+                <Select
+                  value={options.signConvention ?? "standard"}
+                  onValueChange={(value) =>
+                    setOptions({ ...options, signConvention: value as ImportOptions["signConvention"] })
+                  }
+                  disabled={!columnMap.amount}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {signConventions.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {mappingFields.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label>{label}</Label>
+                  <Select
+                    value={columnMap[field] ?? NOT_MAPPED}
+                    onValueChange={(value) =>
+                      setColumnMap({
+                        ...columnMap,
+                        [field]: value === NOT_MAPPED ? undefined : value,
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {session.headers.filter(Boolean).map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <ScrollArea className="h-56 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {session.headers.filter(Boolean).map((header) => (
+                      <TableHead key={header}>{header}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {session.sample.map((values, index) => (
+                    <TableRow key={index}>
+                      {session.headers.filter(Boolean).map((header) => (
+                        <TableCell key={header}>{formatCell(values[header])}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            {!mappingChanged && !session.batch.profileId && (
+              <div className="flex items-end gap-2">
+                <div className="space-y-1 flex-1">
+                  <Label>Save this layout as a profile</Label>
+                  <Input
+                    placeholder="e.g. FNB Business Cheque"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                  />
+                </div>
+                <Select value={bankName} onValueChange={setBankName}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {bankNames.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => saveProfileMutation.mutate()}
+                  disabled={!profileName.trim() || saveProfileMutation.isPending}
+                >
+                  Save profile
+                </Button>
+              </div>
+            )}
+
+            {needsBankAccount && (
+              <div className="text-sm text-muted-foreground">
+                Choose the bank account this statement belongs to. Bank accounts are set up
+                under Company Settings.
+              </div>
+            )}
+
+            {!mappingChanged && session.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>
+                  {session.errors.length} problem(s) found with this mapping
+                </AlertTitle>
+                <AlertDescription>
+                  <ScrollArea className="max-h-32">
+                    <ul className="list-disc list-inside space-y-1">
+                      {session.errors.slice(0, 50).map((error, index) => (
+                        <li key={index}>
+                          {error.details?.row ? `Row ${error.details.row}: ` : ""}
+                          {error.message}
+                          {error.details?.value !== undefined && error.details.value !== null
+                            ? ` (${formatCell(error.details.value)})`
+                            : ""}
+                          {error.details?.expected ? `, expected ${error.details.expected}` : ""}
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              {session.rows.length} rows covering {formatDate(session.batch.periodStart)} to{" "}
+              {formatDate(session.batch.periodEnd)}: {session.summary.new} new,{" "}
+              {session.summary.duplicate} already imported.
+            </div>
+
+            {session.duplicateOf && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>This file has already been uploaded</AlertTitle>
+                <AlertDescription>
+                  The same file was imported as {session.duplicateOf.fileName} on{" "}
+                  {formatDate(session.duplicateOf.createdAt)}.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {!session.duplicateOf && session.overlappingBatches.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Overlapping statement period</AlertTitle>
+                <AlertDescription>
+                  This statement overlaps{" "}
+                  {session.overlappingBatches
+                    .map((batch) =>
+                      `${batch.fileName} (${formatDate(batch.periodStart)} to ${formatDate(batch.periodEnd)})`
+                    )
+                    .join(", ")}
+                  .
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <ScrollArea className="h-80 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {session.rows.map((row) => (
+                    <TableRow
+                      key={row.row}
+                      className={row.status === "duplicate" ? "text-muted-foreground" : undefined}
+                    >
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>{formatDate(row.date)}</TableCell>
+                      <TableCell>{row.description}</TableCell>
+                      <TableCell className="text-right">
+                        {new Intl.NumberFormat("en-ZA", {
+                          style: "currency",
+                          currency: "ZAR",
+                        }).format(row.amount)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={row.status === "new" ? "default" : "secondary"}>
+                          {row.status === "new" ? "New" : "Already imported"}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
+
+        {session && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => discardMutation.mutate()} disabled={isBusy}>
+              Cancel
+            </Button>
+            {step === "mapping" ? (
+              mappingChanged ? (
+                <Button onClick={() => mappingMutation.mutate({ columnMap, options })} disabled={isBusy}>
+                  Apply mapping
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => setStep("review")}
+                  disabled={isBusy || needsBankAccount || session.errors.length > 0}
+                >
+                  Continue
+                </Button>
+              )
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setStep("mapping")} disabled={isBusy}>
+                  Back
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => commitMutation.mutate(false)}
+                  disabled={isBusy}
+                >
+                  Import all rows
+                </Button>
+                <Button
+                  onClick={() => commitMutation.mutate(true)}
+                  disabled={isBusy || session.summary.new === 0}
+                >
+                  Import {session.summary.new} new rows
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
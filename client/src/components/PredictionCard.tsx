@@ -2,20 +2,46 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { AccountSelect } from "@/components/AccountSelect";
+import { SplitEditor } from "@/components/SplitEditor";
 import { Badge } from "@/components/ui/badge";
-import { useQuery } from "@tanstack/react-query";
-import { Brain, Database, FileText } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Brain, Database, FileText, ListChecks } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/lib/imports";
 import type { Transaction } from "@db/schema";
+import type { Prediction, TransactionWithSplits } from "@/lib/predictions";
 
 interface PredictionCardProps {
-  transaction: Transaction;
+  transaction: TransactionWithSplits;
   onUpdate: (data: Partial<Transaction>) => void;
 }
 
 export function PredictionCard({ transaction, onUpdate }: PredictionCardProps) {
-  const { data: predictions, isLoading } = useQuery({
+  const { data: predictions, isLoading } = useQuery<Prediction[]>({
     queryKey: [`/api/predictions?transactionId=${transaction.id}`],
   });
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // A rule may split the transaction, so it is applied on the server
+  const applyRuleMutation = useMutation({
+    mutationFn: (ruleId: number) =>
+      sendJson(`/api/rules/${ruleId}/apply`, "POST", { transactionId: transaction.id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          String(query.queryKey[0]).startsWith("/api/transactions") ||
+          String(query.queryKey[0]).startsWith("/api/reports/"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
 
   const getPredictionIcon = (type: string) => {
     switch (type) {
@@ -25,6 +51,8 @@ export function PredictionCard({ transaction, onUpdate }: PredictionCardProps) {
         return <Database className="h-4 w-4" />;
       case "ai":
         return <Brain className="h-4 w-4" />;
+      case "rule":
+        return <ListChecks className="h-4 w-4" />;
       default:
         return null;
     }
@@ -60,10 +88,13 @@ export function PredictionCard({ transaction, onUpdate }: PredictionCardProps) {
 
         <div className="space-y-2">
           <h3 className="font-medium">Account</h3>
-          <AccountSelect
-            value={transaction.accountId}
-            onValueChange={(accountId) => onUpdate({ accountId })}
-          />
+          {transaction.splits.length === 0 && (
+            <AccountSelect
+              value={transaction.accountId ?? undefined}
+              onValueChange={(accountId) => onUpdate({ accountId })}
+            />
+          )}
+          <SplitEditor transaction={transaction} />
         </div>
 
         <div className="space-y-2">
@@ -97,11 +128,16 @@ export function PredictionCard({ transaction, onUpdate }: PredictionCardProps) {
                     <Button
                       variant="ghost"
                       size="sm"
+                      disabled={applyRuleMutation.isPending}
                       onClick={() => {
+                        if (prediction.ruleId) {
+                          applyRuleMutation.mutate(prediction.ruleId);
+                          return;
+                        }
                         onUpdate({
                           explanation: prediction.explanation,
                           accountId: prediction.accountId,
-                          confidence: prediction.confidence,
+                          confidence: prediction.confidence.toFixed(2),
                           predictedBy: prediction.type,
                         });
                       }}
@@ -0,0 +1,31 @@
+import { Button } from "@/components/ui/button";
+import { FileSpreadsheet, FileText } from "lucide-react";
+import { reportQuery } from "@/lib/reports";
+
+interface ReportExportButtonsProps {
+  report: "trial-balance" | "income-statement" | "balance-sheet" | "general-ledger" | "unallocated";
+  params: Record<string, string | number | undefined>;
+}
+
+// Exports are generated on the server and downloaded as files, so these are
+// plain links rather than queries
+export function ReportExportButtons({ report, params }: ReportExportButtonsProps) {
+  const href = (format: string) => `/api/reports/${report}/export${reportQuery({ ...params, format })}`;
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" asChild>
+        <a href={href("xlsx")} download>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Excel
+        </a>
+      </Button>
+      <Button variant="outline" asChild>
+        <a href={href("pdf")} download>
+          <FileText className="h-4 w-4 mr-2" />
+          PDF
+        </a>
+      </Button>
+    </div>
+  );
+}
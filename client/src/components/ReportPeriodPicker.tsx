@@ -0,0 +1,92 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useFinancialYears } from "@/hooks/use-financial-years";
+import type { ReportPeriodSelection } from "@/lib/reports";
+
+interface ReportPeriodPickerProps {
+  value: ReportPeriodSelection;
+  onChange: (value: ReportPeriodSelection) => void;
+}
+
+// Choose a report period: the current financial year (the server default),
+// a particular financial year, or a date range
+export function ReportPeriodPicker({ value, onChange }: ReportPeriodPickerProps) {
+  const { settings, currentYear, yearName } = useFinancialYears();
+  const mode = value.from !== undefined ? "range" : value.financialYear !== undefined ? "year" : "current";
+
+  const changeMode = (next: string) => {
+    if (next === "year") {
+      onChange({ financialYear: currentYear ?? new Date().getFullYear() });
+    } else if (next === "range") {
+      const today = new Date().toISOString().slice(0, 10);
+      onChange({ from: settings?.current.from ?? `${today.slice(0, 4)}-01-01`, to: today });
+    } else {
+      onChange({});
+    }
+  };
+
+  return (
+    <div className="flex items-end gap-4">
+      <div className="space-y-1">
+        <Label>Period</Label>
+        <Select value={mode} onValueChange={changeMode}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="current">Current financial year</SelectItem>
+            <SelectItem value="year">Financial year</SelectItem>
+            <SelectItem value="range">Date range</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {mode === "year" && (
+        <div className="space-y-1">
+          <Label>Financial year</Label>
+          <Select
+            value={value.financialYear?.toString()}
+            onValueChange={(year) => onChange({ financialYear: Number(year) })}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(settings?.years ?? []).map((year) => (
+                <SelectItem key={year.financialYear} value={year.financialYear.toString()}>
+                  {year.name}
+                </SelectItem>
+              ))}
+              {value.financialYear !== undefined &&
+                !settings?.years.some((year) => year.financialYear === value.financialYear) && (
+                  <SelectItem value={value.financialYear.toString()}>
+                    {yearName(value.financialYear)}
+                  </SelectItem>
+                )}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {mode === "range" && (
+        <>
+          <div className="space-y-1">
+            <Label>From</Label>
+            <Input
+              type="date"
+              value={value.from}
+              onChange={(e) => onChange({ ...value, from: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>To</Label>
+            <Input
+              type="date"
+              value={value.to}
+              onChange={(e) => onChange({ ...value, to: e.target.value })}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
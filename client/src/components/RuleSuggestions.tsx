@@ -0,0 +1,103 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Check, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/lib/imports";
+import type { RuleSuggestion } from "@db/schema";
+
+type RuleSuggestionWithPreview = RuleSuggestion & {
+  account: { id: number; code: string; name: string };
+  matches: number;
+  unexplained: number;
+};
+
+// Descriptions the user keeps allocating to the same account, offered as
+// rules. Nothing is shown until there is something to suggest.
+export function RuleSuggestions() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: suggestions = [] } = useQuery<RuleSuggestionWithPreview[]>({
+    queryKey: ["/api/rule-suggestions"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) =>
+        String(query.queryKey[0]).startsWith("/api/rule") ||
+        String(query.queryKey[0]).startsWith("/api/predictions"),
+    });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: (id: number) => sendJson(`/api/rule-suggestions/${id}/accept`, "POST"),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rule created" });
+    },
+    onError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (id: number) => sendJson(`/api/rule-suggestions/${id}/reject`, "POST"),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Suggested Rules</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {suggestions.map((suggestion) => (
+          <div key={suggestion.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div className="space-y-1 text-sm">
+              <div>
+                Descriptions starting with <span className="font-medium">"{suggestion.keyword}"</span> go to{" "}
+                <span className="font-medium">{suggestion.account.code} {suggestion.account.name}</span> as "
+                {suggestion.explanation}"
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Allocated this way {suggestion.occurrences} times. Would match {suggestion.matches} transaction(s),{" "}
+                {suggestion.unexplained} not yet explained.
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => acceptMutation.mutate(suggestion.id)}
+                disabled={acceptMutation.isPending}
+              >
+                <Check className="h-4 w-4 mr-2" />
+                Accept
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => rejectMutation.mutate(suggestion.id)}
+                disabled={rejectMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
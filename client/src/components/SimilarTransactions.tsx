@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/lib/imports";
+import type { Transaction } from "@db/schema";
+
+interface SimilarTransactionGroup {
+  description: string;
+  similarity: number;
+  transactions: Array<Pick<Transaction, "id" | "date" | "amount" | "reference">>;
+}
+
+interface SimilarTransactionsProps {
+  transaction: Transaction;
+}
+
+const thresholds = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+const formatCurrency = (amount: string) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(Number(amount));
+
+// Once a transaction is explained, offers its explanation and account to the
+// other unexplained transactions with a similar description
+export function SimilarTransactions({ transaction }: SimilarTransactionsProps) {
+  const [threshold, setThreshold] = useState(0.7);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ threshold: number; groups: SimilarTransactionGroup[] }>({
+    queryKey: [`/api/transactions/${transaction.id}/similar?threshold=${threshold}`],
+  });
+  const groups = data?.groups ?? [];
+
+  // Everything found is selected to start with
+  useEffect(() => {
+    setSelected(new Set(groups.flatMap((group) => group.transactions.map(({ id }) => id))));
+  }, [data]);
+
+  const applyMutation = useMutation({
+    mutationFn: (): Promise<{ updated: number }> =>
+      sendJson(`/api/transactions/${transaction.id}/similar`, "POST", {
+        explanation: transaction.explanation,
+        accountId: transaction.accountId,
+        transactionIds: Array.from(selected),
+      }),
+    onSuccess: ({ updated }) => {
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          String(query.queryKey[0]).startsWith("/api/transactions") ||
+          String(query.queryKey[0]).startsWith("/api/reports/"),
+      });
+      toast({ title: `Explanation applied to ${updated} transaction(s)` });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const toggle = (ids: number[], checked: boolean) => {
+    const next = new Set(selected);
+    ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+    setSelected(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Similar Transactions</CardTitle>
+        <Select value={threshold.toString()} onValueChange={(value) => setThreshold(Number(value))}>
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {thresholds.map((value) => (
+              <SelectItem key={value} value={value.toString()}>
+                {Math.round(value * 100)}% match
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Looking for similar transactions...</div>
+        ) : groups.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No other unexplained transactions look like this one.
+          </div>
+        ) : (
+          <>
+            {groups.map((group) => {
+              const ids = group.transactions.map(({ id }) => id);
+              return (
+                <div key={group.description} className="space-y-1 rounded-md border p-2">
+                  <label className="flex items-center gap-2 text-sm font-medium">
+                    <Checkbox
+                      checked={ids.every((id) => selected.has(id))}
+                      onCheckedChange={(checked) => toggle(ids, checked === true)}
+                    />
+                    <span className="flex-1">{group.description}</span>
+                    <Badge variant="secondary">{Math.round(group.similarity * 100)}%</Badge>
+                  </label>
+                  {group.transactions.map((similar) => (
+                    <label key={similar.id} className="flex items-center gap-2 pl-6 text-xs text-muted-foreground">
+                      <Checkbox
+                        checked={selected.has(similar.id)}
+                        onCheckedChange={(checked) => toggle([similar.id], checked === true)}
+                      />
+                      <span>{format(new Date(similar.date), "yyyy-MM-dd")}</span>
+                      <span className="flex-1">{similar.reference}</span>
+                      <span>{formatCurrency(similar.amount)}</span>
+                    </label>
+                  ))}
+                </div>
+              );
+            })}
+            <Button
+              className="w-full"
+              onClick={() => applyMutation.mutate()}
+              disabled={selected.size === 0 || applyMutation.isPending}
+            >
+              Apply explanation to {selected.size} transaction(s)
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
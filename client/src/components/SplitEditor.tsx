@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AccountSelect } from "@/components/AccountSelect";
+import { Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/lib/imports";
+import type { TransactionWithSplits } from "@/lib/predictions";
+
+interface SplitPart {
+  accountId?: number;
+  amount: string;
+  explanation: string;
+}
+
+interface SplitEditorProps {
+  transaction: TransactionWithSplits;
+}
+
+const toCents = (value: string) => Math.round((Number(value) || 0) * 100);
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(cents / 100);
+
+// Allocates one bank line to several accounts. The parts keep the
+// transaction's sign and must add up to its amount before they can be saved.
+export function SplitEditor({ transaction }: SplitEditorProps) {
+  const [parts, setParts] = useState<SplitPart[]>([]);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setParts(transaction.splits.map((split) => ({
+      accountId: split.accountId,
+      amount: split.amount,
+      explanation: split.explanation ?? "",
+    })));
+  }, [transaction.id, transaction.splits]);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) =>
+        String(query.queryKey[0]).startsWith("/api/transactions") ||
+        String(query.queryKey[0]).startsWith("/api/reports/"),
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      sendJson(`/api/transactions/${transaction.id}/splits`, "PUT", {
+        splits: parts.map((part) => ({
+          accountId: part.accountId,
+          amount: toCents(part.amount) / 100,
+          explanation: part.explanation || null,
+        })),
+      }),
+    onSuccess: () => {
+      onSuccess();
+      toast({ title: "Split saved" });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: () => sendJson(`/api/transactions/${transaction.id}/splits`, "DELETE"),
+    onSuccess,
+    onError,
+  });
+
+  const startSplit = () => {
+    setParts([
+      { accountId: transaction.accountId ?? undefined, amount: transaction.amount, explanation: transaction.explanation ?? "" },
+      { amount: "", explanation: "" },
+    ]);
+  };
+
+  const updatePart = (index: number, changes: Partial<SplitPart>) => {
+    setParts(parts.map((part, i) => (i === index ? { ...part, ...changes } : part)));
+  };
+
+  if (parts.length === 0) {
+    return (
+      <Button variant="outline" size="sm" onClick={startSplit}>
+        Split across accounts
+      </Button>
+    );
+  }
+
+  const remaining = toCents(transaction.amount) - parts.reduce((sum, part) => sum + toCents(part.amount), 0);
+  const complete = parts.length >= 2 && parts.every((part) => part.accountId !== undefined && toCents(part.amount) !== 0);
+
+  return (
+    <div className="space-y-2">
+      {parts.map((part, index) => (
+        <div key={index} className="space-y-1 rounded-md border p-2">
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <AccountSelect
+                value={part.accountId}
+                onValueChange={(accountId) => updatePart(index, { accountId })}
+              />
+            </div>
+            <Input
+              type="number"
+              step="0.01"
+              className="w-32 text-right"
+              value={part.amount}
+              onChange={(e) => updatePart(index, { amount: e.target.value })}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setParts(parts.filter((_, i) => i !== index))}
+              disabled={parts.length <= 2}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            placeholder="Explanation for this part"
+            value={part.explanation}
+            onChange={(e) => updatePart(index, { explanation: e.target.value })}
+          />
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-sm">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setParts([...parts, { amount: (remaining / 100).toFixed(2), explanation: "" }])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add part
+        </Button>
+        <span className={remaining === 0 ? "text-muted-foreground" : "text-destructive"}>
+          {remaining === 0 ? "Fully allocated" : `${formatCurrency(remaining)} left to allocate`}
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate()}
+          disabled={!complete || remaining !== 0 || saveMutation.isPending}
+        >
+          Save split
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => (transaction.splits.length > 0 ? removeMutation.mutate() : setParts([]))}
+          disabled={removeMutation.isPending}
+        >
+          {transaction.splits.length > 0 ? "Remove split" : "Cancel"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Fragment } from "react";
+import { Link } from "wouter";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { formatAmount, ledgerPath, type ReportPeriod, type StatementSection } from "@/lib/reports";
+
+interface StatementTotal {
+  label: string;
+  amount: number;
+  comparative: number | null;
+}
+
+interface StatementTableProps {
+  sections: StatementSection[];
+  period: ReportPeriod;
+  comparativePeriod: ReportPeriod | null;
+  // Rows after the sections, such as net profit
+  totals?: StatementTotal[];
+}
+
+const periodLabel = (period: ReportPeriod) => `${period.name} (to ${period.to})`;
+
+const amountCell = (value: number | null) => (
+  <TableCell className="text-right">{value === null ? "" : formatAmount(value) || "-"}</TableCell>
+);
+
+// Income statement or balance sheet laid out section by section, with the
+// comparative period alongside when there is one
+export function StatementTable({ sections, period, comparativePeriod, totals = [] }: StatementTableProps) {
+  const columns = comparativePeriod ? 3 : 2;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Account</TableHead>
+          <TableHead className="text-right">{periodLabel(period)}</TableHead>
+          {comparativePeriod && (
+            <TableHead className="text-right">{periodLabel(comparativePeriod)}</TableHead>
+          )}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sections.map((section) => (
+          <Fragment key={section.key}>
+            <TableRow className="bg-muted/50">
+              <TableCell colSpan={columns} className="font-bold">{section.title}</TableCell>
+            </TableRow>
+            {section.lines.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={columns} className="text-sm text-muted-foreground">
+                  Nothing to report
+                </TableCell>
+              </TableRow>
+            )}
+            {section.lines.map((line, index) => (
+              <TableRow
+                key={index}
+                className={line.kind === "account" ? undefined : "font-semibold"}
+              >
+                <TableCell style={{ paddingLeft: `${1 + (line.depth + 1) * 1.5}rem` }}>
+                  {line.code && <span className="text-muted-foreground mr-2">{line.code}</span>}
+                  {line.accountId !== null && line.kind !== "subtotal" ? (
+                    <Link
+                      href={ledgerPath(line.accountId, { from: period.from, to: period.to })}
+                      className="hover:underline"
+                    >
+                      {line.name}
+                    </Link>
+                  ) : (
+                    line.name
+                  )}
+                </TableCell>
+                {amountCell(line.amount)}
+                {comparativePeriod && amountCell(line.comparative)}
+              </TableRow>
+            ))}
+            <TableRow className="font-bold border-t-2">
+              <TableCell>Total {section.title.toLowerCase()}</TableCell>
+              {amountCell(section.total)}
+              {comparativePeriod && amountCell(section.comparativeTotal)}
+            </TableRow>
+          </Fragment>
+        ))}
+        {totals.map((total) => (
+          <TableRow key={total.label} className="font-bold border-t-4">
+            <TableCell>{total.label}</TableCell>
+            {amountCell(total.amount)}
+            {comparativePeriod && amountCell(total.comparative)}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -8,9 +8,10 @@ import {
 } from "@/components/ui/table";
 import { format } from "date-fns";
 import type { Transaction } from "@db/schema";
+import type { TransactionWithSplits } from "@/lib/predictions";
 
 interface TransactionTableProps {
-  transactions: Transaction[];
+  transactions: TransactionWithSplits[];
   onSelect: (transaction: Transaction) => void;
   onUpdate: (data: Partial<Transaction>) => void;
 }
@@ -50,7 +51,11 @@ export function TransactionTable({
               }).format(Number(transaction.amount))}
             </TableCell>
             <TableCell>{transaction.explanation}</TableCell>
-            <TableCell>{transaction.accountId}</TableCell>
+            <TableCell>
+              {transaction.splits.length > 0
+                ? `Split (${transaction.splits.length})`
+                : transaction.accountId}
+            </TableCell>
             <TableCell>
               {transaction.confidence 
                 ? `${(Number(transaction.confidence) * 100).toFixed(0)}%`
@@ -0,0 +1,330 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { AccountSelect } from "@/components/AccountSelect";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useFinancialYears } from "@/hooks/use-financial-years";
+import {
+  sendJson,
+  type TrialBalanceColumnMap,
+  type TrialBalanceImport as TrialBalanceImportSession
+} from "@/lib/imports";
+
+const mappingFields: { field: keyof TrialBalanceColumnMap; label: string }[] = [
+  { field: "code", label: "Account code" },
+  { field: "name", label: "Account name" },
+  { field: "debit", label: "Debit" },
+  { field: "credit", label: "Credit" },
+  { field: "balance", label: "Balance (instead of debit/credit)" },
+];
+
+const NOT_MAPPED = "__none__";
+
+const formatAmount = (value: number) =>
+  value ? new Intl.NumberFormat("en-ZA", { minimumFractionDigits: 2 }).format(value) : "";
+
+interface TrialBalanceImportProps {
+  file: File | null;
+  financialYear: number;
+  onClose: () => void;
+}
+
+export function TrialBalanceImport({ file, financialYear, onClose }: TrialBalanceImportProps) {
+  const [session, setSession] = useState<TrialBalanceImportSession | null>(null);
+  const [columnMap, setColumnMap] = useState<TrialBalanceColumnMap>({});
+  const [skipRows, setSkipRows] = useState(0);
+  const [year, setYear] = useState(financialYear);
+  const { yearName } = useFinancialYears();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const showSession = (data: TrialBalanceImportSession) => {
+    setSession(data);
+    setColumnMap(data.columnMap);
+    setSkipRows(data.options.skipRows);
+    setYear(data.options.financialYear);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Import Error",
+      description: error.message,
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (upload: File) => {
+      const formData = new FormData();
+      formData.append("file", upload);
+      formData.append("financialYear", financialYear.toString());
+      const res = await fetch("/api/opening-balances/import", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || "Failed to read file");
+      return data as TrialBalanceImportSession;
+    },
+    onSuccess: showSession,
+    onError: (error: Error) => {
+      onError(error);
+      onClose();
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (changes: {
+      columnMap?: TrialBalanceColumnMap;
+      accountMap?: Record<string, number>;
+      financialYear?: number;
+      skipRows?: number;
+    }): Promise<TrialBalanceImportSession> =>
+      sendJson(`/api/opening-balances/import/${session!.batch.id}`, "PATCH", changes),
+    onSuccess: showSession,
+    onError,
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () =>
+      sendJson(`/api/opening-balances/import/${session!.batch.id}/commit`, "POST"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/opening-balances"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+      toast({
+        title: "Success",
+        description: `Opening balances saved for ${yearName(session!.options.financialYear)}`,
+      });
+      reset();
+    },
+    onError,
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: () => sendJson(`/api/import-batches/${session!.batch.id}`, "DELETE"),
+    onSettled: () => reset(),
+  });
+
+  const reset = () => {
+    setSession(null);
+    setColumnMap({});
+    onClose();
+  };
+
+  useEffect(() => {
+    if (file) {
+      uploadMutation.mutate(file);
+    }
+  }, [file]);
+
+  const isBusy = updateMutation.isPending || commitMutation.isPending || discardMutation.isPending;
+  const mappingChanged = !!session && (
+    JSON.stringify(columnMap) !== JSON.stringify(session.columnMap) ||
+    skipRows !== session.options.skipRows ||
+    year !== session.options.financialYear
+  );
+  const unmatchedRows = session
+    ? session.unmatchedCodes.map((code) => session.rows.find((row) => row.code === code)!)
+    : [];
+
+  return (
+    <Dialog
+      open={!!file}
+      onOpenChange={(open) => !open && (session ? discardMutation.mutate() : reset())}
+    >
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Import trial balance: {file?.name}</DialogTitle>
+        </DialogHeader>
+
+        {!session ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Reading file...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <Label>Financial year ending</Label>
+                <Input
+                  type="number"
+                  value={year}
+                  onChange={(e) => setYear(Number(e.target.value))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Rows above header</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={skipRows}
+                  onChange={(e) => setSkipRows(Math.max(0, Number(e.target.value)))}
+                />
+              </div>
+              {mappingFields.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label>{label}</Label>
+                  <Select
+                    value={columnMap[field] ?? NOT_MAPPED}
+                    onValueChange={(value) =>
+                      setColumnMap({
+                        ...columnMap,
+                        [field]: value === NOT_MAPPED ? undefined : value,
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {session.headers.filter(Boolean).map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {!mappingChanged && session.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{session.errors.length} problem(s) found in this trial balance</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc list-inside space-y-1">
+                    {session.errors.slice(0, 20).map((error, index) => (
+                      <li key={index}>
+                        {error.details?.row ? `Row ${error.details.row}: ` : ""}
+                        {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {!mappingChanged && session.existingBalances > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{yearName(session.options.financialYear)} already has opening balances</AlertTitle>
+                <AlertDescription>
+                  Saving this trial balance replaces the {session.existingBalances} balances held for the year.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {!mappingChanged && unmatchedRows.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">
+                  {unmatchedRows.length} account code(s) are not in your chart of accounts. Choose the
+                  account each one belongs to.
+                </div>
+                <ScrollArea className="max-h-48 rounded-md border">
+                  <div className="space-y-2 p-2">
+                    {unmatchedRows.map((row) => (
+                      <div key={row.code} className="grid grid-cols-2 gap-4 items-center">
+                        <div className="text-sm">
+                          {row.code} {row.name && `- ${row.name}`}
+                        </div>
+                        <AccountSelect
+                          value={session.options.accountMap[row.code]}
+                          onValueChange={(accountId) =>
+                            updateMutation.mutate({
+                              accountMap: { ...session.options.accountMap, [row.code]: accountId },
+                            })
+                          }
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+
+            <ScrollArea className="h-72 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {session.rows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>{row.code}</TableCell>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell>
+                        <Badge variant={row.accountId ? "default" : "destructive"}>
+                          {row.matchedBy === "code" ? "Matched" : row.matchedBy === "mapping" ? "Mapped" : "Unknown"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatAmount(row.debit)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(row.credit)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium">
+                    <TableCell colSpan={4}>Total</TableCell>
+                    <TableCell className="text-right">{formatAmount(session.totals.debit)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(session.totals.credit)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
+
+        {session && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => discardMutation.mutate()} disabled={isBusy}>
+              Cancel
+            </Button>
+            {mappingChanged ? (
+              <Button
+                onClick={() => updateMutation.mutate({ columnMap, skipRows, financialYear: year })}
+                disabled={isBusy}
+              >
+                Apply mapping
+              </Button>
+            ) : (
+              <Button
+                onClick={() => commitMutation.mutate()}
+                disabled={isBusy || session.errors.length > 0 || session.unmatchedCodes.length > 0}
+              >
+                Save opening balances
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { financialYearName, type FinancialYearSettings } from "@/lib/reports";
+
+// The user's financial year settings, with a namer that falls back to the
+// February year end until they have loaded
+export function useFinancialYears() {
+  const { data: settings, isLoading } = useQuery<FinancialYearSettings>({
+    queryKey: ["/api/financial-years"],
+  });
+
+  return {
+    settings,
+    isLoading,
+    currentYear: settings?.current.financialYear,
+    yearName: (financialYear: number) => financialYearName(financialYear, settings?.yearEndMonth ?? 2),
+  };
+}
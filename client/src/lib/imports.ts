@@ -0,0 +1,120 @@
+import type { ImportBatch } from "@db/schema";
+
+export type BankColumnMap = Partial<Record<
+  "date" | "description" | "amount" | "debit" | "credit" | "reference" | "balance",
+  string
+>>;
+
+export interface ImportOptions {
+  dateFormat: string;
+  signConvention: "standard" | "inverted";
+  skipRows: number;
+}
+
+export interface ValidationError {
+  code: string;
+  message: string;
+  details?: {
+    row?: number;
+    column?: string;
+    value?: any;
+    expected?: string;
+  };
+}
+
+export interface ImportSession {
+  batch: ImportBatch;
+  headers: string[];
+  headerSignature: string;
+  columnMap: BankColumnMap;
+  options: ImportOptions;
+  dateFormat: string | null;
+  sample: Record<string, any>[];
+  errors: ValidationError[];
+  rows: Array<{
+    row: number;
+    date: string;
+    description: string;
+    amount: number;
+    reference?: string;
+    status: "new" | "duplicate";
+  }>;
+  duplicateOf: ImportBatch | null;
+  overlappingBatches: ImportBatch[];
+  summary: {
+    total: number;
+    new: number;
+    duplicate: number;
+    invalid: number;
+  };
+}
+
+export type TrialBalanceColumnMap = Partial<Record<
+  "code" | "name" | "debit" | "credit" | "balance",
+  string
+>>;
+
+export interface TrialBalanceImport {
+  batch: ImportBatch;
+  headers: string[];
+  columnMap: TrialBalanceColumnMap;
+  options: {
+    financialYear: number;
+    skipRows: number;
+    accountMap: Record<string, number>;
+  };
+  sample: Record<string, any>[];
+  errors: ValidationError[];
+  rows: Array<{
+    row: number;
+    code: string;
+    name: string;
+    debit: number;
+    credit: number;
+    accountId: number | null;
+    matchedBy: "code" | "mapping" | null;
+  }>;
+  unmatchedCodes: string[];
+  totals: { debit: number; credit: number };
+  existingBalances: number;
+}
+
+export const bankNames = ["FNB", "ABSA", "Standard Bank", "Nedbank", "Capitec", "Other"];
+
+export const bankAccountTypes = [
+  { value: "cheque", label: "Cheque" },
+  { value: "savings", label: "Savings" },
+  { value: "credit-card", label: "Credit card" },
+  { value: "money-market", label: "Money market" },
+];
+
+// Excel, CSV, OFX/QFX, QIF, MT940 and CAMT.053 statements
+export const statementFileTypes = ".xlsx,.xls,.csv,.tsv,.txt,.ofx,.qfx,.qif,.sta,.mt940,.940,.xml,.053";
+
+export const dateFormats = [
+  { value: "auto", label: "Detect automatically" },
+  { value: "dd/mm/yyyy", label: "dd/mm/yyyy" },
+  { value: "yyyy-mm-dd", label: "yyyy-mm-dd" },
+  { value: "yyyymmdd", label: "yyyymmdd" },
+  { value: "dd mmm yyyy", label: "dd mmm yyyy" },
+  { value: "mm/dd/yyyy", label: "mm/dd/yyyy" },
+];
+
+export const signConventions: Array<{ value: ImportOptions["signConvention"]; label: string }> = [
+  { value: "standard", label: "Money in is positive" },
+  { value: "inverted", label: "Money out is positive" },
+];
+
+export async function sendJson(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || `${res.status}: ${res.statusText}`);
+  }
+  return res.status === 204 ? null : res.json();
+}
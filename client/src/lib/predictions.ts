@@ -1,11 +1,12 @@
-import type { Transaction } from "@db/schema";
+import type { Transaction, TransactionSplit } from "@db/schema";
 
-interface Prediction {
+export interface Prediction {
   explanation: string;
   accountId: number;
   accountName: string;
   confidence: number;
-  type: "pattern" | "database" | "ai";
+  type: "pattern" | "database" | "ai" | "rule";
+  ruleId?: number;
 }
 
 export async function getPredictions(
@@ -15,3 +16,5 @@ export async function getPredictions(
   if (!res.ok) throw new Error("Failed to get predictions");
   return res.json();
 }
+
+export type TransactionWithSplits = Transaction & { splits: TransactionSplit[] };
@@ -0,0 +1,163 @@
+export interface ReportPeriodSelection {
+  financialYear?: number;
+  from?: string;
+  to?: string;
+}
+
+export interface ReportPeriod {
+  from: string;
+  to: string;
+  financialYear: number;
+  name: string;
+}
+
+export interface FinancialYear {
+  financialYear: number;
+  name: string;
+  from: string;
+  to: string;
+}
+
+export interface FinancialYearSettings {
+  yearEndMonth: number;
+  current: FinancialYear;
+  years: FinancialYear[];
+}
+
+export const months = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+// FY2024/25 for a year that spans two calendar years, FY2025 for one ending
+// in December; matches the server
+export function financialYearName(financialYear: number, yearEndMonth: number): string {
+  return yearEndMonth === 12
+    ? `FY${financialYear}`
+    : `FY${financialYear - 1}/${String(financialYear % 100).padStart(2, "0")}`;
+}
+
+export interface TrialBalanceLine {
+  accountId: number | null;
+  code: string;
+  name: string;
+  type: string | null;
+  parentId: number | null;
+  depth: number;
+  hasChildren: boolean;
+  opening: number;
+  movement: number;
+  closing: number;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalanceReport {
+  period: ReportPeriod;
+  lines: TrialBalanceLine[];
+  totals: { opening: number; movement: number; debit: number; credit: number };
+  balanced: boolean;
+  unallocatedCount: number;
+}
+
+export interface StatementLine {
+  kind: "heading" | "account" | "subtotal";
+  accountId: number | null;
+  code: string | null;
+  name: string;
+  depth: number;
+  amount: number | null;
+  comparative: number | null;
+}
+
+export interface StatementSection {
+  key: string;
+  title: string;
+  lines: StatementLine[];
+  total: number;
+  comparativeTotal: number | null;
+}
+
+export interface IncomeStatementReport {
+  period: ReportPeriod;
+  comparativePeriod: ReportPeriod | null;
+  sections: StatementSection[];
+  netProfit: number;
+  comparativeNetProfit: number | null;
+  unallocatedCount: number;
+}
+
+export interface BalanceSheetReport {
+  period: ReportPeriod;
+  comparativePeriod: ReportPeriod | null;
+  sections: StatementSection[];
+  totals: {
+    assets: number;
+    liabilitiesAndEquity: number;
+    comparativeAssets: number | null;
+    comparativeLiabilitiesAndEquity: number | null;
+  };
+  balanced: boolean;
+  unallocatedCount: number;
+}
+
+export interface GeneralLedgerEntry {
+  journalId: number;
+  lineId: number;
+  source: string;
+  transactionId: number | null;
+  date: string;
+  description: string;
+  reference: string | null;
+  explanation: string | null;
+  accountId: number | null;
+  accountCode: string | null;
+  accountName: string | null;
+  predictedBy: string | null;
+  confidence: number | null;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface GeneralLedgerReport {
+  account: { accountId: number | null; code: string; name: string; type: string | null; accountIds: number[] };
+  period: ReportPeriod;
+  openingBalance: number;
+  closingBalance: number;
+  totals: { debit: number; credit: number };
+  entries: GeneralLedgerEntry[];
+  pagination: { page: number; pageSize: number; total: number; totalPages: number };
+}
+
+// Build the query string for a report request, leaving out unset values
+export function reportQuery(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") {
+      query.set(key, String(value));
+    }
+  }
+  const text = query.toString();
+  return text ? `?${text}` : "";
+}
+
+// Amounts in reports: thousands separators, two decimals, blank for zero
+export function formatAmount(value: number): string {
+  if (!value) return "";
+  const text = new Intl.NumberFormat("en-ZA", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(Math.abs(value));
+  return value < 0 ? `(${text})` : text;
+}
+
+// Link from a report line into the general ledger for the same period. The
+// account is a chart account id or the BANK or SUSPENSE line.
+export function ledgerPath(
+  account: number | string,
+  period: ReportPeriodSelection,
+  bankAccountId?: number
+): string {
+  return `/reports/general-ledger${reportQuery({ account, ...period, bankAccountId })}`;
+}
@@ -2,40 +2,37 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { TransactionTable } from "@/components/TransactionTable";
 import { PredictionCard } from "@/components/PredictionCard";
+import { ImportBatchList } from "@/components/ImportBatchList";
+import { ImportWizard } from "@/components/ImportWizard";
+import { ImportProfileList } from "@/components/ImportProfileList";
+import { BankAccountSelect } from "@/components/BankAccountSelect";
+import { SimilarTransactions } from "@/components/SimilarTransactions";
 import { Upload } from "lucide-react";
+import { statementFileTypes } from "@/lib/imports";
 import type { Transaction } from "@db/schema";
+import type { TransactionWithSplits } from "@/lib/predictions";
 
 export function Analysis() {
-  const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [bankAccountId, setBankAccountId] = useState<number | undefined>();
   const queryClient = useQueryClient();
 
-  const { data: transactions } = useQuery({
-    queryKey: ["/api/transactions"],
-  });
-
-  const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append("file", file);
-      const res = await fetch("/api/transactions/upload", {
-        method: "POST",
-        body: formData,
-      });
-      if (!res.ok) throw new Error("Failed to upload file");
-      return res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
-    },
+  const { data: transactions } = useQuery<TransactionWithSplits[]>({
+    queryKey: [`/api/transactions${bankAccountId !== undefined ? `?bankAccountId=${bankAccountId}` : ""}`],
   });
+  // Looked up from the list so the card follows saved changes
+  const selectedTransaction = transactions?.find((transaction) => transaction.id === selectedId);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      uploadMutation.mutate(file);
+      setPendingFile(file);
     }
+    e.target.value = "";
   };
 
   const updateTransaction = useMutation({
@@ -49,7 +46,9 @@ export function Analysis() {
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/transactions"),
+      });
     },
   });
 
@@ -60,7 +59,7 @@ export function Analysis() {
         <div className="flex gap-4">
           <Input
             type="file"
-            accept=".csv,.xlsx"
+            accept={statementFileTypes}
             onChange={handleFileChange}
             className="hidden"
             id="file-upload"
@@ -74,15 +73,40 @@ export function Analysis() {
         </div>
       </div>
 
+      <ImportWizard file={pendingFile} onClose={() => setPendingFile(null)} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+        <ImportBatchList />
+        <ImportProfileList />
+      </div>
+
+      <div className="flex items-end gap-4 mb-6">
+        <div className="space-y-1 w-72">
+          <Label>Bank account</Label>
+          <BankAccountSelect
+            value={bankAccountId}
+            onValueChange={(value) => {
+              setBankAccountId(value);
+              setSelectedId(null);
+            }}
+          />
+        </div>
+        {bankAccountId !== undefined && (
+          <Button variant="outline" onClick={() => setBankAccountId(undefined)}>
+            Show all
+          </Button>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2">
           <TransactionTable
-            transactions={transactions}
-            onSelect={setSelectedTransaction}
+            transactions={transactions ?? []}
+            onSelect={(transaction) => setSelectedId(transaction.id)}
             onUpdate={(data) => updateTransaction.mutate(data)}
           />
         </div>
-        <div>
+        <div className="space-y-8">
           {selectedTransaction && (
             <PredictionCard
               transaction={selectedTransaction}
@@ -92,6 +116,9 @@ export function Analysis() {
               })}
             />
           )}
+          {selectedTransaction?.explanation && selectedTransaction.accountId && (
+            <SimilarTransactions transaction={selectedTransaction} />
+          )}
         </div>
       </div>
     </div>
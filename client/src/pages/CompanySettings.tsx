@@ -0,0 +1,309 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BankAccountList } from "@/components/BankAccountList";
+import { Loader2, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/lib/imports";
+import { months, financialYearName } from "@/lib/reports";
+import type { CompanyProfile } from "@db/schema";
+
+type CompanyProfileDetails = Omit<CompanyProfile, "logo" | "logoMimeType"> & { hasLogo: boolean };
+
+type ProfileFormData = Pick<
+  CompanyProfile,
+  | "registeredName"
+  | "tradingName"
+  | "registrationNumber"
+  | "incomeTaxNumber"
+  | "vatNumber"
+  | "physicalAddress"
+  | "postalAddress"
+  | "phone"
+  | "email"
+  | "website"
+  | "yearEndMonth"
+>;
+
+const emptyForm: ProfileFormData = {
+  registeredName: "",
+  tradingName: null,
+  registrationNumber: null,
+  incomeTaxNumber: null,
+  vatNumber: null,
+  physicalAddress: null,
+  postalAddress: null,
+  phone: null,
+  email: null,
+  website: null,
+  yearEndMonth: 2,
+};
+
+export function CompanySettings() {
+  const [form, setForm] = useState<ProfileFormData>(emptyForm);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // A 404 just means the profile has not been set up yet
+  const { data: profile, isLoading } = useQuery<CompanyProfileDetails>({
+    queryKey: ["/api/company-profile"],
+  });
+
+  useEffect(() => {
+    if (profile) {
+      setForm({
+        registeredName: profile.registeredName,
+        tradingName: profile.tradingName,
+        registrationNumber: profile.registrationNumber,
+        incomeTaxNumber: profile.incomeTaxNumber,
+        vatNumber: profile.vatNumber,
+        physicalAddress: profile.physicalAddress,
+        postalAddress: profile.postalAddress,
+        phone: profile.phone,
+        email: profile.email,
+        website: profile.website,
+        yearEndMonth: profile.yearEndMonth,
+      });
+    }
+  }, [profile]);
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const onSaved = (saved: CompanyProfileDetails) => {
+    queryClient.setQueryData(["/api/company-profile"], saved);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: ProfileFormData) => sendJson("/api/company-profile", "PUT", data),
+    onSuccess: (saved: CompanyProfileDetails) => {
+      onSaved(saved);
+      // The year end decides every report period
+      queryClient.invalidateQueries({ queryKey: ["/api/financial-years"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/reports/"),
+      });
+      toast({ title: "Company profile saved" });
+    },
+    onError,
+  });
+
+  const logoMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch("/api/company-profile/logo", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || `${res.status}: ${res.statusText}`);
+      }
+      return res.json();
+    },
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const removeLogoMutation = useMutation({
+    mutationFn: () => sendJson("/api/company-profile/logo", "DELETE"),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      logoMutation.mutate(file);
+    }
+    e.target.value = "";
+  };
+
+  const field = (key: keyof ProfileFormData) => ({
+    id: key,
+    value: String(form[key] ?? ""),
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm({ ...form, [key]: e.target.value }),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-8 flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading company profile...
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Company Settings</h1>
+      </div>
+
+      <form
+        className="space-y-6"
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveMutation.mutate(form);
+        }}
+      >
+        <Card>
+          <CardHeader>
+            <CardTitle>Registration</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="registeredName">Registered name</Label>
+              <Input {...field("registeredName")} required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tradingName">Trading name</Label>
+              <Input {...field("tradingName")} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="registrationNumber">CIPC registration number</Label>
+              <Input {...field("registrationNumber")} placeholder="2015/123456/07" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="incomeTaxNumber">Income tax number</Label>
+              <Input {...field("incomeTaxNumber")} placeholder="9123456789" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="vatNumber">VAT number</Label>
+              <Input {...field("vatNumber")} placeholder="4123456789" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Financial Year</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Year-end month</Label>
+              <Select
+                value={form.yearEndMonth.toString()}
+                onValueChange={(month) => setForm({ ...form, yearEndMonth: Number(month) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {months.map((month, index) => (
+                    <SelectItem key={month} value={String(index + 1)}>
+                      {month}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 text-sm text-muted-foreground self-end pb-2">
+              The year ending {months[form.yearEndMonth - 1]} {new Date().getFullYear()} is named{" "}
+              {financialYearName(new Date().getFullYear(), form.yearEndMonth)}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Addresses and Contact Details</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="physicalAddress">Physical address</Label>
+              <Textarea {...field("physicalAddress")} rows={4} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="postalAddress">Postal address</Label>
+              <Textarea {...field("postalAddress")} rows={4} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="phone">Telephone</Label>
+              <Input {...field("phone")} type="tel" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="email">Email</Label>
+              <Input {...field("email")} type="email" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="website">Website</Label>
+              <Input {...field("website")} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Profile
+          </Button>
+        </div>
+      </form>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Logo</CardTitle>
+        </CardHeader>
+        <CardContent className="flex items-center gap-6">
+          {profile?.hasLogo ? (
+            <img
+              src={`/api/company-profile/logo?v=${profile.updatedAt}`}
+              alt="Company logo"
+              className="h-20 w-20 object-contain border rounded"
+            />
+          ) : (
+            <div className="text-sm text-muted-foreground">
+              {profile ? "No logo uploaded" : "Save the company profile before adding a logo"}
+            </div>
+          )}
+          {profile && (
+            <div className="flex gap-2">
+              <Input
+                type="file"
+                accept="image/png,image/jpeg"
+                onChange={handleLogoChange}
+                className="hidden"
+                id="logo-upload"
+              />
+              <Button asChild variant="outline" disabled={logoMutation.isPending}>
+                <label htmlFor="logo-upload" className="cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload Logo
+                </label>
+              </Button>
+              {profile.hasLogo && (
+                <Button
+                  variant="outline"
+                  onClick={() => removeLogoMutation.mutate()}
+                  disabled={removeLogoMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="mt-6">
+        <BankAccountList />
+      </div>
+    </div>
+  );
+}
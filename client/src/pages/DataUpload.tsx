@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { TrialBalanceImport } from "@/components/TrialBalanceImport";
+import { Upload } from "lucide-react";
+import { useFinancialYears } from "@/hooks/use-financial-years";
+import type { OpeningBalance, UserAccount } from "@db/schema";
+
+type OpeningBalanceWithAccount = OpeningBalance & { account: UserAccount };
+
+const formatAmount = (value: number) =>
+  value ? new Intl.NumberFormat("en-ZA", { minimumFractionDigits: 2 }).format(value) : "";
+
+export function DataUpload() {
+  const { currentYear, yearName } = useFinancialYears();
+  const [financialYear, setFinancialYear] = useState(new Date().getFullYear());
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+
+  // Start on the current financial year once the year end is known
+  useEffect(() => {
+    if (currentYear) {
+      setFinancialYear(currentYear);
+    }
+  }, [currentYear]);
+
+  const { data: years = [] } = useQuery<number[]>({
+    queryKey: ["/api/opening-balances/years"],
+  });
+
+  const { data: balances = [] } = useQuery<OpeningBalanceWithAccount[]>({
+    queryKey: [`/api/opening-balances?financialYear=${financialYear}`],
+    enabled: Number.isInteger(financialYear),
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setPendingFile(file);
+    }
+    e.target.value = "";
+  };
+
+  const totalDebit = balances.reduce((sum, balance) => sum + Number(balance.debit), 0);
+  const totalCredit = balances.reduce((sum, balance) => sum + Number(balance.credit), 0);
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Data Upload</h1>
+      </div>
+
+      <TrialBalanceImport
+        file={pendingFile}
+        financialYear={financialYear}
+        onClose={() => setPendingFile(null)}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Opening Balances</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-4">
+            <div className="space-y-1">
+              <Label>Financial year ending</Label>
+              <Input
+                type="number"
+                className="w-32"
+                value={financialYear}
+                onChange={(e) => setFinancialYear(Number(e.target.value))}
+              />
+            </div>
+            <Input
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              onChange={handleFileChange}
+              className="hidden"
+              id="trial-balance-upload"
+            />
+            <Button asChild>
+              <label htmlFor="trial-balance-upload" className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Import Trial Balance
+              </label>
+            </Button>
+            {years.length > 0 && (
+              <div className="text-sm text-muted-foreground">
+                Opening balances held for {years.map(yearName).join(", ")}
+              </div>
+            )}
+          </div>
+
+          {balances.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              No opening balances for {yearName(financialYear)}. Import the prior year's closing trial
+              balance to bring balances forward.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {balances.map((balance) => (
+                  <TableRow key={balance.id}>
+                    <TableCell>{balance.account.code}</TableCell>
+                    <TableCell>{balance.account.name}</TableCell>
+                    <TableCell className="text-right">{formatAmount(Number(balance.debit))}</TableCell>
+                    <TableCell className="text-right">{formatAmount(Number(balance.credit))}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell colSpan={2}>Total</TableCell>
+                  <TableCell className="text-right">{formatAmount(totalDebit)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(totalCredit)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useFinancialYears } from "@/hooks/use-financial-years";
 import { 
   BarChart, 
   XAxis, 
@@ -34,6 +37,8 @@ interface Stats {
   totalTransactions: number;
   analyzedTransactions: number;
   predictionAccuracy: number;
+  financialYear: number;
+  financialYearName: string;
   monthlyVolume: Array<{
     month: string;
     count: number;
@@ -47,8 +52,12 @@ interface ForecastData {
 }
 
 export function Home() {
+  // The current financial year unless another is picked
+  const [financialYear, setFinancialYear] = useState<number | undefined>();
+  const { settings } = useFinancialYears();
+
   const { data: stats } = useQuery<Stats>({
-    queryKey: ["/api/stats"],
+    queryKey: [financialYear ? `/api/stats?financialYear=${financialYear}` : "/api/stats"],
   });
 
   const { data: metrics } = useQuery<FinancialMetrics>({
@@ -165,8 +174,23 @@ export function Home() {
         </Card>
 
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle>Transaction Analysis</CardTitle>
+            <Select
+              value={stats?.financialYear.toString()}
+              onValueChange={(year) => setFinancialYear(Number(year))}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder={stats?.financialYearName} />
+              </SelectTrigger>
+              <SelectContent>
+                {(settings?.years ?? []).map((year) => (
+                  <SelectItem key={year.financialYear} value={year.financialYear.toString()}>
+                    {year.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </CardHeader>
           <CardContent>
             <div className="h-[300px]">
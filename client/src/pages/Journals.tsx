@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { AccountSelect } from "@/components/AccountSelect";
+import { Edit2, Plus, Trash2, X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/lib/imports";
+import { formatAmount } from "@/lib/reports";
+import type { Journal, JournalLine } from "@db/schema";
+
+type JournalWithLines = Journal & {
+  lines: Array<JournalLine & { account: { id: number; code: string; name: string } | null }>;
+};
+
+interface LineForm {
+  accountId?: number;
+  description: string;
+  debit: string;
+  credit: string;
+}
+
+interface JournalForm {
+  date: string;
+  reference: string;
+  description: string;
+  lines: LineForm[];
+}
+
+const emptyLine: LineForm = { description: "", debit: "", credit: "" };
+
+const newJournal = (): JournalForm => ({
+  date: format(new Date(), "yyyy-MM-dd"),
+  reference: "",
+  description: "",
+  lines: [{ ...emptyLine }, { ...emptyLine }],
+});
+
+const toCents = (value: string) => Math.round((Number(value) || 0) * 100);
+
+// Manual journals for accruals, depreciation and year-end adjustments. Bank
+// transactions post their own journals when they are explained.
+export function Journals() {
+  const [editing, setEditing] = useState<JournalWithLines | "new" | null>(null);
+  const [form, setForm] = useState<JournalForm>(newJournal);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: journals = [] } = useQuery<JournalWithLines[]>({
+    queryKey: ["/api/journals?source=manual"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  // Journals change every balance
+  const invalidate = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) =>
+        String(query.queryKey[0]).startsWith("/api/journals") ||
+        String(query.queryKey[0]).startsWith("/api/reports/"),
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const body = {
+        date: form.date,
+        reference: form.reference || null,
+        description: form.description,
+        lines: form.lines.map((line) => ({
+          accountId: line.accountId,
+          description: line.description || null,
+          debit: toCents(line.debit) / 100,
+          credit: toCents(line.credit) / 100,
+        })),
+      };
+      return editing === "new"
+        ? sendJson("/api/journals", "POST", body)
+        : sendJson(`/api/journals/${editing!.id}`, "PUT", body);
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditing(null);
+      toast({ title: "Journal saved" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => sendJson(`/api/journals/${id}`, "DELETE"),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const startEditing = (journal: JournalWithLines | "new") => {
+    setEditing(journal);
+    setForm(
+      journal === "new"
+        ? newJournal()
+        : {
+            date: format(new Date(journal.date), "yyyy-MM-dd"),
+            reference: journal.reference ?? "",
+            description: journal.description,
+            lines: journal.lines.map((line) => ({
+              accountId: line.accountId ?? undefined,
+              description: line.description ?? "",
+              debit: Number(line.debit) ? line.debit : "",
+              credit: Number(line.credit) ? line.credit : "",
+            })),
+          }
+    );
+  };
+
+  const updateLine = (index: number, changes: Partial<LineForm>) => {
+    setForm({
+      ...form,
+      lines: form.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    });
+  };
+
+  const debits = form.lines.reduce((sum, line) => sum + toCents(line.debit), 0);
+  const credits = form.lines.reduce((sum, line) => sum + toCents(line.credit), 0);
+  const complete =
+    form.description.trim() !== "" &&
+    form.lines.length >= 2 &&
+    form.lines.every(
+      (line) => line.accountId !== undefined && (toCents(line.debit) > 0) !== (toCents(line.credit) > 0)
+    );
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Journals</h1>
+        <Button onClick={() => startEditing("new")}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Journal
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Manual Journals</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {journals.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              Record accruals, depreciation and year-end adjustments as journals.
+              Bank transactions are posted automatically when they are explained.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Accounts</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {journals.map((journal) => (
+                  <TableRow key={journal.id}>
+                    <TableCell>{format(new Date(journal.date), "yyyy-MM-dd")}</TableCell>
+                    <TableCell>{journal.reference ?? "-"}</TableCell>
+                    <TableCell>{journal.description}</TableCell>
+                    <TableCell className="text-xs">
+                      {journal.lines.map((line) => (
+                        <div key={line.id}>
+                          <Badge variant="outline" className="mr-1">
+                            {Number(line.debit) ? "Dr" : "Cr"}
+                          </Badge>
+                          {line.account ? `${line.account.code} ${line.account.name}` : "-"}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(journal.lines.reduce((sum, line) => sum + Number(line.debit), 0))}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => startEditing(journal)}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(journal.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Journal" : "Edit Journal"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <Label>Date</Label>
+                <Input
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Reference</Label>
+                <Input
+                  value={form.reference}
+                  onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1 col-span-2">
+                <Label>Description</Label>
+                <Input
+                  placeholder="e.g. Depreciation for the year"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-72">Account</TableHead>
+                  <TableHead>Line description</TableHead>
+                  <TableHead className="w-32 text-right">Debit</TableHead>
+                  <TableHead className="w-32 text-right">Credit</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {form.lines.map((line, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <AccountSelect
+                        value={line.accountId}
+                        onValueChange={(accountId) => updateLine(index, { accountId })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={line.description}
+                        onChange={(e) => updateLine(index, { description: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        className="text-right"
+                        value={line.debit}
+                        onChange={(e) => updateLine(index, { debit: e.target.value, credit: "" })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        className="text-right"
+                        value={line.credit}
+                        onChange={(e) => updateLine(index, { credit: e.target.value, debit: "" })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setForm({ ...form, lines: form.lines.filter((_, i) => i !== index) })}
+                        disabled={form.lines.length <= 2}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold">
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setForm({ ...form, lines: [...form.lines, { ...emptyLine }] })}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add line
+                    </Button>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {debits !== credits && (
+                      <span className="text-destructive">
+                        Out of balance by {formatAmount(Math.abs(debits - credits) / 100)}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(debits / 100)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(credits / 100)}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!complete || debits !== credits || saveMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
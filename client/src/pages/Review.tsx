@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { Check, X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/lib/imports";
+import type { UserAccount } from "@db/schema";
+import type { Prediction, TransactionWithSplits } from "@/lib/predictions";
+
+interface ReviewItem {
+  transaction: TransactionWithSplits;
+  reason: "unallocated" | "low-confidence" | "disputed";
+  predictions: Prediction[];
+}
+
+interface ReviewQueue {
+  threshold: number;
+  total: number;
+  items: ReviewItem[];
+}
+
+type ReviewDecision =
+  | { action: "accept" }
+  | { action: "choose"; prediction: Prediction }
+  | { action: "reject" };
+
+const thresholds = [0.6, 0.7, 0.8, 0.9, 0.95];
+
+const reasons: Record<ReviewItem["reason"], string> = {
+  unallocated: "No confident suggestion",
+  "low-confidence": "Low confidence",
+  disputed: "Predictors disagree",
+};
+
+const formatCurrency = (amount: string) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(Number(amount));
+
+// Works through the predictions auto-categorisation was not sure of. The
+// keyboard does most of the work: j/k to move, a to accept the allocation,
+// 1-5 to pick a suggestion and r to reject them all.
+export function Review() {
+  const [threshold, setThreshold] = useState(0.8);
+  const [current, setCurrent] = useState(0);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<ReviewQueue>({
+    queryKey: [`/api/review?threshold=${threshold}`],
+  });
+  const { data: accounts = [] } = useQuery<UserAccount[]>({
+    queryKey: ["/api/accounts"],
+  });
+  const items = data?.items ?? [];
+  const item = items[Math.min(current, items.length - 1)];
+
+  const accountName = (id: number | null) => {
+    const account = accounts.find((account) => account.id === id);
+    return account ? `${account.code} ${account.name}` : "-";
+  };
+
+  const decideMutation = useMutation({
+    mutationFn: ({ transactionId, decision }: { transactionId: number; decision: ReviewDecision }) =>
+      sendJson(`/api/review/${transactionId}`, "POST", decision),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          String(query.queryKey[0]).startsWith("/api/review") ||
+          String(query.queryKey[0]).startsWith("/api/transactions") ||
+          String(query.queryKey[0]).startsWith("/api/predictions") ||
+          String(query.queryKey[0]).startsWith("/api/rule") ||
+          String(query.queryKey[0]).startsWith("/api/reports/"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const allocated = !!item && (item.transaction.accountId !== null || item.transaction.splits.length > 0);
+
+  const decide = (decision: ReviewDecision) => {
+    if (!item || decideMutation.isPending) return;
+    decideMutation.mutate({ transactionId: item.transaction.id, decision });
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.closest("input, textarea, select, [role=combobox], [role=listbox]")) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      if (event.key === "j" || event.key === "ArrowDown") {
+        setCurrent((index) => Math.min(index + 1, items.length - 1));
+      } else if (event.key === "k" || event.key === "ArrowUp") {
+        setCurrent((index) => Math.max(index - 1, 0));
+      } else if (event.key === "a" && allocated) {
+        decide({ action: "accept" });
+      } else if (event.key === "r") {
+        decide({ action: "reject" });
+      } else if (/^[1-9]$/.test(event.key) && item?.predictions[Number(event.key) - 1]) {
+        decide({ action: "choose", prediction: item.predictions[Number(event.key) - 1] });
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Review</h1>
+          <p className="text-sm text-muted-foreground">
+            j/k to move, a to accept, 1-{Math.max(item?.predictions.length ?? 0, 1)} to pick a suggestion, r to reject
+          </p>
+        </div>
+        <Select
+          value={threshold.toString()}
+          onValueChange={(value) => {
+            setThreshold(Number(value));
+            setCurrent(0);
+          }}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {thresholds.map((value) => (
+              <SelectItem key={value} value={value.toString()}>
+                Below {Math.round(value * 100)}% confidence
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Waiting for review{data ? ` (${data.total})` : ""}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-sm text-muted-foreground">Loading...</div>
+            ) : items.length === 0 ? (
+              <div className="text-sm text-muted-foreground">
+                Nothing to review. Auto-categorise a statement from Data Upload to fill the queue.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Why</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((queued, index) => (
+                    <TableRow
+                      key={queued.transaction.id}
+                      className={queued === item ? "bg-muted" : "cursor-pointer"}
+                      onClick={() => setCurrent(index)}
+                    >
+                      <TableCell>{format(new Date(queued.transaction.date), "yyyy-MM-dd")}</TableCell>
+                      <TableCell>{queued.transaction.description}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(queued.transaction.amount)}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{reasons[queued.reason]}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {item && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{item.transaction.description}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex justify-between text-sm">
+                <span>{format(new Date(item.transaction.date), "yyyy-MM-dd")}</span>
+                <span className="font-medium">{formatCurrency(item.transaction.amount)}</span>
+              </div>
+
+              <div className="space-y-1 rounded-md border p-3">
+                <div className="text-sm font-medium">Current allocation</div>
+                {allocated ? (
+                  <>
+                    <div className="text-sm">{item.transaction.explanation ?? "-"}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {item.transaction.splits.length > 0
+                        ? item.transaction.splits.map((split) => accountName(split.accountId)).join(", ")
+                        : accountName(item.transaction.accountId)}
+                      {item.transaction.predictedBy &&
+                        ` - ${item.transaction.predictedBy}, ${Math.round(Number(item.transaction.confidence ?? 0) * 100)}%`}
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-sm text-muted-foreground">Not allocated</div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {item.predictions.map((prediction, index) => (
+                  <button
+                    key={index}
+                    className="space-y-1 rounded-md border p-3 text-left hover:bg-muted disabled:opacity-50"
+                    onClick={() => decide({ action: "choose", prediction })}
+                    disabled={decideMutation.isPending}
+                  >
+                    <div className="flex items-center justify-between">
+                      <Badge variant="outline">{index + 1}</Badge>
+                      <Badge variant="secondary">
+                        {prediction.type} {Math.round(prediction.confidence * 100)}%
+                      </Badge>
+                    </div>
+                    <div className="text-sm font-medium">{prediction.explanation}</div>
+                    <div className="text-xs text-muted-foreground">{prediction.accountName}</div>
+                  </button>
+                ))}
+                {item.predictions.length === 0 && (
+                  <div className="text-sm text-muted-foreground">No suggestions for this transaction</div>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  className="flex-1"
+                  onClick={() => decide({ action: "accept" })}
+                  disabled={!allocated || decideMutation.isPending}
+                >
+                  <Check className="h-4 w-4 mr-2" />
+                  Accept (a)
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => decide({ action: "reject" })}
+                  disabled={decideMutation.isPending}
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Reject (r)
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
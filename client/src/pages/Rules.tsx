@@ -0,0 +1,657 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { AccountSelect } from "@/components/AccountSelect";
+import { BankAccountSelect } from "@/components/BankAccountSelect";
+import { RuleSuggestions } from "@/components/RuleSuggestions";
+import { Edit2, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/lib/imports";
+import type { BankAccount, Rule, UserAccount } from "@db/schema";
+
+type RuleCondition =
+  | { field: "description"; operator: "contains" | "startsWith" | "regex"; value: string }
+  | { field: "amount"; operator: "equals" | "between"; value?: number; min?: number; max?: number }
+  | { field: "direction"; value: "in" | "out" }
+  | { field: "dayOfMonth"; min: number; max: number }
+  | { field: "bankAccount"; bankAccountId: number };
+
+interface RuleAction {
+  explanation: string;
+  accountId?: number | null;
+  splits?: Array<{ accountId: number; percentage: number; explanation?: string | null }> | null;
+}
+
+type RuleWithParts = Omit<Rule, "conditions" | "action"> & {
+  conditions: RuleCondition[];
+  action: RuleAction;
+};
+
+type ConditionField = RuleCondition["field"];
+
+// Every condition is edited as text and only turned into numbers when saved
+interface ConditionForm {
+  field: ConditionField;
+  operator: string;
+  value: string;
+  min: string;
+  max: string;
+  bankAccountId?: number;
+}
+
+interface SplitForm {
+  accountId?: number;
+  percentage: string;
+  explanation: string;
+}
+
+interface RuleForm {
+  name: string;
+  priority: string;
+  enabled: boolean;
+  conditions: ConditionForm[];
+  explanation: string;
+  split: boolean;
+  accountId?: number;
+  splits: SplitForm[];
+}
+
+const conditionFields: Array<{ value: ConditionField; label: string }> = [
+  { value: "description", label: "Description" },
+  { value: "amount", label: "Amount" },
+  { value: "direction", label: "Money in or out" },
+  { value: "dayOfMonth", label: "Day of month" },
+  { value: "bankAccount", label: "Bank account" },
+];
+
+const defaultOperators: Record<ConditionField, string> = {
+  description: "contains",
+  amount: "equals",
+  direction: "",
+  dayOfMonth: "",
+  bankAccount: "",
+};
+
+const newCondition = (field: ConditionField): ConditionForm => ({
+  field,
+  operator: defaultOperators[field],
+  value: field === "direction" ? "out" : "",
+  min: "",
+  max: "",
+});
+
+const emptySplit: SplitForm = { percentage: "", explanation: "" };
+
+const newRule = (): RuleForm => ({
+  name: "",
+  priority: "100",
+  enabled: true,
+  conditions: [newCondition("description")],
+  explanation: "",
+  split: false,
+  splits: [{ ...emptySplit }, { ...emptySplit }],
+});
+
+const optionalNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+const toCondition = (condition: ConditionForm): RuleCondition => {
+  switch (condition.field) {
+    case "description":
+      return {
+        field: "description",
+        operator: condition.operator as "contains" | "startsWith" | "regex",
+        value: condition.value,
+      };
+    case "amount":
+      return condition.operator === "equals"
+        ? { field: "amount", operator: "equals", value: optionalNumber(condition.value) }
+        : { field: "amount", operator: "between", min: optionalNumber(condition.min), max: optionalNumber(condition.max) };
+    case "direction":
+      return { field: "direction", value: condition.value as "in" | "out" };
+    case "dayOfMonth":
+      return { field: "dayOfMonth", min: Number(condition.min), max: Number(condition.max) };
+    case "bankAccount":
+      return { field: "bankAccount", bankAccountId: condition.bankAccountId! };
+  }
+};
+
+const fromCondition = (condition: RuleCondition): ConditionForm => {
+  const form = newCondition(condition.field);
+  switch (condition.field) {
+    case "description":
+      return { ...form, operator: condition.operator, value: condition.value };
+    case "amount":
+      return {
+        ...form,
+        operator: condition.operator,
+        value: condition.value?.toString() ?? "",
+        min: condition.min?.toString() ?? "",
+        max: condition.max?.toString() ?? "",
+      };
+    case "direction":
+      return { ...form, value: condition.value };
+    case "dayOfMonth":
+      return { ...form, min: condition.min.toString(), max: condition.max.toString() };
+    case "bankAccount":
+      return { ...form, bankAccountId: condition.bankAccountId };
+  }
+};
+
+const describeCondition = (condition: RuleCondition, bankAccounts: BankAccount[]) => {
+  switch (condition.field) {
+    case "description": {
+      const operators = { contains: "contains", startsWith: "starts with", regex: "matches" };
+      return `Description ${operators[condition.operator]} "${condition.value}"`;
+    }
+    case "amount":
+      if (condition.operator === "equals") return `Amount is ${condition.value}`;
+      if (condition.min === undefined) return `Amount up to ${condition.max}`;
+      if (condition.max === undefined) return `Amount from ${condition.min}`;
+      return `Amount ${condition.min} to ${condition.max}`;
+    case "direction":
+      return condition.value === "in" ? "Money in" : "Money out";
+    case "dayOfMonth":
+      return condition.min === condition.max
+        ? `On day ${condition.min}`
+        : `Days ${condition.min} to ${condition.max}`;
+    case "bankAccount": {
+      const bankAccount = bankAccounts.find(({ id }) => id === condition.bankAccountId);
+      return `From ${bankAccount?.name ?? "a removed bank account"}`;
+    }
+  }
+};
+
+// The company's categorisation rules. Matching rules are offered first among a
+// transaction's predictions, the lowest priority number first. Their
+// confidence falls as their predictions are rejected in review.
+export function Rules() {
+  const [editing, setEditing] = useState<RuleWithParts | "new" | null>(null);
+  const [form, setForm] = useState<RuleForm>(newRule);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: rules = [] } = useQuery<RuleWithParts[]>({
+    queryKey: ["/api/rules"],
+  });
+  const { data: accounts = [] } = useQuery<UserAccount[]>({
+    queryKey: ["/api/accounts"],
+  });
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  const accountName = (id?: number | null) => {
+    const account = accounts.find((account) => account.id === id);
+    return account ? `${account.code} ${account.name}` : "-";
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  // Rules change what every transaction is offered
+  const invalidate = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) =>
+        String(query.queryKey[0]).startsWith("/api/rule") ||
+        String(query.queryKey[0]).startsWith("/api/predictions"),
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const body = {
+        name: form.name,
+        priority: Number(form.priority) || 0,
+        enabled: form.enabled,
+        conditions: form.conditions.map(toCondition),
+        action: {
+          explanation: form.explanation,
+          accountId: form.split ? null : form.accountId,
+          splits: form.split
+            ? form.splits.map((split) => ({
+                accountId: split.accountId,
+                percentage: Number(split.percentage),
+                explanation: split.explanation || null,
+              }))
+            : null,
+        },
+      };
+      return editing === "new"
+        ? sendJson("/api/rules", "POST", body)
+        : sendJson(`/api/rules/${editing!.id}`, "PATCH", body);
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditing(null);
+      toast({ title: "Rule saved" });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: RuleWithParts) => sendJson(`/api/rules/${rule.id}`, "PATCH", { enabled: !rule.enabled }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => sendJson(`/api/rules/${id}`, "DELETE"),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const startEditing = (rule: RuleWithParts | "new") => {
+    setEditing(rule);
+    setForm(
+      rule === "new"
+        ? newRule()
+        : {
+            name: rule.name,
+            priority: rule.priority.toString(),
+            enabled: rule.enabled,
+            conditions: rule.conditions.map(fromCondition),
+            explanation: rule.action.explanation,
+            split: !!rule.action.splits?.length,
+            accountId: rule.action.accountId ?? undefined,
+            splits: rule.action.splits?.length
+              ? rule.action.splits.map((split) => ({
+                  accountId: split.accountId,
+                  percentage: split.percentage.toString(),
+                  explanation: split.explanation ?? "",
+                }))
+              : [{ ...emptySplit }, { ...emptySplit }],
+          }
+    );
+  };
+
+  const updateCondition = (index: number, changes: Partial<ConditionForm>) => {
+    setForm({
+      ...form,
+      conditions: form.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)),
+    });
+  };
+
+  const updateSplit = (index: number, changes: Partial<SplitForm>) => {
+    setForm({
+      ...form,
+      splits: form.splits.map((split, i) => (i === index ? { ...split, ...changes } : split)),
+    });
+  };
+
+  const percentageTotal = form.splits.reduce((sum, split) => sum + Math.round((Number(split.percentage) || 0) * 100), 0);
+  const complete =
+    form.name.trim() !== "" &&
+    form.explanation.trim() !== "" &&
+    form.conditions.length > 0 &&
+    (form.split
+      ? form.splits.length >= 2 && form.splits.every((split) => split.accountId !== undefined) && percentageTotal === 10000
+      : form.accountId !== undefined);
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Rules</h1>
+        <Button onClick={() => startEditing("new")}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Rule
+        </Button>
+      </div>
+
+      <RuleSuggestions />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Categorisation Rules</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              Rules explain transactions that always mean the same thing, such as a monthly
+              debit order or bank charges. Every condition must hold for a rule to match.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Priority</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Then</TableHead>
+                  <TableHead className="w-24 text-right">Confidence</TableHead>
+                  <TableHead className="w-20">Enabled</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell>{rule.name}</TableCell>
+                    <TableCell className="text-xs">
+                      {rule.conditions.map((condition, index) => (
+                        <div key={index}>{describeCondition(condition, bankAccounts)}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <div className="font-medium">{rule.action.explanation}</div>
+                      {rule.action.splits?.length ? (
+                        rule.action.splits.map((split, index) => (
+                          <div key={index}>
+                            <Badge variant="outline" className="mr-1">{split.percentage}%</Badge>
+                            {accountName(split.accountId)}
+                          </div>
+                        ))
+                      ) : (
+                        <div>{accountName(rule.action.accountId)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{Math.round(Number(rule.confidence) * 100)}%</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={() => toggleMutation.mutate(rule)}
+                        disabled={toggleMutation.isPending}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => startEditing(rule)}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(rule.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Rule" : "Edit Rule"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-6">
+            <div className="grid grid-cols-4 gap-4">
+              <div className="space-y-1 col-span-2">
+                <Label>Name</Label>
+                <Input
+                  placeholder="e.g. Monthly bank charges"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Priority</Label>
+                <Input
+                  type="number"
+                  value={form.priority}
+                  onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Enabled</Label>
+                <div className="pt-2">
+                  <Switch
+                    checked={form.enabled}
+                    onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium">When every condition holds</h3>
+              {form.conditions.map((condition, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <Select
+                    value={condition.field}
+                    onValueChange={(field) => updateCondition(index, newCondition(field as ConditionField))}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {conditionFields.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  {condition.field === "description" && (
+                    <>
+                      <Select value={condition.operator} onValueChange={(operator) => updateCondition(index, { operator })}>
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="contains">contains</SelectItem>
+                          <SelectItem value="startsWith">starts with</SelectItem>
+                          <SelectItem value="regex">matches regex</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        className="flex-1"
+                        value={condition.value}
+                        onChange={(e) => updateCondition(index, { value: e.target.value })}
+                      />
+                    </>
+                  )}
+
+                  {condition.field === "amount" && (
+                    <>
+                      <Select value={condition.operator} onValueChange={(operator) => updateCondition(index, { operator })}>
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="equals">equals</SelectItem>
+                          <SelectItem value="between">between</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {condition.operator === "equals" ? (
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          className="flex-1"
+                          value={condition.value}
+                          onChange={(e) => updateCondition(index, { value: e.target.value })}
+                        />
+                      ) : (
+                        <>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            placeholder="From"
+                            value={condition.min}
+                            onChange={(e) => updateCondition(index, { min: e.target.value })}
+                          />
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            placeholder="To"
+                            value={condition.max}
+                            onChange={(e) => updateCondition(index, { max: e.target.value })}
+                          />
+                        </>
+                      )}
+                    </>
+                  )}
+
+                  {condition.field === "direction" && (
+                    <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="in">Money in</SelectItem>
+                        <SelectItem value="out">Money out</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  {condition.field === "dayOfMonth" && (
+                    <>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={31}
+                        placeholder="From day"
+                        value={condition.min}
+                        onChange={(e) => updateCondition(index, { min: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        min={1}
+                        max={31}
+                        placeholder="To day"
+                        value={condition.max}
+                        onChange={(e) => updateCondition(index, { max: e.target.value })}
+                      />
+                    </>
+                  )}
+
+                  {condition.field === "bankAccount" && (
+                    <div className="flex-1">
+                      <BankAccountSelect
+                        value={condition.bankAccountId}
+                        onValueChange={(bankAccountId) => updateCondition(index, { bankAccountId })}
+                      />
+                    </div>
+                  )}
+
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setForm({ ...form, conditions: form.conditions.filter((_, i) => i !== index) })}
+                    disabled={form.conditions.length <= 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, conditions: [...form.conditions, newCondition("description")] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add condition
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Then explain it as</h3>
+              <Input
+                placeholder="e.g. Bank charges"
+                value={form.explanation}
+                onChange={(e) => setForm({ ...form, explanation: e.target.value })}
+              />
+              <div className="flex items-center gap-2 text-sm">
+                <Switch checked={form.split} onCheckedChange={(split) => setForm({ ...form, split })} />
+                Split across several accounts
+              </div>
+              {form.split ? (
+                <>
+                  {form.splits.map((split, index) => (
+                    <div key={index} className="flex gap-2">
+                      <div className="flex-1">
+                        <AccountSelect
+                          value={split.accountId}
+                          onValueChange={(accountId) => updateSplit(index, { accountId })}
+                        />
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="0.01"
+                        className="w-24 text-right"
+                        placeholder="%"
+                        value={split.percentage}
+                        onChange={(e) => updateSplit(index, { percentage: e.target.value })}
+                      />
+                      <Input
+                        className="flex-1"
+                        placeholder="Explanation for this part"
+                        value={split.explanation}
+                        onChange={(e) => updateSplit(index, { explanation: e.target.value })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setForm({ ...form, splits: form.splits.filter((_, i) => i !== index) })}
+                        disabled={form.splits.length <= 2}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between text-sm">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setForm({ ...form, splits: [...form.splits, { ...emptySplit }] })}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add part
+                    </Button>
+                    <span className={percentageTotal === 10000 ? "text-muted-foreground" : "text-destructive"}>
+                      {percentageTotal / 100}% of 100% allocated
+                    </span>
+                  </div>
+                </>
+              ) : (
+                <AccountSelect
+                  value={form.accountId}
+                  onValueChange={(accountId) => setForm({ ...form, accountId })}
+                />
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!complete || saveMutation.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
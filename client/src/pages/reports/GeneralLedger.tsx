@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { AccountSelect } from "@/components/AccountSelect";
+import { ReportPeriodPicker } from "@/components/ReportPeriodPicker";
+import { ReportExportButtons } from "@/components/ReportExportButtons";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import {
+  formatAmount,
+  reportQuery,
+  type GeneralLedgerReport,
+  type ReportPeriodSelection
+} from "@/lib/reports";
+
+const PAGE_SIZE = 50;
+
+// Balances are debit-positive; show which side they sit on
+const formatBalance = (value: number) =>
+  value ? `${formatAmount(Math.abs(value))} ${value > 0 ? "Dr" : "Cr"}` : "-";
+
+// Reads its starting account and period from the query string so report
+// lines can link straight into it
+export function GeneralLedger() {
+  const search = new URLSearchParams(useSearch());
+  const [account, setAccount] = useState<string | undefined>(search.get("account") ?? undefined);
+  const [period, setPeriod] = useState<ReportPeriodSelection>(() => ({
+    financialYear: search.get("financialYear") ? Number(search.get("financialYear")) : undefined,
+    from: search.get("from") ?? undefined,
+    to: search.get("to") ?? undefined,
+  }));
+  const [bankAccountId] = useState(search.get("bankAccountId") ? Number(search.get("bankAccountId")) : undefined);
+  const [includeChildren, setIncludeChildren] = useState(search.get("includeChildren") !== "false");
+  const [page, setPage] = useState(1);
+
+  const { data: report, isLoading, error } = useQuery<GeneralLedgerReport>({
+    queryKey: [`/api/reports/general-ledger${reportQuery({
+      account,
+      ...period,
+      bankAccountId,
+      includeChildren: includeChildren ? undefined : "false",
+      page,
+      pageSize: PAGE_SIZE,
+    })}`],
+    enabled: account !== undefined,
+  });
+
+  const changeAccount = (value: number) => {
+    setAccount(String(value));
+    setPage(1);
+  };
+
+  const changePeriod = (value: ReportPeriodSelection) => {
+    setPeriod(value);
+    setPage(1);
+  };
+
+  const showsSubAccounts = report ? report.account.accountIds.length > 1 : false;
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">General Ledger</h1>
+        {account !== undefined && (
+          <ReportExportButtons
+            report="general-ledger"
+            params={{ account, ...period, bankAccountId, includeChildren: includeChildren ? undefined : "false" }}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div className="space-y-1 w-72">
+          <Label>Account</Label>
+          <AccountSelect
+            value={account && /^\d+$/.test(account) ? Number(account) : undefined}
+            onValueChange={changeAccount}
+          />
+        </div>
+        <ReportPeriodPicker value={period} onChange={changePeriod} />
+        <div className="flex items-center gap-2 h-10">
+          <Switch
+            id="include-children"
+            checked={includeChildren}
+            onCheckedChange={(checked) => {
+              setIncludeChildren(checked);
+              setPage(1);
+            }}
+          />
+          <Label htmlFor="include-children">Include sub-accounts</Label>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {report
+              ? `${report.account.code} ${report.account.name}: ${report.period.from} to ${report.period.to}`
+              : "General Ledger"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {account === undefined ? (
+            <div className="text-sm text-muted-foreground">
+              Choose an account, or open one from the trial balance or a financial statement
+            </div>
+          ) : isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading ledger...
+            </div>
+          ) : error ? (
+            <div className="text-sm text-destructive">{(error as Error).message}</div>
+          ) : report ? (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Explanation</TableHead>
+                    {showsSubAccounts && <TableHead>Account</TableHead>}
+                    <TableHead>Source</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow className="font-semibold">
+                    <TableCell>{report.period.from}</TableCell>
+                    <TableCell colSpan={showsSubAccounts ? 6 : 5}>Opening balance</TableCell>
+                    <TableCell className="text-right">{formatBalance(report.openingBalance)}</TableCell>
+                  </TableRow>
+                  {report.entries.map((entry) => (
+                    <TableRow key={entry.lineId}>
+                      <TableCell>{entry.date}</TableCell>
+                      <TableCell>
+                        {entry.description}
+                        {entry.reference && (
+                          <div className="text-xs text-muted-foreground">{entry.reference}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{entry.explanation}</TableCell>
+                      {showsSubAccounts && (
+                        <TableCell>{entry.accountCode} {entry.accountName}</TableCell>
+                      )}
+                      <TableCell>
+                        {entry.source === "manual" && <Badge variant="secondary">journal</Badge>}
+                        {entry.predictedBy && (
+                          <Badge variant="outline">
+                            {entry.predictedBy}
+                            {entry.confidence !== null && ` ${Math.round(entry.confidence * 100)}%`}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatAmount(entry.debit)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(entry.credit)}</TableCell>
+                      <TableCell className="text-right">{formatBalance(entry.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-bold border-t-2">
+                    <TableCell>{report.period.to}</TableCell>
+                    <TableCell colSpan={showsSubAccounts ? 4 : 3}>Closing balance</TableCell>
+                    <TableCell className="text-right">{formatAmount(report.totals.debit)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(report.totals.credit)}</TableCell>
+                    <TableCell className="text-right">{formatBalance(report.closingBalance)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <div>
+                  {report.pagination.total} transaction(s), page {report.pagination.page} of{" "}
+                  {report.pagination.totalPages}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page <= 1}
+                    onClick={() => setPage(page - 1)}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page >= report.pagination.totalPages}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
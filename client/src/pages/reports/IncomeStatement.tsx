@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ReportPeriodPicker } from "@/components/ReportPeriodPicker";
+import { ReportExportButtons } from "@/components/ReportExportButtons";
+import { StatementTable } from "@/components/StatementTable";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import {
+  reportQuery,
+  type IncomeStatementReport,
+  type ReportPeriodSelection
+} from "@/lib/reports";
+
+export function IncomeStatement() {
+  const [period, setPeriod] = useState<ReportPeriodSelection>({});
+  const [comparative, setComparative] = useState(true);
+
+  const params = { ...period, comparative: comparative ? undefined : "false" };
+
+  const { data: report, isLoading, error } = useQuery<IncomeStatementReport>({
+    queryKey: [
+      `/api/reports/income-statement${reportQuery(params)}`
+    ],
+  });
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Statement of Income</h1>
+        <ReportExportButtons report="income-statement" params={params} />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <ReportPeriodPicker value={period} onChange={setPeriod} />
+        <div className="flex items-center gap-2 h-10">
+          <Switch id="comparative" checked={comparative} onCheckedChange={setComparative} />
+          <Label htmlFor="comparative">Show prior year</Label>
+        </div>
+      </div>
+
+      {report && report.unallocatedCount > 0 && (
+        <Alert className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{report.unallocatedCount} transaction(s) are not yet allocated</AlertTitle>
+          <AlertDescription>
+            They are left out of income and expenses until they are explained on the{" "}
+            <a href="/analysis" className="underline">analysis page</a>.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {report
+              ? `For the period ${report.period.from} to ${report.period.to}`
+              : "Statement of Income"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading report...
+            </div>
+          ) : error ? (
+            <div className="text-sm text-destructive">{(error as Error).message}</div>
+          ) : report ? (
+            <StatementTable
+              sections={report.sections}
+              period={report.period}
+              comparativePeriod={report.comparativePeriod}
+              totals={[{
+                label: "Net profit/(loss)",
+                amount: report.netProfit,
+                comparative: report.comparativeNetProfit,
+              }]}
+            />
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
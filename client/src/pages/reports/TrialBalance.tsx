@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from "@/components/ui/table";
+import { BankAccountSelect } from "@/components/BankAccountSelect";
+import { ReportPeriodPicker } from "@/components/ReportPeriodPicker";
+import { ReportExportButtons } from "@/components/ReportExportButtons";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import {
+  formatAmount,
+  ledgerPath,
+  reportQuery,
+  type ReportPeriodSelection,
+  type TrialBalanceReport
+} from "@/lib/reports";
+
+export function TrialBalance() {
+  const [period, setPeriod] = useState<ReportPeriodSelection>({});
+  const [bankAccountId, setBankAccountId] = useState<number | undefined>();
+
+  const { data: report, isLoading, error } = useQuery<TrialBalanceReport>({
+    queryKey: [`/api/reports/trial-balance${reportQuery({ ...period, bankAccountId })}`],
+  });
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Trial Balance</h1>
+        <div className="flex items-center gap-4">
+          {report && (
+            <Badge variant={report.balanced ? "default" : "destructive"}>
+              {report.balanced ? "Balanced" : "Out of balance"}
+            </Badge>
+          )}
+          <ReportExportButtons report="trial-balance" params={{ ...period, bankAccountId }} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <ReportPeriodPicker value={period} onChange={setPeriod} />
+        <div className="space-y-1 w-72">
+          <Label>Bank account</Label>
+          <BankAccountSelect value={bankAccountId} onValueChange={setBankAccountId} />
+        </div>
+        {bankAccountId !== undefined && (
+          <Button variant="outline" onClick={() => setBankAccountId(undefined)}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {report && report.unallocatedCount > 0 && (
+        <Alert className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{report.unallocatedCount} transaction(s) are not yet allocated</AlertTitle>
+          <AlertDescription>
+            They are shown against unallocated transactions until they are explained on the{" "}
+            <a href="/analysis" className="underline">analysis page</a>.
+            <div className="mt-2">
+              <ReportExportButtons report="unallocated" params={{ ...period, bankAccountId }} />
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {report
+              ? `${report.period.name}: ${report.period.from} to ${report.period.to}`
+              : "Trial Balance"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading report...
+            </div>
+          ) : error ? (
+            <div className="text-sm text-destructive">{(error as Error).message}</div>
+          ) : !report || report.lines.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              No balances or transactions for this period
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Opening</TableHead>
+                  <TableHead className="text-right">Movement</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.lines.map((line) => (
+                  <TableRow
+                    key={line.accountId ?? line.code}
+                    className={line.hasChildren ? "font-semibold" : undefined}
+                  >
+                    <TableCell>{line.code}</TableCell>
+                    <TableCell style={{ paddingLeft: `${1 + line.depth * 1.5}rem` }}>
+                      <Link
+                        href={ledgerPath(line.accountId ?? line.code, period, bankAccountId)}
+                        className="hover:underline"
+                      >
+                        {line.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(line.opening)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(line.movement)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(line.debit)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(line.credit)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-bold border-t-2">
+                  <TableCell colSpan={2}>Total</TableCell>
+                  <TableCell className="text-right">{formatAmount(report.totals.opening)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(report.totals.movement)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(report.totals.debit)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(report.totals.credit)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
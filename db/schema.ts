@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, decimal, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, decimal, boolean, jsonb, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 
@@ -13,49 +13,203 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Client companies; everything below the master chart belongs to one. A
+// practice user owns a company per client and works in one at a time.
+export const companies = pgTable("companies", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Core tables
 export const masterAccounts = pgTable("master_accounts", {
   id: serial("id").primaryKey(),
   code: text("code").notNull().unique(),
   name: text("name").notNull(),
   type: text("type").notNull(), // asset, liability, equity, income, expense
-  parentId: integer("parent_id").references(() => masterAccounts.id),
+  parentId: integer("parent_id").references((): AnyPgColumn => masterAccounts.id),
   description: text("description"),
   active: boolean("active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// company_id columns are only null on rows from before companies existed,
+// until the owner's first company adopts them
 export const userAccounts = pgTable("user_accounts", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }),
   masterAccountId: integer("master_account_id").references(() => masterAccounts.id),
   code: text("code").notNull(),
   name: text("name").notNull(),
   type: text("type").notNull(), // asset, liability, equity, income, expense
-  parentId: integer("parent_id").references(() => userAccounts.id),
+  parentId: integer("parent_id").references((): AnyPgColumn => userAccounts.id),
   description: text("description"),
   active: boolean("active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Statutory and contact details printed on reports
+export const companyProfiles = pgTable("company_profiles", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull().unique(),
+  registeredName: text("registered_name").notNull(),
+  tradingName: text("trading_name"),
+  registrationNumber: text("registration_number"), // CIPC, e.g. 2015/123456/07
+  incomeTaxNumber: text("income_tax_number"), // SARS, 10 digits
+  vatNumber: text("vat_number"), // SARS, 10 digits starting with 4
+  physicalAddress: text("physical_address"),
+  postalAddress: text("postal_address"),
+  phone: text("phone"),
+  email: text("email"),
+  website: text("website"),
+  logo: text("logo"), // base64 image data
+  logoMimeType: text("logo_mime_type"), // image/png, image/jpeg
+  yearEndMonth: integer("year_end_month").notNull().default(2), // 1-12, February for most SA companies
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Saved column layouts for the statement exports of a particular bank
+export const importProfiles = pgTable("import_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  bankName: text("bank_name"), // FNB, ABSA, Standard Bank, Nedbank, Capitec, ...
+  headerSignature: text("header_signature").notNull(), // normalised header row used for auto-detection
+  columnMap: jsonb("column_map").notNull(),
+  dateFormat: text("date_format").notNull().default("auto"),
+  signConvention: text("sign_convention").notNull().default("standard"), // standard, inverted
+  skipRows: integer("skip_rows").notNull().default(0), // rows above the header row
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// The company's bank accounts and cards. Statement lines post to the linked
+// ledger account, an asset for bank accounts or a liability for credit cards.
+export const bankAccounts = pgTable("bank_accounts", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  bankName: text("bank_name").notNull(),
+  accountNumber: text("account_number").notNull(),
+  type: text("type").notNull(), // cheque, savings, credit-card, money-market
+  currency: text("currency").notNull().default("ZAR"), // ISO 4217
+  ledgerAccountId: integer("ledger_account_id").references(() => userAccounts.id).notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("bank_accounts_company_number_idx").on(table.companyId, table.accountNumber),
+]);
+
+// Uploaded files; every imported transaction links back to the batch it came from
+export const importBatches = pgTable("import_batches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(), // who uploaded it
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }),
+  bankAccountId: integer("bank_account_id").references(() => bankAccounts.id), // bank statements only
+  type: text("type").notNull(), // bank-statement, trial-balance
+  fileName: text("file_name").notNull(),
+  fileHash: text("file_hash").notNull(), // sha256 of the uploaded file
+  rowCount: integer("row_count").notNull().default(0),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  status: text("status").notNull().default("pending"), // pending, completed, failed
+  profileId: integer("profile_id").references(() => importProfiles.id, { onDelete: "set null" }),
+  columnMap: jsonb("column_map"), // confirmed mapping of file columns to statement or trial balance fields
+  options: jsonb("options"), // how to read the file; for trial balances also the financial year and account mapping
+  stagedData: jsonb("staged_data"), // parsed sheet held while the import is pending
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
+  // Always the import batch's company, kept on the row so ownership can be
+  // checked without the join
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }),
+  importBatchId: integer("import_batch_id").references(() => importBatches.id, { onDelete: "cascade" }),
   date: timestamp("date").notNull(),
   description: text("description").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reference: text("reference"),
+  fingerprint: text("fingerprint"), // hash of date, amount, description, reference and balance
   explanation: text("explanation"),
   accountId: integer("account_id").references(() => userAccounts.id),
   confidence: decimal("confidence", { precision: 3, scale: 2 }),
-  predictedBy: text("predicted_by"), // pattern, database, ai
+  predictedBy: text("predicted_by"), // pattern, database, ai, similarity, rule
+  reviewStatus: text("review_status"), // auto when applied by auto-categorisation, pending while queued for review, then reviewed
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// The parts of a transaction allocated to several accounts. They carry the
+// transaction's sign and add up to its amount; a split transaction has no
+// accountId of its own.
+export const transactionSplits = pgTable("transaction_splits", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  accountId: integer("account_id").references(() => userAccounts.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  explanation: text("explanation"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Account balances brought forward into a financial year, usually from an imported trial balance
+export const openingBalances = pgTable("opening_balances", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }),
+  importBatchId: integer("import_batch_id").references(() => importBatches.id, { onDelete: "cascade" }),
+  financialYear: integer("financial_year").notNull(), // calendar year in which the financial year ends
+  accountId: integer("account_id").references(() => userAccounts.id).notNull(),
+  debit: decimal("debit", { precision: 14, scale: 2 }).notNull().default("0"),
+  credit: decimal("credit", { precision: 14, scale: 2 }).notNull().default("0"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("opening_balances_company_year_account_idx").on(table.companyId, table.financialYear, table.accountId),
+]);
+
+// Double-entry journals. Each statement transaction posts one journal, the
+// bank against the account it is allocated to; manual journals record
+// accruals, depreciation and year-end adjustments. Debits always equal credits.
+export const journals = pgTable("journals", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id), // who entered a manual journal
+  transactionId: integer("transaction_id").references(() => transactions.id, { onDelete: "cascade" }), // statement journals only
+  source: text("source").notNull(), // transaction, manual
+  date: timestamp("date").notNull(),
+  description: text("description").notNull(),
+  reference: text("reference"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("journals_transaction_idx").on(table.transactionId),
+]);
+
+// One debit or credit. A statement journal leaves the account empty until it
+// is known: the bank side of a statement with no bank account, or the other
+// side of a transaction that has not been explained yet.
+export const journalLines = pgTable("journal_lines", {
+  id: serial("id").primaryKey(),
+  journalId: integer("journal_id").references(() => journals.id, { onDelete: "cascade" }).notNull(),
+  accountId: integer("account_id").references(() => userAccounts.id),
+  bankLine: boolean("bank_line").notNull().default(false), // the bank side of a statement journal
+  description: text("description"),
+  debit: decimal("debit", { precision: 14, scale: 2 }).notNull().default("0"),
+  credit: decimal("credit", { precision: 14, scale: 2 }).notNull().default("0"),
 });
 
 // Pattern matching and prediction tables
 export const patterns = pgTable("patterns", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }),
   pattern: text("pattern").notNull(),
   type: text("type").notNull(), // exact, fuzzy, keyword
   explanation: text("explanation"),
@@ -66,15 +220,51 @@ export const patterns = pgTable("patterns", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A company's own categorisation rules. Every condition must hold for the
+// rule to match; the enabled rule with the lowest priority that matches wins.
+export const rules = pgTable("rules", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  conditions: jsonb("conditions").notNull(), // description, amount, direction, day of month and bank account tests
+  action: jsonb("action").notNull(), // explanation with one account, or percentage splits across several
+  priority: integer("priority").notNull().default(100), // lower runs first
+  confidence: decimal("confidence", { precision: 3, scale: 2 }).notNull().default("1.00"), // lowered when its predictions are rejected in review
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Rules proposed from descriptions the user keeps allocating to the same
+// account. A rejected suggestion is kept so it is not proposed again.
+export const ruleSuggestions = pgTable("rule_suggestions", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  keyword: text("keyword").notNull(), // lower case start of the descriptions, up to their first number
+  accountId: integer("account_id").references(() => userAccounts.id, { onDelete: "cascade" }).notNull(),
+  explanation: text("explanation").notNull(), // the explanation used most often
+  occurrences: integer("occurrences").notNull().default(0), // allocations seen so far
+  status: text("status").notNull().default("pending"), // pending, accepted, rejected
+  ruleId: integer("rule_id").references(() => rules.id, { onDelete: "set null" }), // the rule an accepted suggestion became
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("rule_suggestions_company_keyword_account_idx").on(table.companyId, table.keyword, table.accountId),
+]);
+
 export const historicalMatches = pgTable("historical_matches", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }),
   transactionDescription: text("transaction_description").notNull(),
   explanation: text("explanation").notNull(),
   accountId: integer("account_id").references(() => userAccounts.id).notNull(),
   frequency: integer("frequency").default(1),
   lastUsed: timestamp("last_used").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("historical_matches_company_description_account_idx")
+    .on(table.companyId, table.transactionDescription, table.accountId),
+]);
 
 // Settings table
 export const settings = pgTable("settings", {
@@ -111,6 +301,24 @@ export const userTutorialProgress = pgTable("user_tutorial_progress", {
 });
 
 // Relations
+export const companiesRelations = relations(companies, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [companies.ownerId],
+    references: [users.id],
+  }),
+  profile: one(companyProfiles),
+  accounts: many(userAccounts),
+  bankAccounts: many(bankAccounts),
+  importBatches: many(importBatches),
+  openingBalances: many(openingBalances),
+  transactions: many(transactions),
+  journals: many(journals),
+  patterns: many(patterns),
+  rules: many(rules),
+  ruleSuggestions: many(ruleSuggestions),
+  historicalMatches: many(historicalMatches),
+}));
+
 export const masterAccountsRelations = relations(masterAccounts, ({ one, many }) => ({
   parent: one(masterAccounts, {
     fields: [masterAccounts.parentId],
@@ -125,6 +333,10 @@ export const userAccountsRelations = relations(userAccounts, ({ one, many }) =>
     fields: [userAccounts.userId],
     references: [users.id],
   }),
+  company: one(companies, {
+    fields: [userAccounts.companyId],
+    references: [companies.id],
+  }),
   masterAccount: one(masterAccounts, {
     fields: [userAccounts.masterAccountId],
     references: [masterAccounts.id],
@@ -138,43 +350,238 @@ export const userAccountsRelations = relations(userAccounts, ({ one, many }) =>
   patterns: many(patterns),
 }));
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
+export const companyProfilesRelations = relations(companyProfiles, ({ one }) => ({
+  company: one(companies, {
+    fields: [companyProfiles.companyId],
+    references: [companies.id],
+  }),
+}));
+
+export const importProfilesRelations = relations(importProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [importProfiles.userId],
+    references: [users.id],
+  }),
+}));
+
+export const bankAccountsRelations = relations(bankAccounts, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [bankAccounts.companyId],
+    references: [companies.id],
+  }),
+  ledgerAccount: one(userAccounts, {
+    fields: [bankAccounts.ledgerAccountId],
+    references: [userAccounts.id],
+  }),
+  importBatches: many(importBatches),
+}));
+
+export const importBatchesRelations = relations(importBatches, ({ one, many }) => ({
+  user: one(users, {
+    fields: [importBatches.userId],
+    references: [users.id],
+  }),
+  company: one(companies, {
+    fields: [importBatches.companyId],
+    references: [companies.id],
+  }),
+  bankAccount: one(bankAccounts, {
+    fields: [importBatches.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  profile: one(importProfiles, {
+    fields: [importBatches.profileId],
+    references: [importProfiles.id],
+  }),
+  transactions: many(transactions),
+  openingBalances: many(openingBalances),
+}));
+
+export const transactionsRelations = relations(transactions, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [transactions.companyId],
+    references: [companies.id],
+  }),
+  journal: one(journals),
+  splits: many(transactionSplits),
   account: one(userAccounts, {
     fields: [transactions.accountId],
     references: [userAccounts.id],
   }),
+  importBatch: one(importBatches, {
+    fields: [transactions.importBatchId],
+    references: [importBatches.id],
+  }),
+}));
+
+export const transactionSplitsRelations = relations(transactionSplits, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionSplits.transactionId],
+    references: [transactions.id],
+  }),
+  account: one(userAccounts, {
+    fields: [transactionSplits.accountId],
+    references: [userAccounts.id],
+  }),
+}));
+
+export const openingBalancesRelations = relations(openingBalances, ({ one }) => ({
+  user: one(users, {
+    fields: [openingBalances.userId],
+    references: [users.id],
+  }),
+  company: one(companies, {
+    fields: [openingBalances.companyId],
+    references: [companies.id],
+  }),
+  importBatch: one(importBatches, {
+    fields: [openingBalances.importBatchId],
+    references: [importBatches.id],
+  }),
+  account: one(userAccounts, {
+    fields: [openingBalances.accountId],
+    references: [userAccounts.id],
+  }),
+}));
+
+export const journalsRelations = relations(journals, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [journals.companyId],
+    references: [companies.id],
+  }),
+  user: one(users, {
+    fields: [journals.userId],
+    references: [users.id],
+  }),
+  transaction: one(transactions, {
+    fields: [journals.transactionId],
+    references: [transactions.id],
+  }),
+  lines: many(journalLines),
+}));
+
+export const journalLinesRelations = relations(journalLines, ({ one }) => ({
+  journal: one(journals, {
+    fields: [journalLines.journalId],
+    references: [journals.id],
+  }),
+  account: one(userAccounts, {
+    fields: [journalLines.accountId],
+    references: [userAccounts.id],
+  }),
 }));
 
 export const patternsRelations = relations(patterns, ({ one }) => ({
+  company: one(companies, {
+    fields: [patterns.companyId],
+    references: [companies.id],
+  }),
   account: one(userAccounts, {
     fields: [patterns.accountId],
     references: [userAccounts.id],
   }),
 }));
 
+export const rulesRelations = relations(rules, ({ one }) => ({
+  company: one(companies, {
+    fields: [rules.companyId],
+    references: [companies.id],
+  }),
+}));
+
+export const ruleSuggestionsRelations = relations(ruleSuggestions, ({ one }) => ({
+  company: one(companies, {
+    fields: [ruleSuggestions.companyId],
+    references: [companies.id],
+  }),
+  account: one(userAccounts, {
+    fields: [ruleSuggestions.accountId],
+    references: [userAccounts.id],
+  }),
+  rule: one(rules, {
+    fields: [ruleSuggestions.ruleId],
+    references: [rules.id],
+  }),
+}));
+
+export const historicalMatchesRelations = relations(historicalMatches, ({ one }) => ({
+  company: one(companies, {
+    fields: [historicalMatches.companyId],
+    references: [companies.id],
+  }),
+  account: one(userAccounts, {
+    fields: [historicalMatches.accountId],
+    references: [userAccounts.id],
+  }),
+}));
+
 // Schemas
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = Omit<typeof users.$inferInsert, 'id' | 'createdAt' | 'updatedAt'>;
 export type SelectUser = Omit<User, 'password' | 'createdAt' | 'updatedAt'>;
 
+export type Company = typeof companies.$inferSelect;
+export type InsertCompany = typeof companies.$inferInsert;
 export type MasterAccount = typeof masterAccounts.$inferSelect;
 export type InsertMasterAccount = typeof masterAccounts.$inferInsert;
 export type UserAccount = typeof userAccounts.$inferSelect;
 export type InsertUserAccount = typeof userAccounts.$inferInsert;
+export type CompanyProfile = typeof companyProfiles.$inferSelect;
+export type InsertCompanyProfile = typeof companyProfiles.$inferInsert;
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type InsertImportProfile = typeof importProfiles.$inferInsert;
+export type BankAccount = typeof bankAccounts.$inferSelect;
+export type InsertBankAccount = typeof bankAccounts.$inferInsert;
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type InsertImportBatch = typeof importBatches.$inferInsert;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = typeof transactions.$inferInsert;
+export type TransactionSplit = typeof transactionSplits.$inferSelect;
+export type InsertTransactionSplit = typeof transactionSplits.$inferInsert;
+export type OpeningBalance = typeof openingBalances.$inferSelect;
+export type InsertOpeningBalance = typeof openingBalances.$inferInsert;
+export type Journal = typeof journals.$inferSelect;
+export type InsertJournal = typeof journals.$inferInsert;
+export type JournalLine = typeof journalLines.$inferSelect;
+export type InsertJournalLine = typeof journalLines.$inferInsert;
 export type Pattern = typeof patterns.$inferSelect;
 export type InsertPattern = typeof patterns.$inferInsert;
+export type Rule = typeof rules.$inferSelect;
+export type InsertRule = typeof rules.$inferInsert;
+export type RuleSuggestion = typeof ruleSuggestions.$inferSelect;
+export type InsertRuleSuggestion = typeof ruleSuggestions.$inferInsert;
 
 // Schemas
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
+export const insertCompanySchema = createInsertSchema(companies);
+export const selectCompanySchema = createSelectSchema(companies);
 export const insertMasterAccountSchema = createInsertSchema(masterAccounts);
 export const selectMasterAccountSchema = createSelectSchema(masterAccounts);
 export const insertUserAccountSchema = createInsertSchema(userAccounts);
 export const selectUserAccountSchema = createSelectSchema(userAccounts);
+export const insertCompanyProfileSchema = createInsertSchema(companyProfiles);
+export const selectCompanyProfileSchema = createSelectSchema(companyProfiles);
+export const insertImportProfileSchema = createInsertSchema(importProfiles);
+export const selectImportProfileSchema = createSelectSchema(importProfiles);
+export const insertBankAccountSchema = createInsertSchema(bankAccounts);
+export const selectBankAccountSchema = createSelectSchema(bankAccounts);
+export const insertImportBatchSchema = createInsertSchema(importBatches);
+export const selectImportBatchSchema = createSelectSchema(importBatches);
 export const insertTransactionSchema = createInsertSchema(transactions);
 export const selectTransactionSchema = createSelectSchema(transactions);
+export const insertTransactionSplitSchema = createInsertSchema(transactionSplits);
+export const selectTransactionSplitSchema = createSelectSchema(transactionSplits);
+export const insertOpeningBalanceSchema = createInsertSchema(openingBalances);
+export const selectOpeningBalanceSchema = createSelectSchema(openingBalances);
+export const insertJournalSchema = createInsertSchema(journals);
+export const selectJournalSchema = createSelectSchema(journals);
+export const insertJournalLineSchema = createInsertSchema(journalLines);
+export const selectJournalLineSchema = createSelectSchema(journalLines);
 export const insertPatternSchema = createInsertSchema(patterns);
 export const selectPatternSchema = createSelectSchema(patterns);
+export const insertRuleSchema = createInsertSchema(rules);
+export const selectRuleSchema = createSelectSchema(rules);
+export const insertRuleSuggestionSchema = createInsertSchema(ruleSuggestions);
+export const selectRuleSuggestionSchema = createSelectSchema(ruleSuggestions);
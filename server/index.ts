@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { config } from "./config";
+import { postMissingTransactionJournals } from "./services/journals";
 import helmet from "helmet";
 
 const app = express();
@@ -63,6 +64,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  const posted = await postMissingTransactionJournals();
+  if (posted > 0) {
+    log(`posted journals for ${posted} transactions imported before journals existed`);
+  }
+
   const server = registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from "express";
+import { resolveActiveCompany, type Company } from "../services/companies";
+
+declare global {
+  namespace Express {
+    interface Request {
+      company?: Company;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    companyId: number;
+  }
+}
+
+// Authenticates and loads the company the user is working in. The choice is
+// kept in the session; a user without a company gets one on first use.
+export async function requireCompany(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const company = await resolveActiveCompany(req.user!.id, req.session.companyId);
+    req.session.companyId = company.id;
+    req.company = company;
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+}
@@ -0,0 +1,401 @@
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import bcryptjs from "bcryptjs";
+import fs from "fs";
+import { eq, sql } from "drizzle-orm";
+import { db } from "@db";
+import {
+  users,
+  companies,
+  masterAccounts,
+  userAccounts,
+  bankAccounts,
+  importBatches,
+  transactions,
+  rules,
+  ruleSuggestions,
+  journals,
+  journalLines
+} from "@db/schema";
+import { registerRoutes } from "./routes";
+import { postTransactionJournals } from "./services/journals";
+
+// Routes run against an in-memory Postgres with the schema pushed from db/schema.ts
+vi.mock("@db", async () => ({ db: await (await import("./testing/db")).createTestDb() }));
+
+const PASSWORD = "password";
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  registerRoutes(app);
+  return app;
+}
+
+async function signIn(app: express.Express, email: string) {
+  await db.insert(users).values({ email, password: await bcryptjs.hash(PASSWORD, 4) });
+  const agent = request.agent(app);
+  await agent.post("/api/login").send({ email, password: PASSWORD }).expect(200);
+  const { body: company } = await agent.get("/api/companies/active").expect(200);
+  return { agent, companyId: company.id as number };
+}
+
+describe("another company's records", () => {
+  let owner: request.Agent;
+  let other: request.Agent;
+  const ids = { account: 0, batch: 0, transaction: 0, rule: 0, journal: 0 };
+
+  beforeAll(async () => {
+    const app = createApp();
+
+    const signedIn = await signIn(app, "owner@example.com");
+    owner = signedIn.agent;
+    other = (await signIn(app, "other@example.com")).agent;
+
+    const companyId = signedIn.companyId;
+    const [{ ownerId: userId }] = await db.select({ ownerId: companies.ownerId })
+      .from(companies)
+      .where(eq(companies.id, companyId));
+
+    const [bank, expense] = await db.insert(userAccounts)
+      .values([
+        { userId, companyId, code: "1000", name: "Bank", type: "asset" },
+        { userId, companyId, code: "6000", name: "Rent", type: "expense" },
+      ])
+      .returning();
+    const [batch] = await db.insert(importBatches)
+      .values({ companyId, userId, type: "bank-statement", fileName: "statement.csv", fileHash: "hash", status: "completed" })
+      .returning();
+    const [transaction] = await db.insert(transactions)
+      .values({ companyId, importBatchId: batch.id, date: new Date("2025-03-01"), description: "RENT MARCH", amount: "-1500.00" })
+      .returning();
+    const [rule] = await db.insert(rules)
+      .values({
+        companyId,
+        name: "Rent",
+        conditions: [{ field: "description", operator: "startsWith", value: "rent" }],
+        action: { explanation: "Rent", accountId: expense.id },
+      })
+      .returning();
+    const [journal] = await db.insert(journals)
+      .values({ companyId, source: "manual", date: new Date("2025-03-31"), description: "Accrued rent" })
+      .returning();
+    await db.insert(journalLines).values([
+      { journalId: journal.id, accountId: expense.id, debit: "1500.00" },
+      { journalId: journal.id, accountId: bank.id, credit: "1500.00" },
+    ]);
+
+    Object.assign(ids, { account: expense.id, batch: batch.id, transaction: transaction.id, rule: rule.id, journal: journal.id });
+  });
+
+  const journalBody = () => ({
+    date: "2025-03-31",
+    description: "Accrued rent",
+    lines: [
+      { accountId: ids.account, debit: 1 },
+      { accountId: ids.account, credit: 1 },
+    ],
+  });
+
+  const attempts: Array<[string, (agent: request.Agent) => request.Test]> = [
+    ["PATCH an account", (agent) => agent.patch(`/api/accounts/${ids.account}`).send({ name: "Taken" })],
+    ["DELETE an account", (agent) => agent.delete(`/api/accounts/${ids.account}`)],
+    ["GET an import batch", (agent) => agent.get(`/api/import-batches/${ids.batch}`)],
+    ["GET an import session", (agent) => agent.get(`/api/import-batches/${ids.batch}/session`)],
+    ["PATCH an import batch", (agent) => agent.patch(`/api/import-batches/${ids.batch}`).send({})],
+    ["DELETE an import batch", (agent) => agent.delete(`/api/import-batches/${ids.batch}`)],
+    ["PATCH a transaction", (agent) => agent.patch(`/api/transactions/${ids.transaction}`).send({ explanation: "Taken" })],
+    ["GET similar transactions", (agent) => agent.get(`/api/transactions/${ids.transaction}/similar`)],
+    ["PUT a transaction's splits", (agent) => agent.put(`/api/transactions/${ids.transaction}/splits`).send({
+      splits: [{ accountId: ids.account, amount: -1000 }, { accountId: ids.account, amount: -500 }],
+    })],
+    ["DELETE a transaction's splits", (agent) => agent.delete(`/api/transactions/${ids.transaction}/splits`)],
+    ["PATCH a rule", (agent) => agent.patch(`/api/rules/${ids.rule}`).send({ name: "Taken" })],
+    ["DELETE a rule", (agent) => agent.delete(`/api/rules/${ids.rule}`)],
+    ["GET a journal", (agent) => agent.get(`/api/journals/${ids.journal}`)],
+    ["PUT a journal", (agent) => agent.put(`/api/journals/${ids.journal}`).send(journalBody())],
+    ["DELETE a journal", (agent) => agent.delete(`/api/journals/${ids.journal}`)],
+  ];
+
+  it.each(attempts)("are not found when another company tries to %s", async (_name, attempt) => {
+    const response = await attempt(other);
+    expect(response.status).toBe(404);
+  });
+
+  it("are left as they were", async () => {
+    const account = await db.query.userAccounts.findFirst({ where: eq(userAccounts.id, ids.account) });
+    expect(account).toMatchObject({ name: "Rent", active: true });
+    const transaction = await db.query.transactions.findFirst({ where: eq(transactions.id, ids.transaction) });
+    expect(transaction?.explanation).toBeNull();
+    const rule = await db.query.rules.findFirst({ where: eq(rules.id, ids.rule) });
+    expect(rule?.name).toBe("Rent");
+
+    await owner.get(`/api/import-batches/${ids.batch}`).expect(200);
+    const { body: journal } = await owner.get(`/api/journals/${ids.journal}`).expect(200);
+    expect(journal.description).toBe("Accrued rent");
+  });
+
+  it("cannot become the parent of an account in another company's chart", async () => {
+    const { body: own } = await other.post("/api/accounts").send({ code: "6100", name: "Office rent", type: "expense" }).expect(200);
+    const response = await other.patch(`/api/accounts/${own.id}`).send({ parentId: ids.account });
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Parent account not found");
+  });
+});
+
+describe("account updates", () => {
+  let agent: request.Agent;
+  const ids = { parent: 0, child: 0 };
+
+  beforeAll(async () => {
+    const app = createApp();
+    agent = (await signIn(app, "accounts@example.com")).agent;
+
+    const { body: parent } = await agent.post("/api/accounts").send({ code: "7000", name: "Overheads", type: "expense" }).expect(200);
+    const { body: child } = await agent.post("/api/accounts")
+      .send({ code: "7100", name: "Telephone", type: "expense", parentId: parent.id })
+      .expect(200);
+    Object.assign(ids, { parent: parent.id, child: child.id });
+  });
+
+  it.each([
+    ["an unknown type", () => ({ type: "revenue" })],
+    ["a blank name", () => ({ name: " " })],
+    ["a company", () => ({ companyId: 1 })],
+    ["itself as parent", () => ({ parentId: ids.parent })],
+    ["its own sub-account as parent", () => ({ parentId: ids.child })],
+  ])("refuse %s", async (_name, body) => {
+    const response = await agent.patch(`/api/accounts/${ids.parent}`).send(body());
+    expect(response.status).toBe(400);
+  });
+
+  it("move an account and change its details", async () => {
+    const { body: account } = await agent.patch(`/api/accounts/${ids.child}`)
+      .send({ name: "Telephone and internet", parentId: null })
+      .expect(200);
+    expect(account).toMatchObject({ name: "Telephone and internet", parentId: null, type: "expense" });
+  });
+});
+
+describe("a new company", () => {
+  it("starts with its own copy of the master chart", async () => {
+    const app = createApp();
+    const { agent } = await signIn(app, "founder@example.com");
+
+    const [assets] = await db.insert(masterAccounts).values({ code: "M1000", name: "Assets", type: "asset" }).returning();
+    await db.insert(masterAccounts).values({ code: "M1100", name: "Cash", type: "asset", parentId: assets.id });
+
+    const { body: company } = await agent.post("/api/companies").send({ name: "Second Co" }).expect(200);
+    const chart = await db.query.userAccounts.findMany({ where: eq(userAccounts.companyId, company.id) });
+    const copied = new Map(chart.map((account) => [account.code, account]));
+    expect(copied.get("M1100")?.parentId).toBe(copied.get("M1000")?.id);
+  });
+});
+
+describe("the single-step statement import", () => {
+  it.each(["", "abc", "1.5", "-2"])("refuses the bank account id %j and removes the upload", async (bankAccountId) => {
+    const app = createApp();
+    const { agent } = await signIn(app, `importer${bankAccountId || "blank"}@example.com`);
+
+    const fileName = `legacy-import-${process.pid}.csv`;
+    const response = await agent.post("/api/import/bank-statement")
+      .field("bankAccountId", bankAccountId)
+      .attach("file", Buffer.from("Date,Description,Amount\n2025-03-01,RENT,-1500.00\n"), fileName);
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Choose the bank account this statement belongs to");
+    expect(fs.existsSync(`/tmp/${fileName}`)).toBe(false);
+  });
+});
+
+describe("reading the books", () => {
+  let agent: request.Agent;
+  let companyId: number;
+  const ids = { account: 0, transactions: [] as number[] };
+
+  beforeAll(async () => {
+    const signedIn = await signIn(createApp(), "reader@example.com");
+    agent = signedIn.agent;
+    companyId = signedIn.companyId;
+
+    const [{ ownerId: userId }] = await db.select({ ownerId: companies.ownerId })
+      .from(companies)
+      .where(eq(companies.id, companyId));
+    const [account] = await db.insert(userAccounts)
+      .values({ userId, companyId, code: "6200", name: "Subscriptions", type: "expense" })
+      .returning();
+    // Imported before journals existed, so none was posted
+    const inserted = await db.insert(transactions)
+      .values(["01", "02", "03"].map((month) => ({
+        companyId,
+        date: new Date(`2025-${month}-15`),
+        description: `STREAMING SERVICE ${month}/2025`,
+        amount: "-199.00",
+      })))
+      .returning();
+    Object.assign(ids, { account: account.id, transactions: inserted.map(({ id }) => id) });
+  });
+
+  const journalCount = async () => {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(journals)
+      .where(eq(journals.companyId, companyId));
+    return count;
+  };
+
+  it("writes nothing when reports and rule suggestions are read", async () => {
+    await agent.get("/api/reports/trial-balance?financialYear=2025").expect(200);
+    await agent.get("/api/reports/balance-sheet?financialYear=2025").expect(200);
+    const { body: suggestions } = await agent.get("/api/rule-suggestions").expect(200);
+
+    expect(suggestions).toEqual([]);
+    expect(await journalCount()).toBe(0);
+    expect(await db.query.ruleSuggestions.findMany({ where: eq(ruleSuggestions.companyId, companyId) })).toEqual([]);
+  });
+
+  it("proposes a rule once the same allocation has been made often enough", async () => {
+    for (const id of ids.transactions) {
+      await agent.patch(`/api/transactions/${id}`).send({ explanation: "Streaming", accountId: ids.account }).expect(200);
+    }
+
+    const { body: suggestions } = await agent.get("/api/rule-suggestions").expect(200);
+    expect(suggestions).toMatchObject([{ keyword: "streaming service", accountId: ids.account, occurrences: 3 }]);
+    expect(await journalCount()).toBe(3);
+  });
+});
+
+describe("each company's lists and totals", () => {
+  // Every name, description and amount of a company carries its own marker, so
+  // a leak shows up in any response that mentions the other company
+  const books = {
+    alpha: { marker: "ALPHA", fees: 123.45, deposit: 67.89 },
+    bravo: { marker: "BRAVO", fees: 7777, deposit: 3333 },
+  };
+  type Books = {
+    agent: request.Agent;
+    accounts: { bank: number; fees: number };
+    transactions: { allocated: number; unallocated: number };
+  };
+  const seeded: Record<string, Books> = {};
+
+  async function seedBooks(app: express.Express, name: keyof typeof books) {
+    const { marker, fees, deposit } = books[name];
+    const { agent, companyId } = await signIn(app, `${name}@example.com`);
+    const [{ ownerId: userId }] = await db.select({ ownerId: companies.ownerId })
+      .from(companies)
+      .where(eq(companies.id, companyId));
+
+    const [bank, expense] = await db.insert(userAccounts)
+      .values([
+        { userId, companyId, code: "1100", name: `${marker} Bank`, type: "asset" },
+        { userId, companyId, code: "6100", name: `${marker} Fees`, type: "expense" },
+      ])
+      .returning();
+    const [bankAccount] = await db.insert(bankAccounts)
+      .values({ companyId, name: `${marker} Cheque`, bankName: "Bank", accountNumber: marker, type: "cheque", ledgerAccountId: bank.id })
+      .returning();
+    const [batch] = await db.insert(importBatches)
+      .values({ companyId, userId, type: "bank-statement", fileName: `${name}.csv`, fileHash: name, status: "completed", bankAccountId: bankAccount.id })
+      .returning();
+    const rows = await db.insert(transactions)
+      .values([
+        {
+          companyId,
+          importBatchId: batch.id,
+          date: new Date("2025-03-10"),
+          description: `${marker} FEES`,
+          amount: (-fees).toFixed(2),
+          explanation: "Bank fees",
+          accountId: expense.id,
+          reviewStatus: "reviewed",
+        },
+        { companyId, importBatchId: batch.id, date: new Date("2025-03-20"), description: `${marker} DEPOSIT`, amount: deposit.toFixed(2) },
+      ])
+      .returning();
+    await db.transaction((tx) => postTransactionJournals(tx, rows));
+
+    seeded[name] = {
+      agent,
+      accounts: { bank: bank.id, fees: expense.id },
+      transactions: { allocated: rows[0].id, unallocated: rows[1].id },
+    };
+  }
+
+  beforeAll(async () => {
+    const app = createApp();
+    await seedBooks(app, "alpha");
+    await seedBooks(app, "bravo");
+  });
+
+  const period = "from=2025-01-01&to=2025-12-31";
+  const views = [["alpha", "bravo"], ["bravo", "alpha"]] as const;
+
+  const mentionsOf = (name: keyof typeof books) => {
+    const { marker, fees, deposit } = books[name];
+    return [marker, String(fees), String(deposit)];
+  };
+  const expectNoMentionOf = (body: unknown, name: keyof typeof books) => {
+    const text = JSON.stringify(body);
+    for (const mention of mentionsOf(name)) {
+      expect(text).not.toContain(mention);
+    }
+  };
+
+  it.each(views)("%s lists only its own transactions", async (own, other) => {
+    const { body } = await seeded[own].agent.get("/api/transactions").expect(200);
+    expect(body.map(({ id }: { id: number }) => id).sort()).toEqual(
+      [seeded[own].transactions.allocated, seeded[own].transactions.unallocated].sort()
+    );
+    expectNoMentionOf(body, other);
+  });
+
+  it.each(views)("%s cannot ask for predictions on another company's transaction", async (own, other) => {
+    await seeded[own].agent.get(`/api/predictions?transactionId=${seeded[other].transactions.unallocated}`).expect(404);
+    await seeded[own].agent.get(`/api/predictions?transactionId=${seeded[own].transactions.unallocated}`).expect(200);
+  });
+
+  it.each(views)("%s counts only its own transactions in its stats", async (own, other) => {
+    const { body } = await seeded[own].agent.get("/api/stats").expect(200);
+    expect(body).toMatchObject({ totalTransactions: 2, analyzedTransactions: 1 });
+    expectNoMentionOf(body, other);
+  });
+
+  it.each(views)("%s reports only its own books", async (own, other) => {
+    const { fees, deposit } = books[own];
+    const { agent, accounts } = seeded[own];
+
+    const { body: trialBalance } = await agent.get(`/api/reports/trial-balance?${period}`).expect(200);
+    expect(trialBalance).toMatchObject({ balanced: true, unallocatedCount: 1 });
+    const closing = (accountId: number) =>
+      trialBalance.lines.find((line: { accountId: number | null }) => line.accountId === accountId)?.closing;
+    expect(closing(accounts.fees)).toBe(fees);
+    expect(closing(accounts.bank)).toBeCloseTo(deposit - fees, 2);
+    expectNoMentionOf(trialBalance, other);
+
+    const { body: incomeStatement } = await agent.get(`/api/reports/income-statement?${period}`).expect(200);
+    expect(incomeStatement).toMatchObject({ netProfit: -fees, unallocatedCount: 1 });
+    expectNoMentionOf(incomeStatement, other);
+
+    const { body: balanceSheet } = await agent.get(`/api/reports/balance-sheet?${period}`).expect(200);
+    expect(balanceSheet.balanced).toBe(true);
+    expect(balanceSheet.totals.assets).toBeCloseTo(deposit - fees, 2);
+    expectNoMentionOf(balanceSheet, other);
+
+    const { body: ledger } = await agent.get(`/api/reports/general-ledger?${period}&account=${accounts.fees}`).expect(200);
+    expect(ledger).toMatchObject({ closingBalance: fees, totals: { debit: fees, credit: 0 } });
+    expect(ledger.entries).toHaveLength(1);
+    expectNoMentionOf(ledger, other);
+
+    const { body: unallocated } = await agent.get(`/api/reports/unallocated?${period}`).expect(200);
+    expect(unallocated.transactions.map(({ transactionId }: { transactionId: number }) => transactionId))
+      .toEqual([seeded[own].transactions.unallocated]);
+    expect(unallocated.totals).toEqual({ moneyIn: deposit, moneyOut: 0 });
+    expectNoMentionOf(unallocated, other);
+  });
+
+  it.each(views)("%s cannot open another company's account in the general ledger", async (own, other) => {
+    const response = await seeded[own].agent.get(`/api/reports/general-ledger?${period}&account=${seeded[other].accounts.fees}`);
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Account not found in your chart of accounts");
+  });
+});
@@ -1,20 +1,54 @@
-import express, { type Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { db } from "@db";
-import { eq, desc, and, or, like, sql } from "drizzle-orm";
+import { eq, desc, and, or, like, sql, gte, exists, inArray, isNotNull } from "drizzle-orm";
 import { ImportValidationError } from "./services/imports";
 import {
   transactions,
+  transactionSplits,
   patterns,
-  historicalMatches,
   settings,
   users,
+  insertImportProfileSchema,
+  insertCompanyProfileSchema,
+  insertCompanySchema,
+  insertTransactionSchema,
+  insertBankAccountSchema,
+  insertUserAccountSchema,
+  insertJournalSchema,
+  insertRuleSchema,
+  importBatches,
+  userAccounts,
 } from "@db/schema";
-import { importBankStatement, importTrialBalance, importChartOfAccounts } from "./services/imports";
+import { importBankStatement, importChartOfAccounts, dateFormats } from "./services/imports";
 import multer from "multer";
-import { parse as parseCsv } from "csv-parse/sync";
+import { z } from "zod";
 import { generatePredictions } from "./services/predictions";
+import {
+  listImportProfiles,
+  createImportProfile,
+  updateImportProfile,
+  deleteImportProfile
+} from "./services/importProfiles";
+import {
+  createBankStatementBatch,
+  createImportSession,
+  getImportSession,
+  updateImportSession,
+  commitImportSession,
+  listImportBatches,
+  getImportBatch,
+  deleteImportBatch
+} from "./services/batches";
+import {
+  createTrialBalanceImport,
+  getTrialBalanceImport,
+  updateTrialBalanceImport,
+  commitTrialBalanceImport,
+  listOpeningBalances,
+  listOpeningBalanceYears
+} from "./services/openingBalances";
 import { 
   getMasterAccountHierarchy,
   createMasterAccount,
@@ -22,13 +56,148 @@ import {
   createUserAccount,
   updateUserAccount,
   deleteUserAccount,
-  copyMasterAccountsToUser
+  accountTypes,
+  AccountError
 } from "./services/accounts";
+import {
+  getTrialBalance,
+  getIncomeStatement,
+  getBalanceSheet,
+  getGeneralLedger,
+  getUnallocatedTransactions,
+  ReportError,
+  type ReportOptions
+} from "./services/reports";
+import { exportReport } from "./services/exports";
+import {
+  getFinancialYearSettings,
+  getYearEndMonth,
+  financialYearOf,
+  financialYearPeriod,
+  financialYearMonths,
+  financialYearName
+} from "./services/financialYears";
+import {
+  getCompanyProfile,
+  saveCompanyProfile,
+  deleteCompanyProfile,
+  getCompanyLogo,
+  setCompanyLogo,
+  removeCompanyLogo,
+  isValidRegistrationNumber,
+  isValidIncomeTaxNumber,
+  isValidVatNumber,
+  CompanyProfileError
+} from "./services/companyProfiles";
+import {
+  listBankAccounts,
+  createBankAccount,
+  updateBankAccount,
+  deleteBankAccount,
+  bankAccountTypes,
+  BankAccountError
+} from "./services/bankAccounts";
+import {
+  listJournals,
+  getJournal,
+  createJournal,
+  updateJournal,
+  deleteJournal,
+  JournalError
+} from "./services/journals";
+import {
+  getTransactionWithSplits,
+  updateTransaction,
+  splitTransaction,
+  clearTransactionSplits,
+  findSimilarTransactions,
+  applyExplanation,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  TransactionError
+} from "./services/transactions";
+import {
+  listRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  getRule,
+  applyRule,
+  RuleError
+} from "./services/rules";
+import {
+  categoriseImportBatch,
+  DEFAULT_AUTO_CATEGORISE_THRESHOLD,
+  CategorisationError
+} from "./services/categorisation";
+import {
+  listReviewQueue,
+  reviewTransaction,
+  DEFAULT_REVIEW_THRESHOLD,
+  ReviewError
+} from "./services/review";
+import {
+  listRuleSuggestions,
+  refreshRuleSuggestions,
+  acceptRuleSuggestion,
+  rejectRuleSuggestion,
+  RuleSuggestionError
+} from "./services/ruleSuggestions";
+import {
+  listCompanies,
+  createCompany,
+  updateCompany,
+  getCompany,
+  type CompanyScope
+} from "./services/companies";
 import { requireAuth, requireAdmin, protectChartOfAccounts } from "./middleware/auth";
+import { requireCompany } from "./middleware/company";
 import fs from "fs";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Map import validation failures to HTTP responses; anything else is a server error
+function sendImportError(res: Response, error: unknown, fallbackMessage: string) {
+  console.error("Import error:", error);
+
+  if (error instanceof ImportValidationError) {
+    const status = {
+      'INVALID_FILE_TYPE': 400,
+      'EMPTY_WORKBOOK': 400,
+      'MISSING_REQUIRED_COLUMNS': 400,
+      'INVALID_DATA_FORMAT': 422,
+      'BALANCE_MISMATCH': 422,
+      'UNBALANCED_TRIAL_BALANCE': 422,
+      'UNMAPPED_ACCOUNTS': 422,
+      'INVALID_ACCOUNT_MAPPING': 400,
+      'DUPLICATE_ACCOUNT_CODE': 409,
+      'PROFILE_NOT_FOUND': 404,
+      'BANK_ACCOUNT_NOT_FOUND': 404,
+      'BANK_ACCOUNT_REQUIRED': 400
+    }[error.code] || 500;
+
+    return res.status(status).json({
+      code: error.code,
+      message: error.message,
+      details: error.details
+    });
+  }
+
+  // For all other errors, return a generic message in production
+  const isProduction = process.env.NODE_ENV === 'production';
+  res.status(500).json({ 
+    code: 'INTERNAL_SERVER_ERROR',
+    message: isProduction 
+      ? fallbackMessage
+      : error instanceof Error ? error.message : 'Import failed',
+    details: isProduction ? undefined : error
+  });
+}
+
+// The active company and the user acting in it, for routes behind requireCompany
+function companyScope(req: Request): CompanyScope {
+  return { userId: req.user!.id, companyId: req.company!.id };
+}
+
 export function registerRoutes(app: Express): Server {
   // Set up authentication first
   setupAuth(app);
@@ -78,99 +247,275 @@ export function registerRoutes(app: Express): Server {
           }
         }
       } catch (error) {
-        console.error("Import error:", error);
-        
-        if (error instanceof ImportValidationError) {
-          const status = {
-            'INVALID_FILE_TYPE': 400,
-            'EMPTY_WORKBOOK': 400,
-            'MISSING_REQUIRED_COLUMNS': 400,
-            'INVALID_DATA_FORMAT': 422,
-            'DUPLICATE_ACCOUNT_CODE': 409
-          }[error.code] || 500;
-
-          return res.status(status).json({
-            code: error.code,
-            message: error.message,
-            details: error.details
-          });
-        }
+        sendImportError(
+          res,
+          error,
+          'An error occurred while importing the Chart of Accounts. Please verify your file and try again.'
+        );
+      }
+  });
 
-        // For all other errors, return a generic message in production
-        const isProduction = process.env.NODE_ENV === 'production';
-        res.status(500).json({ 
-          code: 'INTERNAL_SERVER_ERROR',
-          message: isProduction 
-            ? 'An error occurred while importing the Chart of Accounts. Please verify your file and try again.' 
-            : error instanceof Error ? error.message : 'Import failed',
-          details: isProduction ? undefined : error
-        });
+  // Company routes. Everything a user imports and reports on belongs to the
+  // company they have switched to, which is remembered in their session.
+  const companyBodySchema = insertCompanySchema.omit({
+    id: true,
+    ownerId: true,
+    createdAt: true,
+    updatedAt: true,
+  }).extend({
+    name: z.string().trim().min(1, "Company name is required"),
+  });
+
+  app.get("/api/companies", requireCompany, async (req, res) => {
+    try {
+      res.json(await listCompanies(req.user!.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/companies/active", requireCompany, async (req, res) => {
+    res.json(req.company);
+  });
+
+  app.post("/api/companies", requireCompany, async (req, res) => {
+    try {
+      const parsed = companyBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
       }
+      res.json(await createCompany(req.user!.id, parsed.data));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
   });
 
-  // User Chart of Accounts routes
-  app.get("/api/accounts", requireAuth, async (req, res) => {
+  app.patch("/api/companies/:id", requireCompany, async (req, res) => {
     try {
-      if (!req.user?.id) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const parsed = companyBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
       }
-      const result = await getUserAccountHierarchy(req.user.id);
-      res.json(result);
+      const company = await updateCompany(req.user!.id, Number(req.params.id), parsed.data);
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      res.json(company);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/accounts", async (req, res) => {
+  app.post("/api/companies/:id/switch", requireAuth, async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        throw new Error("Not authenticated");
+      const company = await getCompany(req.user!.id, Number(req.params.id));
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
       }
+      req.session.companyId = company.id;
+      res.json(company);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Chart of Accounts routes for the active company
+  app.get("/api/accounts", requireCompany, async (req, res) => {
+    try {
+      const result = await getUserAccountHierarchy(req.company!.id);
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/accounts", requireCompany, async (req, res) => {
+    try {
       const account = await createUserAccount({
         ...req.body,
-        userId: req.session.userId
+        ...companyScope(req),
       });
       res.json(account);
     } catch (error: any) {
+      if (error instanceof AccountError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.patch("/api/accounts/:id", async (req, res) => {
+  // Only the account's own details can change; its owner and company stay put
+  const accountUpdateSchema = insertUserAccountSchema.pick({
+    code: true,
+    name: true,
+    type: true,
+    parentId: true,
+    description: true,
+    active: true,
+  }).extend({
+    code: z.string().trim().min(1, "Code is required"),
+    name: z.string().trim().min(1, "Name is required"),
+    type: z.string().refine(
+      (type) => accountTypes.includes(type),
+      { message: `Account type must be one of ${accountTypes.join(", ")}` }
+    ),
+    parentId: z.number().int().positive().nullable(),
+  }).partial().strict();
+
+  app.patch("/api/accounts/:id", requireCompany, async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        throw new Error("Not authenticated");
+      const parsed = accountUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
       }
       const account = await updateUserAccount(
-        req.session.userId,
+        req.company!.id,
         Number(req.params.id),
-        req.body
+        parsed.data
       );
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
       res.json(account);
     } catch (error: any) {
+      if (error instanceof AccountError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/accounts/:id", requireCompany, async (req, res) => {
+    try {
+      const deleted = await deleteUserAccount(req.company!.id, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      if (error instanceof AccountError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Bank account routes
+  const bankAccountBodySchema = insertBankAccountSchema.omit({
+    id: true,
+    companyId: true,
+    createdAt: true,
+    updatedAt: true,
+  }).extend({
+    name: z.string().trim().min(1, "Name is required"),
+    bankName: z.string().trim().min(1, "Bank name is required"),
+    accountNumber: z.string().transform((value) => value.replace(/\s+/g, "")).pipe(
+      z.string().min(1, "Account number is required")
+    ),
+    type: z.string().refine(
+      (type) => bankAccountTypes.includes(type),
+      { message: `Account type must be one of ${bankAccountTypes.join(", ")}` }
+    ),
+    currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, "Currency must be a three-letter code such as ZAR").optional(),
+    ledgerAccountId: z.number().int(),
+  });
+
+  app.get("/api/bank-accounts", requireCompany, async (req, res) => {
+    try {
+      res.json(await listBankAccounts(req.company!.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/bank-accounts", requireCompany, async (req, res) => {
+    try {
+      const parsed = bankAccountBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      res.json(await createBankAccount(req.company!.id, parsed.data));
+    } catch (error: any) {
+      if (error instanceof BankAccountError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/bank-accounts/:id", requireCompany, async (req, res) => {
+    try {
+      const parsed = bankAccountBodySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const bankAccount = await updateBankAccount(req.company!.id, Number(req.params.id), parsed.data);
+      if (!bankAccount) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      res.json(bankAccount);
+    } catch (error: any) {
+      if (error instanceof BankAccountError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.delete("/api/accounts/:id", async (req, res) => {
+  app.delete("/api/bank-accounts/:id", requireCompany, async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        throw new Error("Not authenticated");
+      const deleted = await deleteBankAccount(req.company!.id, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Bank account not found" });
       }
-      await deleteUserAccount(req.session.userId, Number(req.params.id));
       res.status(204).end();
     } catch (error: any) {
+      if (error instanceof BankAccountError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Transaction routes
-  app.get("/api/transactions", async (_req, res) => {
+  // The optional bank account filter on lists and reports: undefined when
+  // there is none, null when it is not an id
+  const bankAccountFilter = (query: any): number | null | undefined => {
+    if (!query.bankAccountId) return undefined;
+    const bankAccountId = Number(query.bankAccountId);
+    return Number.isInteger(bankAccountId) && bankAccountId > 0 ? bankAccountId : null;
+  };
+  const BANK_ACCOUNT_FILTER_MESSAGE = "bankAccountId must be the id of a bank account";
+
+  // Transaction routes. Another company's transaction is reported as not
+  // found rather than forbidden, so ids cannot be probed.
+  const findCompanyTransaction = (companyId: number, transactionId: number) =>
+    db.query.transactions.findFirst({
+      where: and(
+        eq(transactions.id, transactionId),
+        eq(transactions.companyId, companyId)
+      ),
+    });
+
+  app.get("/api/transactions", requireCompany, async (req, res) => {
     try {
+      const bankAccountId = bankAccountFilter(req.query);
+      if (bankAccountId === null) {
+        return res.status(400).json({ message: BANK_ACCOUNT_FILTER_MESSAGE });
+      }
       const result = await db.query.transactions.findMany({
+        where: and(
+          eq(transactions.companyId, req.company!.id),
+          bankAccountId !== undefined
+            ? inArray(
+                transactions.importBatchId,
+                db.select({ id: importBatches.id }).from(importBatches).where(eq(importBatches.bankAccountId, bankAccountId))
+              )
+            : undefined
+        ),
         orderBy: desc(transactions.date),
         with: {
           account: true,
+          splits: true,
         },
       });
       res.json(result);
@@ -179,178 +524,1158 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/import/:type", upload.single("file"), async (req, res) => {
+  // Multipart fields arrive as text, so the bank account id is coerced and checked
+  const bankStatementImportSchema = z.object({
+    bankAccountId: z.coerce.number({ invalid_type_error: "Choose the bank account this statement belongs to" })
+      .int("Choose the bank account this statement belongs to")
+      .positive("Choose the bank account this statement belongs to"),
+    skipDuplicates: z.string().optional().transform((value) => value === "true"),
+  });
+
+  app.post("/api/import/:type", requireCompany, upload.single("file"), async (req, res) => {
     try {
       const { type } = req.params;
       const file = req.file;
       
       if (!file) {
-        throw new Error("No file uploaded");
+        return res.status(400).json({ message: "No file uploaded" });
       }
 
       // Save the buffer to a temporary file
       const tempFilePath = `/tmp/${file.originalname}`;
       await fs.promises.writeFile(tempFilePath, file.buffer);
 
-      let result;
-      switch (type) {
-        case "chart-of-accounts":
-          await importChartOfAccounts(tempFilePath);
-          result = await getAccountHierarchy();
-          break;
-        
-        case "bank-statement":
-          const bankData = await importBankStatement(tempFilePath);
-          const insertedTransactions = await db.insert(transactions)
-            .values(bankData.map(record => ({
-              date: record.date,
-              description: record.description,
-              amount: record.amount,
-              reference: record.reference,
-            })))
-            .returning();
-          result = insertedTransactions;
-          break;
-        
-        case "trial-balance":
-          result = await importTrialBalance(tempFilePath);
-          break;
+      try {
+        let result;
+        switch (type) {
+          case "chart-of-accounts":
+            await importChartOfAccounts(tempFilePath);
+            result = await getAccountHierarchy();
+            break;
+          
+          case "bank-statement": {
+            const parsed = bankStatementImportSchema.safeParse(req.body);
+            if (!parsed.success) {
+              return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+            }
+            const bankData = await importBankStatement(file);
+            result = await createBankStatementBatch(companyScope(req), file, bankData, parsed.data);
+            break;
+          }
+          
+          case "trial-balance":
+            result = await createTrialBalanceImport(companyScope(req), file, Number(req.body.financialYear));
+            break;
+
+          default:
+            throw new Error(`Unknown import type: ${type}`);
+        }
 
-        default:
-          throw new Error(`Unknown import type: ${type}`);
+        res.json(result);
+      } finally {
+        // Clean up temp file
+        if (fs.existsSync(tempFilePath)) {
+          await fs.promises.unlink(tempFilePath);
+        }
       }
+    } catch (error) {
+      sendImportError(res, error, 'An error occurred while importing the file. Please verify your file and try again.');
+    }
+  });
 
-      // Clean up temp file
-      await fs.promises.unlink(tempFilePath);
-      
-      res.json(result);
+  // Import batch routes. A batch starts as a pending import session holding the
+  // parsed file, and becomes completed once its rows are committed.
+  app.post("/api/import-batches", requireCompany, upload.single("file"), async (req, res) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const session = await createImportSession(
+        companyScope(req),
+        file,
+        req.body.bankAccountId ? Number(req.body.bankAccountId) : undefined
+      );
+      res.json(session);
     } catch (error) {
-      console.error("Import error:", error);
-      res.status(500).json({ message: error.message });
+      sendImportError(res, error, 'An error occurred while reading the bank statement. Please verify your file and try again.');
     }
   });
 
-  app.patch("/api/transactions/:id", async (req, res) => {
+  app.get("/api/import-batches/:id/session", requireCompany, async (req, res) => {
     try {
-      const [transaction] = await db
-        .update(transactions)
-        .set({
-          ...req.body,
-          updatedAt: new Date(),
-        })
-        .where(eq(transactions.id, Number(req.params.id)))
-        .returning();
+      const session = await getImportSession(companyScope(req), Number(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Import session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      sendImportError(res, error, 'An error occurred while reading the bank statement.');
+    }
+  });
 
-      // Update historical matches if explanation is provided
-      if (req.body.explanation && transaction.description) {
-        await db
-          .insert(historicalMatches)
-          .values({
-            transactionDescription: transaction.description,
-            explanation: req.body.explanation,
-            accountId: req.body.accountId,
-          })
-          .onConflictDoUpdate({
-            target: [
-              historicalMatches.transactionDescription,
-              historicalMatches.accountId,
-            ],
-            set: {
-              frequency: db.sql`${historicalMatches.frequency} + 1`,
-              lastUsed: new Date(),
-            },
-          });
+  // The mapping and options are stored on the batch and reused at commit, so
+  // only known columns and valid reading options are accepted
+  const columnNameSchema = z.string().trim().min(1).optional();
+  const importSessionUpdateSchema = z.object({
+    bankAccountId: z.number().int().positive().optional(),
+    profileId: z.number().int().positive().optional(),
+    columnMap: z.object({
+      date: columnNameSchema,
+      description: columnNameSchema,
+      amount: columnNameSchema,
+      debit: columnNameSchema,
+      credit: columnNameSchema,
+      reference: columnNameSchema,
+      balance: columnNameSchema,
+    }).strict().optional(),
+    options: z.object({
+      dateFormat: z.string().refine(
+        (format) => dateFormats.includes(format),
+        { message: `Date format must be one of ${dateFormats.join(", ")}` }
+      ),
+      signConvention: z.enum(["standard", "inverted"], {
+        errorMap: () => ({ message: "Sign convention must be standard or inverted" }),
+      }),
+      skipRows: z.number().int().min(0, "Rows to skip cannot be negative").max(100, "Rows to skip cannot be more than 100"),
+    }).partial().strict().optional(),
+  });
+
+  app.patch("/api/import-batches/:id", requireCompany, async (req, res) => {
+    try {
+      const parsed = importSessionUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
       }
+      const session = await updateImportSession(companyScope(req), Number(req.params.id), parsed.data);
+      if (!session) {
+        return res.status(404).json({ message: "Import session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      sendImportError(res, error, 'An error occurred while applying the column mapping.');
+    }
+  });
 
-      res.json(transaction);
+  app.post("/api/import-batches/:id/commit", requireCompany, async (req, res) => {
+    try {
+      const batch = await commitImportSession(companyScope(req), Number(req.params.id), {
+        skipDuplicates: !!req.body.skipDuplicates,
+      });
+      if (!batch) {
+        return res.status(404).json({ message: "Import session not found" });
+      }
+      res.json(batch);
     } catch (error) {
+      sendImportError(res, error, 'An error occurred while importing the bank statement.');
+    }
+  });
+
+  app.get("/api/import-batches", requireCompany, async (req, res) => {
+    try {
+      const bankAccountId = bankAccountFilter(req.query);
+      if (bankAccountId === null) {
+        return res.status(400).json({ message: BANK_ACCOUNT_FILTER_MESSAGE });
+      }
+      const result = await listImportBatches(companyScope(req), { bankAccountId });
+      res.json(result);
+    } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Prediction routes
-  app.get("/api/predictions", async (req, res) => {
+  app.get("/api/import-batches/:id", requireCompany, async (req, res) => {
     try {
-      const transactionId = Number(req.query.transactionId);
-      const transaction = await db.query.transactions.findFirst({
-        where: eq(transactions.id, transactionId),
-      });
+      const batch = await getImportBatch(companyScope(req), Number(req.params.id));
+      if (!batch) {
+        return res.status(404).json({ message: "Import batch not found" });
+      }
+      res.json(batch);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      if (!transaction) {
-        throw new Error("Transaction not found");
+  app.delete("/api/import-batches/:id", requireCompany, async (req, res) => {
+    try {
+      const deleted = await deleteImportBatch(companyScope(req), Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Import batch not found" });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Explain what the predictions are sure of across a whole statement and
+  // queue the rest for review
+  const categoriseBodySchema = z.object({
+    threshold: z.number().gt(0, "threshold must be above 0").max(1, "threshold cannot be above 1").optional(),
+  });
+
+  app.post("/api/import-batches/:id/categorise", requireCompany, async (req, res) => {
+    try {
+      const parsed = categoriseBodySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
       }
+      const summary = await categoriseImportBatch(
+        req.company!.id,
+        Number(req.params.id),
+        parsed.data.threshold ?? DEFAULT_AUTO_CATEGORISE_THRESHOLD
+      );
+      if (!summary) {
+        return res.status(404).json({ message: "Import batch not found" });
+      }
+      await refreshRuleSuggestions(req.company!.id);
+      res.json(summary);
+    } catch (error: any) {
+      if (error instanceof CategorisationError || error instanceof TransactionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      const predictions = await generatePredictions(transaction);
-      res.json(predictions);
+  // Opening balance routes. A trial balance is staged like a statement so its
+  // columns and unknown account codes can be mapped before it is saved.
+  app.post("/api/opening-balances/import", requireCompany, upload.single("file"), async (req, res) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const session = await createTrialBalanceImport(companyScope(req), file, Number(req.body.financialYear));
+      res.json(session);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      sendImportError(res, error, 'An error occurred while reading the trial balance. Please verify your file and try again.');
     }
   });
 
+  app.get("/api/opening-balances/import/:id", requireCompany, async (req, res) => {
+    try {
+      const session = await getTrialBalanceImport(companyScope(req), Number(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Trial balance import not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      sendImportError(res, error, 'An error occurred while reading the trial balance.');
+    }
+  });
 
-  // Admin routes
-  app.get("/api/admin/users", async (req, res) => {
+  app.patch("/api/opening-balances/import/:id", requireCompany, async (req, res) => {
     try {
-      const result = await db.query.users.findMany({
-        orderBy: desc(users.createdAt),
+      const session = await updateTrialBalanceImport(companyScope(req), Number(req.params.id), {
+        columnMap: req.body.columnMap,
+        accountMap: req.body.accountMap,
+        financialYear: req.body.financialYear !== undefined ? Number(req.body.financialYear) : undefined,
+        skipRows: req.body.skipRows !== undefined ? Number(req.body.skipRows) : undefined,
       });
-      res.json(result);
+      if (!session) {
+        return res.status(404).json({ message: "Trial balance import not found" });
+      }
+      res.json(session);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      sendImportError(res, error, 'An error occurred while applying the mapping.');
     }
   });
 
-  app.post("/api/admin/users", async (req, res) => {
+  app.post("/api/opening-balances/import/:id/commit", requireCompany, async (req, res) => {
     try {
-      const [user] = await db.insert(users)
-        .values({
-          userId: req.body.userId,
-          email: req.body.email,
-          password: req.body.password, // Note: Should hash password in production
-          role: req.body.role || "user",
-        })
-        .returning();
-      res.json(user);
+      const batch = await commitTrialBalanceImport(companyScope(req), Number(req.params.id));
+      if (!batch) {
+        return res.status(404).json({ message: "Trial balance import not found" });
+      }
+      res.json(batch);
     } catch (error) {
+      sendImportError(res, error, 'An error occurred while saving the opening balances.');
+    }
+  });
+
+  app.get("/api/opening-balances/years", requireCompany, async (req, res) => {
+    try {
+      res.json(await listOpeningBalanceYears(companyScope(req)));
+    } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Stats routes
-  app.get("/api/stats", async (_req, res) => {
+  app.get("/api/opening-balances", requireCompany, async (req, res) => {
     try {
-      const totalTransactions = await db.query.transactions.findMany();
-      const analyzedTransactions = await db.query.transactions.findMany({
-        where: eq(transactions.accountId, undefined),
-      });
+      const financialYear = Number(req.query.financialYear);
+      if (!Number.isInteger(financialYear)) {
+        return res.status(400).json({ message: "financialYear is required" });
+      }
+      res.json(await listOpeningBalances(companyScope(req), financialYear));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      const correctPredictions = await db.query.transactions.findMany({
-        where: and(
-          eq(transactions.predictedBy, undefined),
-          eq(transactions.confidence, 0.8)
-        ),
-      });
+  // Report routes. Periods are given as from/to dates or a financial year,
+  // defaulting to the current financial year.
+  const reportOptions = (query: any): ReportOptions => {
+    const bankAccountId = bankAccountFilter(query);
+    if (bankAccountId === null) {
+      throw new ReportError(BANK_ACCOUNT_FILTER_MESSAGE);
+    }
+    return {
+      from: query.from || undefined,
+      to: query.to || undefined,
+      financialYear: query.financialYear ? Number(query.financialYear) : undefined,
+      bankAccountId,
+      comparative: query.comparative !== "false",
+    };
+  };
 
-      const predictionAccuracy =
-        totalTransactions.length > 0
-          ? (correctPredictions.length / totalTransactions.length) * 100
-          : 0;
+  app.get("/api/financial-years", requireCompany, async (req, res) => {
+    try {
+      res.json(await getFinancialYearSettings(req.company!.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Get monthly transaction volume using raw SQL for date functions
-      const monthlyVolume = await db.execute(sql`
-        SELECT 
-          date_trunc('month', date)::text as month,
-          COUNT(*) as count
-        FROM transactions
-        GROUP BY date_trunc('month', date)
-        ORDER BY date_trunc('month', date)
-      `);
+  app.get("/api/reports/trial-balance", requireCompany, async (req, res) => {
+    try {
+      res.json(await getTrialBalance(req.company!.id, reportOptions(req.query)));
+    } catch (error: any) {
+      if (error instanceof ReportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/reports/income-statement", requireCompany, async (req, res) => {
+    try {
+      res.json(await getIncomeStatement(req.company!.id, reportOptions(req.query)));
+    } catch (error: any) {
+      if (error instanceof ReportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/reports/balance-sheet", requireCompany, async (req, res) => {
+    try {
+      res.json(await getBalanceSheet(req.company!.id, reportOptions(req.query)));
+    } catch (error: any) {
+      if (error instanceof ReportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  const ledgerOptions = (query: any) => {
+    const account = String(query.account ?? "");
+    return {
+      ...reportOptions(query),
+      account: /^\d+$/.test(account) ? Number(account) : account,
+      includeChildren: query.includeChildren !== "false",
+      page: query.page ? Number(query.page) : undefined,
+      pageSize: query.pageSize ? Number(query.pageSize) : undefined,
+    };
+  };
+
+  app.get("/api/reports/general-ledger", requireCompany, async (req, res) => {
+    try {
+      if (!req.query.account) {
+        return res.status(400).json({ message: "account is required" });
+      }
+      res.json(await getGeneralLedger(req.company!.id, ledgerOptions(req.query)));
+    } catch (error: any) {
+      if (error instanceof ReportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/reports/unallocated", requireCompany, async (req, res) => {
+    try {
+      res.json(await getUnallocatedTransactions(req.company!.id, reportOptions(req.query)));
+    } catch (error: any) {
+      if (error instanceof ReportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/reports/:report/export", requireCompany, async (req, res) => {
+    try {
+      const options = req.query.account ? ledgerOptions(req.query) : reportOptions(req.query);
+      const file = await exportReport(
+        req.company!.id,
+        req.params.report,
+        String(req.query.format ?? "xlsx"),
+        options
+      );
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+      res.send(file.content);
+    } catch (error: any) {
+      if (error instanceof ReportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Company profile routes
+  const optionalText = z.string().trim().transform((value) => value || null).nullish();
+  // Statutory numbers are stored without the spaces people often type in them
+  const statutoryNumber = (isValid: (value: string) => boolean, message: string) =>
+    z.string()
+      .transform((value) => value.replace(/\s+/g, ""))
+      .refine((value) => !value || isValid(value), { message })
+      .transform((value) => value || null)
+      .nullish();
+
+  const companyProfileBodySchema = insertCompanyProfileSchema.omit({
+    id: true,
+    companyId: true,
+    logo: true,
+    logoMimeType: true,
+    createdAt: true,
+    updatedAt: true,
+  }).extend({
+    registeredName: z.string().trim().min(1, "Registered name is required"),
+    tradingName: optionalText,
+    registrationNumber: statutoryNumber(
+      isValidRegistrationNumber,
+      "Registration number must be a CIPC number such as 2015/123456/07"
+    ),
+    incomeTaxNumber: statutoryNumber(
+      isValidIncomeTaxNumber,
+      "Income tax number must be a valid 10-digit SARS reference number"
+    ),
+    vatNumber: statutoryNumber(
+      isValidVatNumber,
+      "VAT number must be 10 digits starting with 4"
+    ),
+    physicalAddress: optionalText,
+    postalAddress: optionalText,
+    phone: optionalText,
+    email: z.union([z.literal(""), z.string().trim().email("Email must be a valid email address")])
+      .transform((value) => value || null)
+      .nullish(),
+    website: optionalText,
+    yearEndMonth: z.number().int().min(1, "Year-end month must be from 1 to 12").max(12, "Year-end month must be from 1 to 12").optional(),
+  });
+
+  app.get("/api/company-profile", requireCompany, async (req, res) => {
+    try {
+      const profile = await getCompanyProfile(req.company!.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Company profile not found" });
+      }
+      res.json(profile);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/company-profile", requireCompany, async (req, res) => {
+    try {
+      const parsed = companyProfileBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      res.json(await saveCompanyProfile(req.company!.id, parsed.data));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/company-profile", requireCompany, async (req, res) => {
+    try {
+      const deleted = await deleteCompanyProfile(req.company!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Company profile not found" });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/company-profile/logo", requireCompany, async (req, res) => {
+    try {
+      const logo = await getCompanyLogo(req.company!.id);
+      if (!logo) {
+        return res.status(404).json({ message: "Logo not found" });
+      }
+      res.setHeader("Content-Type", logo.mimeType);
+      res.send(logo.data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/company-profile/logo", requireCompany, upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const profile = await setCompanyLogo(req.company!.id, req.file);
+      if (!profile) {
+        return res.status(404).json({ message: "Company profile not found" });
+      }
+      res.json(profile);
+    } catch (error: any) {
+      if (error instanceof CompanyProfileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/company-profile/logo", requireCompany, async (req, res) => {
+    try {
+      const profile = await removeCompanyLogo(req.company!.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Company profile not found" });
+      }
+      res.json(profile);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Import profile routes
+  const importProfileBodySchema = insertImportProfileSchema.omit({
+    id: true,
+    userId: true,
+    createdAt: true,
+    updatedAt: true,
+  }).extend({
+    dateFormat: z.string().refine(
+      (format) => dateFormats.includes(format),
+      { message: `Date format must be one of ${dateFormats.join(", ")}` }
+    ).optional(),
+  });
+
+  app.get("/api/import-profiles", requireAuth, async (req, res) => {
+    try {
+      const result = await listImportProfiles(req.user!.id);
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/import-profiles", requireAuth, async (req, res) => {
+    try {
+      const parsed = importProfileBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const profile = await createImportProfile({ ...parsed.data, userId: req.user!.id });
+      res.json(profile);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/import-profiles/:id", requireAuth, async (req, res) => {
+    try {
+      const parsed = importProfileBodySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const profile = await updateImportProfile(req.user!.id, Number(req.params.id), parsed.data);
+      if (!profile) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      res.json(profile);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/import-profiles/:id", requireAuth, async (req, res) => {
+    try {
+      const deleted = await deleteImportProfile(req.user!.id, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Only the allocation can be changed; the statement line itself is fixed
+  const transactionUpdateSchema = insertTransactionSchema.pick({
+    explanation: true,
+    accountId: true,
+    confidence: true,
+    predictedBy: true,
+  }).partial();
+
+  app.patch("/api/transactions/:id", requireCompany, async (req, res) => {
+    try {
+      const parsed = transactionUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const existing = await findCompanyTransaction(req.company!.id, Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      if (parsed.data.accountId) {
+        const account = await db.query.userAccounts.findFirst({
+          where: and(
+            eq(userAccounts.id, parsed.data.accountId),
+            eq(userAccounts.companyId, req.company!.id)
+          ),
+          columns: { id: true },
+        });
+        if (!account) {
+          return res.status(404).json({ message: "Account not found" });
+        }
+      }
+
+      // Changing the allocation by hand settles any review it was waiting for
+      const reviewed = parsed.data.accountId !== undefined || parsed.data.explanation !== undefined;
+      const transaction = await updateTransaction(req.company!.id, existing, {
+        ...parsed.data,
+        ...(reviewed ? { reviewStatus: "reviewed" } : {}),
+      });
+      await refreshRuleSuggestions(req.company!.id);
+      res.json(transaction);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  const splitBodySchema = z.object({
+    splits: z.array(z.object({
+      accountId: z.number().int(),
+      amount: z.number(),
+      explanation: z.string().nullish(),
+    })).min(2, "A split needs at least two parts"),
+  });
+
+  app.put("/api/transactions/:id/splits", requireCompany, async (req, res) => {
+    try {
+      const parsed = splitBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const existing = await findCompanyTransaction(req.company!.id, Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const transaction = await splitTransaction(req.company!.id, existing, parsed.data.splits);
+      await refreshRuleSuggestions(req.company!.id);
+      res.json(transaction);
+    } catch (error: any) {
+      if (error instanceof TransactionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/transactions/:id/splits", requireCompany, async (req, res) => {
+    try {
+      const existing = await findCompanyTransaction(req.company!.id, Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const transaction = await clearTransactionSplits(req.company!.id, existing);
+      await refreshRuleSuggestions(req.company!.id);
+      res.json(transaction);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Other unexplained transactions like this one, to be given the same
+  // explanation in one go
+  app.get("/api/transactions/:id/similar", requireCompany, async (req, res) => {
+    try {
+      const existing = await findCompanyTransaction(req.company!.id, Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const threshold = req.query.threshold ? Number(req.query.threshold) : DEFAULT_SIMILARITY_THRESHOLD;
+      const groups = await findSimilarTransactions(req.company!.id, existing, threshold);
+      res.json({ threshold, groups });
+    } catch (error: any) {
+      if (error instanceof TransactionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  const applySimilarSchema = z.object({
+    explanation: z.string().trim().min(1, "Explanation is required"),
+    accountId: z.number().int(),
+    transactionIds: z.array(z.number().int()).min(1, "Choose at least one transaction"),
+  });
+
+  app.post("/api/transactions/:id/similar", requireCompany, async (req, res) => {
+    try {
+      const parsed = applySimilarSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const existing = await findCompanyTransaction(req.company!.id, Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const { transactionIds, ...allocation } = parsed.data;
+      const applied = await applyExplanation(req.company!.id, existing, transactionIds, allocation);
+      await refreshRuleSuggestions(req.company!.id);
+      res.json(applied);
+    } catch (error: any) {
+      if (error instanceof TransactionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Prediction routes
+  app.get("/api/predictions", requireCompany, async (req, res) => {
+    try {
+      const transaction = await findCompanyTransaction(req.company!.id, Number(req.query.transactionId));
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      const predictions = await generatePredictions(req.company!.id, transaction);
+      res.json(predictions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Rule routes
+  const ruleConditionSchema = z.discriminatedUnion("field", [
+    z.object({
+      field: z.literal("description"),
+      operator: z.enum(["contains", "startsWith", "regex"]),
+      value: z.string().trim().min(1, "Enter the text to match"),
+    }),
+    z.object({
+      field: z.literal("amount"),
+      operator: z.enum(["equals", "between"]),
+      value: z.number().nonnegative().optional(),
+      min: z.number().nonnegative().optional(),
+      max: z.number().nonnegative().optional(),
+    }),
+    z.object({
+      field: z.literal("direction"),
+      value: z.enum(["in", "out"]),
+    }),
+    z.object({
+      field: z.literal("dayOfMonth"),
+      min: z.number().int().min(1).max(31),
+      max: z.number().int().min(1).max(31),
+    }),
+    z.object({
+      field: z.literal("bankAccount"),
+      bankAccountId: z.number().int(),
+    }),
+  ]);
+
+  const ruleBodySchema = insertRuleSchema.omit({
+    id: true,
+    companyId: true,
+    confidence: true,
+    createdAt: true,
+    updatedAt: true,
+  }).extend({
+    name: z.string().trim().min(1, "Name is required"),
+    conditions: z.array(ruleConditionSchema).min(1, "A rule needs at least one condition"),
+    action: z.object({
+      explanation: z.string().trim().min(1, "Explanation is required"),
+      accountId: z.number().int().nullish(),
+      splits: z.array(z.object({
+        accountId: z.number().int(),
+        percentage: z.number().positive("Split percentages must be above zero"),
+        explanation: z.string().nullish(),
+      })).nullish(),
+    }),
+    priority: z.number().int().optional(),
+  });
+
+  app.get("/api/rules", requireCompany, async (req, res) => {
+    try {
+      res.json(await listRules(req.company!.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/rules", requireCompany, async (req, res) => {
+    try {
+      const parsed = ruleBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      res.json(await createRule(req.company!.id, parsed.data));
+    } catch (error: any) {
+      if (error instanceof RuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/rules/:id", requireCompany, async (req, res) => {
+    try {
+      const parsed = ruleBodySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const rule = await updateRule(req.company!.id, Number(req.params.id), parsed.data);
+      if (!rule) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+      res.json(rule);
+    } catch (error: any) {
+      if (error instanceof RuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/rules/:id", requireCompany, async (req, res) => {
+    try {
+      const deleted = await deleteRule(req.company!.id, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Explain a transaction with a rule, usually the one its predictions matched
+  app.post("/api/rules/:id/apply", requireCompany, async (req, res) => {
+    try {
+      const parsed = z.object({ transactionId: z.number().int() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const rule = await getRule(req.company!.id, Number(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+      const transaction = await findCompanyTransaction(req.company!.id, parsed.data.transactionId);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      // Applied by hand, so it settles any review the transaction was waiting for
+      const applied = await applyRule(req.company!.id, rule, transaction, { reviewStatus: "reviewed" });
+      await refreshRuleSuggestions(req.company!.id);
+      res.json(applied);
+    } catch (error: any) {
+      if (error instanceof TransactionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Rules proposed from repeated allocations, each with how many existing
+  // transactions it would match
+  app.get("/api/rule-suggestions", requireCompany, async (req, res) => {
+    try {
+      res.json(await listRuleSuggestions(req.company!.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/rule-suggestions/:id/accept", requireCompany, async (req, res) => {
+    try {
+      const rule = await acceptRuleSuggestion(req.company!.id, Number(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ message: "Rule suggestion not found" });
+      }
+      res.json(rule);
+    } catch (error: any) {
+      if (error instanceof RuleSuggestionError || error instanceof RuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/rule-suggestions/:id/reject", requireCompany, async (req, res) => {
+    try {
+      const rejected = await rejectRuleSuggestion(req.company!.id, Number(req.params.id));
+      if (!rejected) {
+        return res.status(404).json({ message: "Rule suggestion not found" });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      if (error instanceof RuleSuggestionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Review queue for predictions that were not sure enough, or disputed
+  app.get("/api/review", requireCompany, async (req, res) => {
+    try {
+      const threshold = req.query.threshold ? Number(req.query.threshold) : DEFAULT_REVIEW_THRESHOLD;
+      res.json(await listReviewQueue(req.company!.id, threshold));
+    } catch (error: any) {
+      if (error instanceof ReviewError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  const reviewDecisionSchema = z.discriminatedUnion("action", [
+    z.object({ action: z.literal("accept") }),
+    z.object({
+      action: z.literal("choose"),
+      prediction: z.object({
+        explanation: z.string().trim().min(1, "Explanation is required"),
+        accountId: z.number().int(),
+        type: z.enum(["pattern", "database", "ai", "rule"]),
+        confidence: z.number().min(0),
+        ruleId: z.number().int().optional(),
+      }),
+    }),
+    z.object({ action: z.literal("reject") }),
+  ]);
+
+  app.post("/api/review/:id", requireCompany, async (req, res) => {
+    try {
+      const parsed = reviewDecisionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const existing = await getTransactionWithSplits(req.company!.id, Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const reviewed = await reviewTransaction(req.company!.id, existing, parsed.data);
+      await refreshRuleSuggestions(req.company!.id);
+      res.json(reviewed);
+    } catch (error: any) {
+      if (error instanceof ReviewError || error instanceof TransactionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Journal routes. Statement transactions post their own journals; only
+  // manual journals are created and changed here.
+  const isoDateSchema = z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in the form yyyy-mm-dd")
+    .transform((value) => new Date(`${value}T00:00:00Z`))
+    .refine((date) => !isNaN(date.getTime()), "Invalid date");
+
+  const journalBodySchema = insertJournalSchema.pick({
+    description: true,
+    reference: true,
+  }).extend({
+    date: isoDateSchema,
+    description: z.string().trim().min(1, "Description is required"),
+    reference: z.string().trim().nullish(),
+    lines: z.array(z.object({
+      accountId: z.number().int(),
+      description: z.string().nullish(),
+      debit: z.number().nonnegative().optional(),
+      credit: z.number().nonnegative().optional(),
+    })).min(2, "A journal needs at least two lines"),
+  });
+
+  const journalQuerySchema = z.object({
+    source: z.enum(["transaction", "manual"]).optional(),
+    from: isoDateSchema.optional(),
+    to: isoDateSchema.optional(),
+  });
+
+  app.get("/api/journals", requireCompany, async (req, res) => {
+    try {
+      const parsed = journalQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const { source, from, to } = parsed.data;
+      res.json(await listJournals(req.company!.id, {
+        source,
+        from,
+        toExclusive: to && new Date(to.getTime() + 86400 * 1000),
+      }));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/journals/:id", requireCompany, async (req, res) => {
+    try {
+      const journal = await getJournal(req.company!.id, Number(req.params.id));
+      if (!journal) {
+        return res.status(404).json({ message: "Journal not found" });
+      }
+      res.json(journal);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/journals", requireCompany, async (req, res) => {
+    try {
+      const parsed = journalBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      res.json(await createJournal(companyScope(req), parsed.data));
+    } catch (error: any) {
+      if (error instanceof JournalError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/journals/:id", requireCompany, async (req, res) => {
+    try {
+      const parsed = journalBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+      const journal = await updateJournal(req.company!.id, Number(req.params.id), parsed.data);
+      if (!journal) {
+        return res.status(404).json({ message: "Journal not found" });
+      }
+      res.json(journal);
+    } catch (error: any) {
+      if (error instanceof JournalError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/journals/:id", requireCompany, async (req, res) => {
+    try {
+      const deleted = await deleteJournal(req.company!.id, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Journal not found" });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      if (error instanceof JournalError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Admin routes
+  app.get("/api/admin/users", requireAdmin, async (req, res) => {
+    try {
+      const result = await db.query.users.findMany({
+        orderBy: desc(users.createdAt),
+      });
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/users", requireAdmin, async (req, res) => {
+    try {
+      const [user] = await db.insert(users)
+        .values({
+          userId: req.body.userId,
+          email: req.body.email,
+          password: req.body.password, // Note: Should hash password in production
+          role: req.body.role || "user",
+        })
+        .returning();
+      res.json(user);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Stats routes
+  app.get("/api/stats", requireCompany, async (req, res) => {
+    try {
+      const totalTransactions = await db.query.transactions.findMany({
+        where: eq(transactions.companyId, req.company!.id),
+      });
+      const analyzedTransactions = await db.query.transactions.findMany({
+        where: and(
+          eq(transactions.companyId, req.company!.id),
+          or(
+            isNotNull(transactions.accountId),
+            exists(db.select().from(transactionSplits).where(eq(transactionSplits.transactionId, transactions.id)))
+          )
+        ),
+      });
+
+      const correctPredictions = await db.query.transactions.findMany({
+        where: and(
+          eq(transactions.companyId, req.company!.id),
+          isNotNull(transactions.predictedBy),
+          gte(transactions.confidence, "0.8")
+        ),
+      });
+
+      const predictionAccuracy =
+        totalTransactions.length > 0
+          ? (correctPredictions.length / totalTransactions.length) * 100
+          : 0;
+
+      // Monthly transaction volume over a financial year, the current one
+      // unless another is asked for, with every month listed
+      const yearEndMonth = await getYearEndMonth(req.company!.id);
+      const financialYear = req.query.financialYear
+        ? Number(req.query.financialYear)
+        : financialYearOf(new Date(), yearEndMonth);
+      if (!Number.isInteger(financialYear)) {
+        return res.status(400).json({ message: "financialYear must be a year such as 2025" });
+      }
+      const year = financialYearPeriod(financialYear, yearEndMonth);
+      const counts = await db.execute(sql`
+        SELECT 
+          to_char(date_trunc('month', date), 'YYYY-MM') as month,
+          COUNT(*)::int as count
+        FROM transactions
+        WHERE company_id = ${req.company!.id}
+          AND date >= ${year.from.toISOString()}
+          AND date < ${new Date(Date.UTC(financialYear, yearEndMonth, 1)).toISOString()}
+        GROUP BY date_trunc('month', date)
+      `);
+      const countByMonth = new Map(counts.rows.map((row: any) => [row.month, row.count]));
+      const monthlyVolume = financialYearMonths(financialYear, yearEndMonth).map((start) => {
+        const month = start.toISOString().slice(0, 7);
+        return { month, count: countByMonth.get(month) ?? 0 };
+      });
 
       res.json({
         totalTransactions: totalTransactions.length,
         analyzedTransactions: analyzedTransactions.length,
         predictionAccuracy: Math.round(predictionAccuracy),
-        monthlyVolume: monthlyVolume.rows,
+        financialYear,
+        financialYearName: financialYearName(financialYear, yearEndMonth),
+        monthlyVolume,
       });
     } catch (error) {
       if (error instanceof Error) {
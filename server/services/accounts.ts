@@ -16,6 +16,17 @@ export {
   type InsertUserAccount 
 };
 
+export class AccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+export const accountTypes = ["asset", "liability", "equity", "income", "expense"];
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // Helper function to build account hierarchy
 function buildHierarchy(accounts: (MasterAccount | UserAccount)[]): (MasterAccount | UserAccount)[] {
   const accountMap = new Map<number, (MasterAccount | UserAccount) & { children: (MasterAccount | UserAccount)[] }>();
@@ -73,12 +84,12 @@ export async function createMasterAccount(data: InsertMasterAccount): Promise<Ma
 }
 
 // User Account Operations
-export async function getUserAccountHierarchy(userId: number): Promise<UserAccount[]> {
+export async function getUserAccountHierarchy(companyId: number): Promise<UserAccount[]> {
   const allAccounts = await db.query.userAccounts.findMany({
     orderBy: [userAccounts.code],
     where: and(
       eq(userAccounts.active, true),
-      eq(userAccounts.userId, userId)
+      eq(userAccounts.companyId, companyId)
     ),
   });
 
@@ -89,37 +100,53 @@ export async function createUserAccount(data: InsertUserAccount): Promise<UserAc
   // Validate parent account if specified
   if (data.parentId) {
     const parent = await db.query.userAccounts.findFirst({
-      where: eq(userAccounts.id, data.parentId),
+      where: and(
+        eq(userAccounts.id, data.parentId),
+        eq(userAccounts.companyId, data.companyId!)
+      ),
     });
     if (!parent) {
-      throw new Error("Parent account not found");
+      throw new AccountError("Parent account not found");
     }
   }
 
-  // Validate unique code for this user
+  // Validate unique code for this company
   const existing = await db.query.userAccounts.findFirst({
-    where: eq(userAccounts.code, data.code) && eq(userAccounts.userId, data.userId),
+    where: and(
+      eq(userAccounts.code, data.code),
+      eq(userAccounts.companyId, data.companyId!)
+    ),
   });
   if (existing) {
-    throw new Error("Account code already exists for this user");
+    throw new AccountError("Account code already exists for this company");
   }
 
   const [account] = await db.insert(userAccounts).values(data).returning();
   return account;
 }
 
-// Function to copy master accounts to user accounts when a new user registers
-export async function copyMasterAccountsToUser(userId: number): Promise<void> {
-  const masterAccountsList = await getMasterAccountHierarchy();
+// Start a new company's chart of accounts as a copy of the master chart,
+// inside the transaction that creates the company when one is given
+export async function copyMasterAccountsToCompany(
+  userId: number,
+  companyId: number,
+  tx: Tx | typeof db = db
+): Promise<void> {
+  // Every account, not just the top of the hierarchy, so sub-accounts are copied too
+  const masterAccountsList = await tx.query.masterAccounts.findMany({
+    where: eq(masterAccounts.active, true),
+    orderBy: [masterAccounts.code],
+  });
   
   // Create a map to store old ID to new ID mappings for updating parent relationships
   const idMap = new Map<number, number>();
   
   // First pass: Create all accounts without parent relationships
   for (const masterAccount of masterAccountsList) {
-    const [userAccount] = await db.insert(userAccounts)
+    const [userAccount] = await tx.insert(userAccounts)
       .values({
         userId,
+        companyId,
         masterAccountId: masterAccount.id,
         code: masterAccount.code,
         name: masterAccount.name,
@@ -139,7 +166,7 @@ export async function copyMasterAccountsToUser(userId: number): Promise<void> {
       const newAccountId = idMap.get(masterAccount.id);
       
       if (newParentId && newAccountId) {
-        await db.update(userAccounts)
+        await tx.update(userAccounts)
           .set({ parentId: newParentId })
           .where(eq(userAccounts.id, newAccountId));
       }
@@ -147,26 +174,52 @@ export async function copyMasterAccountsToUser(userId: number): Promise<void> {
   }
 }
 
+// Returns undefined when the account is not the company's
 export async function updateUserAccount(
-  userId: number,
+  companyId: number,
   accountId: number,
   data: Partial<InsertUserAccount>
-): Promise<UserAccount> {
-  // Check if account exists and belongs to user
+): Promise<UserAccount | undefined> {
+  // Check if account exists and belongs to the company
   const existing = await db.query.userAccounts.findFirst({
-    where: eq(userAccounts.id, accountId) && eq(userAccounts.userId, userId),
+    where: and(
+      eq(userAccounts.id, accountId),
+      eq(userAccounts.companyId, companyId)
+    ),
   });
   if (!existing) {
-    throw new Error("Account not found or access denied");
+    return undefined;
+  }
+
+  // The new parent must be in the same chart and must not sit beneath the account itself
+  if (data.parentId) {
+    const chart = await db.query.userAccounts.findMany({
+      where: eq(userAccounts.companyId, companyId),
+      columns: { id: true, parentId: true },
+    });
+    const parentOf = new Map(chart.map((account) => [account.id, account.parentId]));
+    if (!parentOf.has(data.parentId)) {
+      throw new AccountError("Parent account not found");
+    }
+    const seen = new Set<number>();
+    for (let id: number | null | undefined = data.parentId; id && !seen.has(id); id = parentOf.get(id)) {
+      seen.add(id);
+      if (id === accountId) {
+        throw new AccountError("An account cannot be placed under itself or one of its sub-accounts");
+      }
+    }
   }
 
   // Validate code uniqueness if being updated
   if (data.code && data.code !== existing.code) {
     const codeExists = await db.query.userAccounts.findFirst({
-      where: eq(userAccounts.code, data.code) && eq(userAccounts.userId, userId),
+      where: and(
+        eq(userAccounts.code, data.code),
+        eq(userAccounts.companyId, companyId)
+      ),
     });
     if (codeExists) {
-      throw new Error("Account code already exists for this user");
+      throw new AccountError("Account code already exists for this company");
     }
   }
 
@@ -174,6 +227,9 @@ export async function updateUserAccount(
     .update(userAccounts)
     .set({
       ...data,
+      // Accounts cannot be moved to another user or company
+      userId: existing.userId,
+      companyId: existing.companyId,
       updatedAt: new Date(),
     })
     .where(eq(userAccounts.id, accountId))
@@ -182,13 +238,17 @@ export async function updateUserAccount(
   return account;
 }
 
-export async function deleteUserAccount(userId: number, accountId: number): Promise<void> {
-  // Check if account exists and belongs to user
+// Returns false when the account is not the company's
+export async function deleteUserAccount(companyId: number, accountId: number): Promise<boolean> {
+  // Check if account exists and belongs to the company
   const existing = await db.query.userAccounts.findFirst({
-    where: eq(userAccounts.id, accountId) && eq(userAccounts.userId, userId),
+    where: and(
+      eq(userAccounts.id, accountId),
+      eq(userAccounts.companyId, companyId)
+    ),
   });
   if (!existing) {
-    throw new Error("Account not found or access denied");
+    return false;
   }
 
   // Check for child accounts
@@ -196,7 +256,7 @@ export async function deleteUserAccount(userId: number, accountId: number): Prom
     where: eq(userAccounts.parentId, accountId),
   });
   if (children.length > 0) {
-    throw new Error("Cannot delete account with child accounts");
+    throw new AccountError("Cannot delete account with child accounts");
   }
 
   // Soft delete
@@ -207,4 +267,5 @@ export async function deleteUserAccount(userId: number, accountId: number): Prom
       updatedAt: new Date(),
     })
     .where(eq(userAccounts.id, accountId));
+  return true;
 }
@@ -0,0 +1,138 @@
+import { db } from "@db";
+import { eq, and, asc, ne } from "drizzle-orm";
+import {
+  bankAccounts,
+  importBatches,
+  userAccounts,
+  type BankAccount,
+  type InsertBankAccount
+} from "@db/schema";
+import { moveBankLines } from "./journals";
+
+export { type BankAccount };
+
+export class BankAccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BankAccountError';
+  }
+}
+
+export const bankAccountTypes = ["cheque", "savings", "credit-card", "money-market"];
+
+export type BankAccountInput = Omit<InsertBankAccount, "id" | "companyId" | "createdAt" | "updatedAt">;
+
+export type BankAccountWithLedger = BankAccount & {
+  ledgerAccount: { id: number; code: string; name: string; type: string };
+};
+
+const ledgerAccountColumns = { id: true, code: true, name: true, type: true } as const;
+
+export async function listBankAccounts(companyId: number): Promise<BankAccountWithLedger[]> {
+  return db.query.bankAccounts.findMany({
+    where: eq(bankAccounts.companyId, companyId),
+    orderBy: [asc(bankAccounts.name), asc(bankAccounts.id)],
+    with: { ledgerAccount: { columns: ledgerAccountColumns } },
+  });
+}
+
+export async function getBankAccount(companyId: number, bankAccountId: number): Promise<BankAccountWithLedger | undefined> {
+  return db.query.bankAccounts.findFirst({
+    where: and(
+      eq(bankAccounts.id, bankAccountId),
+      eq(bankAccounts.companyId, companyId)
+    ),
+    with: { ledgerAccount: { columns: ledgerAccountColumns } },
+  });
+}
+
+// The ledger account must be one of the company's own balance sheet accounts,
+// and each account number is only registered once per company
+async function validateBankAccount(
+  companyId: number,
+  data: Partial<BankAccountInput>,
+  bankAccountId?: number
+): Promise<void> {
+  if (data.type !== undefined && !bankAccountTypes.includes(data.type)) {
+    throw new BankAccountError(`Account type must be one of: ${bankAccountTypes.join(", ")}`);
+  }
+
+  if (data.ledgerAccountId !== undefined) {
+    const ledgerAccount = await db.query.userAccounts.findFirst({
+      where: and(
+        eq(userAccounts.id, data.ledgerAccountId),
+        eq(userAccounts.companyId, companyId)
+      ),
+    });
+    if (!ledgerAccount) {
+      throw new BankAccountError("Ledger account not found in your chart of accounts");
+    }
+    if (ledgerAccount.type !== "asset" && ledgerAccount.type !== "liability") {
+      throw new BankAccountError("The ledger account must be an asset or liability account");
+    }
+  }
+
+  if (data.accountNumber !== undefined) {
+    const existing = await db.query.bankAccounts.findFirst({
+      where: and(
+        eq(bankAccounts.companyId, companyId),
+        eq(bankAccounts.accountNumber, data.accountNumber),
+        bankAccountId !== undefined ? ne(bankAccounts.id, bankAccountId) : undefined
+      ),
+    });
+    if (existing) {
+      throw new BankAccountError(`Account number ${data.accountNumber} is already set up as ${existing.name}`);
+    }
+  }
+}
+
+export async function createBankAccount(companyId: number, data: BankAccountInput): Promise<BankAccountWithLedger> {
+  await validateBankAccount(companyId, data);
+  const [bankAccount] = await db.insert(bankAccounts)
+    .values({ ...data, companyId })
+    .returning();
+  return (await getBankAccount(companyId, bankAccount.id))!;
+}
+
+export async function updateBankAccount(
+  companyId: number,
+  bankAccountId: number,
+  data: Partial<BankAccountInput>
+): Promise<BankAccountWithLedger | undefined> {
+  await validateBankAccount(companyId, data, bankAccountId);
+  const bankAccount = await db.transaction(async (tx) => {
+    const [bankAccount] = await tx.update(bankAccounts)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(
+        eq(bankAccounts.id, bankAccountId),
+        eq(bankAccounts.companyId, companyId)
+      ))
+      .returning();
+    // Statements already imported move with the account
+    if (bankAccount && data.ledgerAccountId !== undefined) {
+      await moveBankLines(tx, bankAccount.id, bankAccount.ledgerAccountId);
+    }
+    return bankAccount;
+  });
+  return bankAccount && getBankAccount(companyId, bankAccount.id);
+}
+
+// Statements keep their bank account, so one with imports can only be
+// deactivated
+export async function deleteBankAccount(companyId: number, bankAccountId: number): Promise<boolean> {
+  const bankAccount = await getBankAccount(companyId, bankAccountId);
+  if (!bankAccount) {
+    return false;
+  }
+
+  const batch = await db.query.importBatches.findFirst({
+    where: eq(importBatches.bankAccountId, bankAccountId),
+    columns: { id: true },
+  });
+  if (batch) {
+    throw new BankAccountError(`${bankAccount.name} has imported statements; deactivate it instead`);
+  }
+
+  await db.delete(bankAccounts).where(eq(bankAccounts.id, bankAccountId));
+  return true;
+}
@@ -0,0 +1,503 @@
+import { createHash } from "crypto";
+import { db } from "@db";
+import { eq, and, desc, sql, isNotNull, inArray, lte, gte, ne } from "drizzle-orm";
+import {
+  importBatches,
+  transactions,
+  historicalMatches,
+  type ImportBatch,
+  type Transaction
+} from "@db/schema";
+import {
+  ImportValidationError,
+  readStatementGrid,
+  sheetFromGrid,
+  headerSignature,
+  detectBankColumnMap,
+  normaliseBankStatement,
+  defaultImportOptions,
+  type BankColumnMap,
+  type BankStatementRow,
+  type ImportOptions,
+  type ValidationError
+} from "./imports";
+import { matchImportProfile, getImportProfile, profileOptions } from "./importProfiles";
+import { getBankAccount } from "./bankAccounts";
+import { postTransactionJournals } from "./journals";
+import { isConfirmed } from "./transactions";
+import type { CompanyScope } from "./companies";
+
+export { type ImportBatch };
+
+type UploadedFile = { originalname: string; buffer: Buffer };
+
+export type RowStatus = "new" | "duplicate";
+
+export interface PreviewRow extends BankStatementRow {
+  fingerprint: string;
+  status: RowStatus;
+  existingTransactionId?: number;
+}
+
+export interface ImportSession {
+  batch: Omit<ImportBatch, "stagedData">;
+  headers: string[];
+  headerSignature: string;
+  columnMap: BankColumnMap;
+  options: ImportOptions;
+  // Date format in use, detected from the date column unless the options fix one
+  dateFormat: string | null;
+  // First raw rows of the file, to help the user confirm the mapping
+  sample: Record<string, any>[];
+  errors: ValidationError[];
+  rows: PreviewRow[];
+  // A previous upload of the exact same file, if any
+  duplicateOf: Omit<ImportBatch, "stagedData"> | null;
+  // Earlier statements for the same bank account whose period overlaps this one
+  overlappingBatches: Omit<ImportBatch, "stagedData">[];
+  summary: {
+    total: number;
+    new: number;
+    duplicate: number;
+    invalid: number;
+  };
+}
+
+export function hashFile(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+// Stable identity of a statement line, independent of which file it arrived in
+export function fingerprintRow(row: BankStatementRow): string {
+  const parts = [
+    isNaN(row.date.getTime()) ? "" : row.date.toISOString().slice(0, 10),
+    row.amount.toFixed(2),
+    row.description.toLowerCase().replace(/\s+/g, " ").trim(),
+    (row.reference ?? "").toLowerCase().trim(),
+    row.balance === undefined || row.balance === null ? "" : row.balance.toFixed(2),
+  ];
+  return createHash("sha256").update(parts.join("|")).digest("hex");
+}
+
+// Work out the first and last transaction date covered by a statement
+function getPeriod(rows: BankStatementRow[]): { periodStart: Date | null; periodEnd: Date | null } {
+  const times = rows
+    .map(row => row.date.getTime())
+    .filter(time => !isNaN(time));
+
+  if (times.length === 0) {
+    return { periodStart: null, periodEnd: null };
+  }
+
+  return {
+    periodStart: new Date(Math.min(...times)),
+    periodEnd: new Date(Math.max(...times)),
+  };
+}
+
+// Statements can only be attached to one of the company's own bank accounts
+async function checkBankAccount(scope: CompanyScope, bankAccountId: number): Promise<void> {
+  if (!Number.isInteger(bankAccountId)) {
+    throw new ImportValidationError('BANK_ACCOUNT_REQUIRED', 'Choose the bank account this statement belongs to');
+  }
+  if (!await getBankAccount(scope.companyId, bankAccountId)) {
+    throw new ImportValidationError('BANK_ACCOUNT_NOT_FOUND', 'Bank account not found');
+  }
+}
+
+// Classify each row as new or already imported. Identical lines inside one
+// statement are matched one-for-one, so a repeated purchase is only flagged
+// as often as it already exists.
+async function classifyRows(scope: CompanyScope, rows: BankStatementRow[]): Promise<PreviewRow[]> {
+  const fingerprints = rows.map(fingerprintRow);
+  const existing = fingerprints.length > 0
+    ? await db.select({ id: transactions.id, fingerprint: transactions.fingerprint })
+        .from(transactions)
+        .innerJoin(importBatches, eq(transactions.importBatchId, importBatches.id))
+        .where(and(
+          eq(importBatches.companyId, scope.companyId),
+          inArray(transactions.fingerprint, Array.from(new Set(fingerprints)))
+        ))
+    : [];
+
+  const available = new Map<string, number[]>();
+  for (const { id, fingerprint } of existing) {
+    if (!fingerprint) continue;
+    available.set(fingerprint, [...(available.get(fingerprint) ?? []), id]);
+  }
+
+  return rows.map((row, index) => {
+    const fingerprint = fingerprints[index];
+    const existingTransactionId = available.get(fingerprint)?.shift();
+    return {
+      ...row,
+      fingerprint,
+      status: existingTransactionId === undefined ? "new" : "duplicate",
+      existingTransactionId,
+    };
+  });
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function insertStatementRows(tx: Tx, batch: ImportBatch, rows: PreviewRow[]): Promise<Transaction[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const inserted = await tx.insert(transactions)
+    .values(rows.map(row => ({
+      companyId: batch.companyId,
+      importBatchId: batch.id,
+      date: row.date,
+      description: row.description,
+      amount: row.amount.toFixed(2),
+      reference: row.reference || null,
+      fingerprint: row.fingerprint,
+    })))
+    .returning();
+  await postTransactionJournals(tx, inserted);
+  return inserted;
+}
+
+export async function createBankStatementBatch(
+  scope: CompanyScope,
+  file: UploadedFile,
+  statementRows: BankStatementRow[],
+  options: { bankAccountId: number; skipDuplicates?: boolean }
+): Promise<ImportBatch & { transactions: Transaction[] }> {
+  await checkBankAccount(scope, options.bankAccountId);
+  const classified = await classifyRows(scope, statementRows);
+  const rows = options.skipDuplicates
+    ? classified.filter(row => row.status === "new")
+    : classified;
+
+  return db.transaction(async (tx) => {
+    const [batch] = await tx.insert(importBatches)
+      .values({
+        userId: scope.userId,
+        companyId: scope.companyId,
+        bankAccountId: options.bankAccountId,
+        type: "bank-statement",
+        fileName: file.originalname,
+        fileHash: hashFile(file.buffer),
+        rowCount: rows.length,
+        ...getPeriod(rows),
+        status: "completed",
+      })
+      .returning();
+
+    const inserted = await insertStatementRows(tx, batch, rows);
+    return { ...batch, transactions: inserted };
+  });
+}
+
+// Parse the staged sheet with the batch's current mapping and compare it
+// against what the company has already imported
+async function buildImportSession(scope: CompanyScope, batch: ImportBatch): Promise<ImportSession> {
+  const { stagedData, ...batchInfo } = batch;
+  const options = { ...defaultImportOptions, ...(batch.options as Partial<ImportOptions> | null) };
+  const sheet = sheetFromGrid((stagedData as { grid: any[][] }).grid, options.skipRows);
+  const columnMap = (batch.columnMap ?? {}) as BankColumnMap;
+  const { rows: statementRows, errors, dateFormat } = normaliseBankStatement(sheet, columnMap, options);
+  const rows = await classifyRows(scope, statementRows);
+  const { periodStart, periodEnd } = getPeriod(statementRows);
+
+  const duplicateOf = await db.query.importBatches.findFirst({
+    where: and(
+      eq(importBatches.companyId, scope.companyId),
+      eq(importBatches.fileHash, batch.fileHash),
+      eq(importBatches.status, "completed"),
+      ne(importBatches.id, batch.id)
+    ),
+    columns: { stagedData: false },
+  });
+
+  const overlappingBatches = periodStart && periodEnd
+    ? await db.query.importBatches.findMany({
+        where: and(
+          eq(importBatches.companyId, scope.companyId),
+          batch.bankAccountId ? eq(importBatches.bankAccountId, batch.bankAccountId) : undefined,
+          eq(importBatches.type, "bank-statement"),
+          eq(importBatches.status, "completed"),
+          lte(importBatches.periodStart, periodEnd),
+          gte(importBatches.periodEnd, periodStart)
+        ),
+        columns: { stagedData: false },
+        orderBy: desc(importBatches.createdAt),
+      })
+    : [];
+
+  const duplicateCount = rows.filter(row => row.status === "duplicate").length;
+  const invalidRows = new Set(errors.map(error => error.details?.row).filter(Boolean));
+
+  return {
+    batch: { ...batchInfo, periodStart, periodEnd },
+    headers: sheet.headers,
+    headerSignature: headerSignature(sheet.headers),
+    columnMap,
+    options,
+    dateFormat,
+    sample: sheet.rows.slice(0, 10).map(({ values }) => values),
+    errors,
+    rows,
+    duplicateOf: duplicateOf ?? null,
+    overlappingBatches,
+    summary: {
+      total: sheet.rows.length,
+      new: rows.length - duplicateCount,
+      duplicate: duplicateCount,
+      invalid: invalidRows.size,
+    },
+  };
+}
+
+export async function findPendingBatch(
+  scope: CompanyScope,
+  batchId: number,
+  type: string = "bank-statement"
+): Promise<ImportBatch | undefined> {
+  return db.query.importBatches.findFirst({
+    where: and(
+      eq(importBatches.id, batchId),
+      eq(importBatches.companyId, scope.companyId),
+      eq(importBatches.type, type),
+      eq(importBatches.status, "pending")
+    ),
+  });
+}
+
+// Stage an uploaded statement without importing it. The column mapping comes
+// from the user's matching import profile, or is guessed from the headers.
+// The bank account can be given now or chosen before committing.
+export async function createImportSession(
+  scope: CompanyScope,
+  file: UploadedFile,
+  bankAccountId?: number
+): Promise<ImportSession> {
+  if (bankAccountId !== undefined) {
+    await checkBankAccount(scope, bankAccountId);
+  }
+  const grid = readStatementGrid(file);
+  const match = await matchImportProfile(scope.userId, grid);
+  const sheet = match?.sheet ?? sheetFromGrid(grid);
+
+  const [batch] = await db.insert(importBatches)
+    .values({
+      userId: scope.userId,
+      companyId: scope.companyId,
+      bankAccountId: bankAccountId ?? null,
+      type: "bank-statement",
+      fileName: file.originalname,
+      fileHash: hashFile(file.buffer),
+      rowCount: sheet.rows.length,
+      status: "pending",
+      profileId: match?.profile.id ?? null,
+      columnMap: match ? match.profile.columnMap : detectBankColumnMap(sheet.headers),
+      options: match ? profileOptions(match.profile) : defaultImportOptions,
+      stagedData: { grid },
+    })
+    .returning();
+
+  return buildImportSession(scope, batch);
+}
+
+export async function getImportSession(scope: CompanyScope, batchId: number): Promise<ImportSession | undefined> {
+  const batch = await findPendingBatch(scope, batchId);
+  return batch && buildImportSession(scope, batch);
+}
+
+// Change how a staged file is read: either apply a saved profile, or set the
+// mapping and options directly (which detaches the session from its profile).
+// The bank account can be changed on its own.
+export async function updateImportSession(
+  scope: CompanyScope,
+  batchId: number,
+  changes: {
+    bankAccountId?: number;
+    profileId?: number;
+    columnMap?: BankColumnMap;
+    options?: Partial<ImportOptions>;
+  }
+): Promise<ImportSession | undefined> {
+  const batch = await findPendingBatch(scope, batchId);
+  if (!batch) {
+    return undefined;
+  }
+  let update: Partial<ImportBatch> = {};
+  if (changes.bankAccountId !== undefined) {
+    await checkBankAccount(scope, changes.bankAccountId);
+    update.bankAccountId = changes.bankAccountId;
+  }
+
+  if (changes.profileId) {
+    const profile = await getImportProfile(scope.userId, changes.profileId);
+    if (!profile) {
+      throw new ImportValidationError('PROFILE_NOT_FOUND', 'Import profile not found');
+    }
+    update = {
+      ...update,
+      profileId: profile.id,
+      columnMap: profile.columnMap,
+      options: profileOptions(profile),
+    };
+  } else if (changes.columnMap || changes.options) {
+    const options = { ...defaultImportOptions, ...(batch.options as Partial<ImportOptions> | null) };
+    update = {
+      ...update,
+      profileId: null,
+      columnMap: changes.columnMap ?? batch.columnMap,
+      options: { ...options, ...changes.options },
+    };
+  }
+
+  const [updated] = await db.update(importBatches)
+    .set({ ...update, updatedAt: new Date() })
+    .where(eq(importBatches.id, batchId))
+    .returning();
+
+  return buildImportSession(scope, updated);
+}
+
+// Import the staged rows using the confirmed mapping. Refuses while any row
+// fails validation so a statement is never half imported.
+export async function commitImportSession(
+  scope: CompanyScope,
+  batchId: number,
+  options: { skipDuplicates?: boolean } = {}
+): Promise<(ImportBatch & { transactions: Transaction[] }) | undefined> {
+  const batch = await findPendingBatch(scope, batchId);
+  if (!batch) {
+    return undefined;
+  }
+
+  if (!batch.bankAccountId) {
+    throw new ImportValidationError(
+      'BANK_ACCOUNT_REQUIRED',
+      'Choose the bank account this statement belongs to before importing'
+    );
+  }
+
+  const session = await buildImportSession(scope, batch);
+  if (session.errors.length > 0) {
+    const [first] = session.errors;
+    throw new ImportValidationError(
+      first.code,
+      `${session.errors.length} validation error(s) must be fixed before importing. ${first.message}`,
+      first.details
+    );
+  }
+
+  const rows = options.skipDuplicates
+    ? session.rows.filter(row => row.status === "new")
+    : session.rows;
+
+  return db.transaction(async (tx) => {
+    const inserted = await insertStatementRows(tx, batch, rows);
+
+    const [completed] = await tx.update(importBatches)
+      .set({
+        status: "completed",
+        rowCount: rows.length,
+        ...getPeriod(rows),
+        stagedData: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(importBatches.id, batch.id))
+      .returning();
+
+    return { ...completed, transactions: inserted };
+  });
+}
+
+export async function listImportBatches(
+  scope: CompanyScope,
+  filters: { bankAccountId?: number } = {}
+): Promise<Omit<ImportBatch, "stagedData">[]> {
+  return db.query.importBatches.findMany({
+    where: and(
+      eq(importBatches.companyId, scope.companyId),
+      filters.bankAccountId !== undefined ? eq(importBatches.bankAccountId, filters.bankAccountId) : undefined
+    ),
+    columns: { stagedData: false },
+    with: { bankAccount: { columns: { id: true, name: true } } },
+    orderBy: desc(importBatches.createdAt),
+  });
+}
+
+export async function getImportBatch(scope: CompanyScope, batchId: number) {
+  return db.query.importBatches.findFirst({
+    where: and(
+      eq(importBatches.id, batchId),
+      eq(importBatches.companyId, scope.companyId)
+    ),
+    columns: { stagedData: false },
+    with: {
+      transactions: {
+        orderBy: [transactions.date],
+      },
+    },
+  });
+}
+
+// Removes a batch together with its transactions and the learning they fed
+// into historicalMatches. Returns false when the batch does not belong to the company.
+export async function deleteImportBatch(scope: CompanyScope, batchId: number): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const batch = await tx.query.importBatches.findFirst({
+      where: and(
+        eq(importBatches.id, batchId),
+        eq(importBatches.companyId, scope.companyId)
+      ),
+      columns: { id: true },
+    });
+    if (!batch) {
+      return false;
+    }
+
+    const batchTransactions = await tx.query.transactions.findMany({
+      where: eq(transactions.importBatchId, batchId),
+      with: { splits: true },
+    });
+
+    // Each confirmed explained transaction, or explained part of a split,
+    // contributed one use of its historical match
+    const usage = new Map<string, { description: string; accountId: number; count: number }>();
+    const use = (description: string, accountId: number) => {
+      const key = `${accountId}:${description}`;
+      const entry = usage.get(key) ?? { description, accountId, count: 0 };
+      entry.count++;
+      usage.set(key, entry);
+    };
+    for (const transaction of batchTransactions) {
+      if (!isConfirmed(transaction)) {
+        continue;
+      }
+      if (transaction.splits.length > 0) {
+        transaction.splits
+          .filter(split => split.explanation ?? transaction.explanation)
+          .forEach(split => use(transaction.description, split.accountId));
+      } else if (transaction.explanation && transaction.accountId) {
+        use(transaction.description, transaction.accountId);
+      }
+    }
+
+    for (const { description, accountId, count } of Array.from(usage.values())) {
+      const matchWhere = and(
+        eq(historicalMatches.companyId, scope.companyId),
+        eq(historicalMatches.transactionDescription, description),
+        eq(historicalMatches.accountId, accountId)
+      );
+      await tx.update(historicalMatches)
+        .set({ frequency: sql`${historicalMatches.frequency} - ${count}` })
+        .where(matchWhere);
+      await tx.delete(historicalMatches)
+        .where(and(matchWhere, sql`${historicalMatches.frequency} <= 0`));
+    }
+
+    await tx.delete(transactions).where(eq(transactions.importBatchId, batchId));
+    await tx.delete(importBatches).where(eq(importBatches.id, batchId));
+
+    return true;
+  });
+}
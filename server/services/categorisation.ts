@@ -0,0 +1,115 @@
+import { db } from "@db";
+import { eq, and, asc, inArray } from "drizzle-orm";
+import { importBatches, transactions } from "@db/schema";
+import { generatePredictions } from "./predictions";
+import { getRule, applyRule } from "./rules";
+import { applyPredictions, isUnexplained, type PredictedAllocation } from "./transactions";
+
+export class CategorisationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CategorisationError';
+  }
+}
+
+// Predictions at least this confident are applied without asking
+export const DEFAULT_AUTO_CATEGORISE_THRESHOLD = 0.8;
+
+export interface CategorisationSummary {
+  batchId: number;
+  threshold: number;
+  total: number; // unexplained transactions looked at
+  autoAllocated: number;
+  disputed: number; // allocated, but another predictor was as sure of a different account
+  queued: number; // left for the user to review
+}
+
+// Run the predictions over every unexplained transaction in a statement. The
+// best prediction is applied when it reaches the threshold; everything else is
+// queued for review, as are allocations another predictor disputes. The whole
+// pass is one database transaction, so a failure leaves the statement as it
+// was. Returns undefined when the batch is not the company's.
+export async function categoriseImportBatch(
+  companyId: number,
+  batchId: number,
+  threshold = DEFAULT_AUTO_CATEGORISE_THRESHOLD
+): Promise<CategorisationSummary | undefined> {
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new CategorisationError("threshold must be between 0 and 1, such as 0.8");
+  }
+
+  const batch = await db.query.importBatches.findFirst({
+    where: and(
+      eq(importBatches.id, batchId),
+      eq(importBatches.companyId, companyId)
+    ),
+    columns: { id: true, type: true },
+  });
+  if (!batch) {
+    return undefined;
+  }
+  if (batch.type !== "bank-statement") {
+    throw new CategorisationError("Only bank statements can be categorised");
+  }
+
+  const candidates = await db.query.transactions.findMany({
+    where: and(
+      eq(transactions.importBatchId, batch.id),
+      eq(transactions.companyId, companyId),
+      isUnexplained()
+    ),
+    orderBy: [asc(transactions.date), asc(transactions.id)],
+  });
+
+  const allocations: PredictedAllocation[] = [];
+  const queued: number[] = [];
+  let autoAllocated = 0;
+  let disputed = 0;
+  await db.transaction(async (tx) => {
+    for (const transaction of candidates) {
+      const predictions = await generatePredictions(companyId, transaction);
+      const [best] = predictions;
+      if (!best || best.confidence < threshold) {
+        queued.push(transaction.id);
+        continue;
+      }
+      if (predictions.some(other =>
+        other.type !== best.type && other.accountId !== best.accountId && other.confidence >= threshold
+      )) {
+        queued.push(transaction.id);
+        disputed++;
+      }
+
+      // A rule may split, so it is applied as the rule says
+      const rule = best.ruleId !== undefined ? await getRule(companyId, best.ruleId) : undefined;
+      if (rule) {
+        await applyRule(companyId, rule, transaction, { reviewStatus: "auto" }, tx);
+      } else {
+        allocations.push({
+          transaction,
+          explanation: best.explanation,
+          accountId: best.accountId,
+          predictedBy: best.type,
+          confidence: best.confidence,
+        });
+      }
+      autoAllocated++;
+    }
+
+    await applyPredictions(companyId, allocations, tx);
+    if (queued.length > 0) {
+      await tx.update(transactions)
+        .set({ reviewStatus: "pending", updatedAt: new Date() })
+        .where(inArray(transactions.id, queued));
+    }
+  });
+
+  return {
+    batchId: batch.id,
+    threshold,
+    total: candidates.length,
+    autoAllocated,
+    disputed,
+    queued: queued.length - disputed,
+  };
+}
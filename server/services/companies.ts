@@ -0,0 +1,139 @@
+import { db } from "@db";
+import { eq, and, asc, inArray, isNull, sql } from "drizzle-orm";
+import {
+  companies,
+  historicalMatches,
+  importBatches,
+  openingBalances,
+  patterns,
+  transactions,
+  userAccounts,
+  type Company
+} from "@db/schema";
+import { copyMasterAccountsToCompany } from "./accounts";
+
+export { type Company };
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Who is acting and in which company. Reads only need the company; rows that
+// are created also record the user who created them.
+export interface CompanyScope {
+  userId: number;
+  companyId: number;
+}
+
+export async function listCompanies(userId: number): Promise<Company[]> {
+  return db.query.companies.findMany({
+    where: eq(companies.ownerId, userId),
+    orderBy: [asc(companies.name), asc(companies.id)],
+  });
+}
+
+export async function getCompany(userId: number, companyId: number): Promise<Company | undefined> {
+  return db.query.companies.findFirst({
+    where: and(
+      eq(companies.id, companyId),
+      eq(companies.ownerId, userId)
+    ),
+  });
+}
+
+// A new company starts with its own copy of the master chart of accounts
+export async function createCompany(userId: number, data: { name: string }): Promise<Company> {
+  return db.transaction(async (tx) => {
+    const [company] = await tx.insert(companies)
+      .values({ ownerId: userId, name: data.name })
+      .returning();
+    await copyMasterAccountsToCompany(userId, company.id, tx);
+    return company;
+  });
+}
+
+export async function updateCompany(
+  userId: number,
+  companyId: number,
+  data: { name: string }
+): Promise<Company | undefined> {
+  const [company] = await db.update(companies)
+    .set({ name: data.name, updatedAt: new Date() })
+    .where(and(
+      eq(companies.id, companyId),
+      eq(companies.ownerId, userId)
+    ))
+    .returning();
+  return company;
+}
+
+async function firstCompany(userId: number, tx: Tx | typeof db = db): Promise<Company | undefined> {
+  const [first] = await tx.query.companies.findMany({
+    where: eq(companies.ownerId, userId),
+    orderBy: [asc(companies.id)],
+    limit: 1,
+  });
+  return first;
+}
+
+// The user's first company takes over everything they set up before
+// companies existed. Only a user with no accounts at all is given a fresh
+// copy of the master chart. Concurrent first requests queue on a lock held
+// for the user, and all but the first find the company already made.
+async function createFirstCompany(userId: number): Promise<Company> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(${userId})`);
+    const existing = await firstCompany(userId, tx);
+    if (existing) {
+      return existing;
+    }
+
+    const [company] = await tx.insert(companies)
+      .values({ ownerId: userId, name: "My Company" })
+      .returning();
+
+    const adopted = await tx.update(userAccounts)
+      .set({ companyId: company.id })
+      .where(and(eq(userAccounts.userId, userId), isNull(userAccounts.companyId)))
+      .returning({ id: userAccounts.id });
+    const batches = await tx.update(importBatches)
+      .set({ companyId: company.id })
+      .where(and(eq(importBatches.userId, userId), isNull(importBatches.companyId)))
+      .returning({ id: importBatches.id });
+    if (batches.length > 0) {
+      await tx.update(transactions)
+        .set({ companyId: company.id })
+        .where(inArray(transactions.importBatchId, batches.map(({ id }) => id)));
+    }
+    await tx.update(openingBalances)
+      .set({ companyId: company.id })
+      .where(and(eq(openingBalances.userId, userId), isNull(openingBalances.companyId)));
+    // Patterns and historical matches never recorded a user; they follow the
+    // accounts they post to
+    if (adopted.length > 0) {
+      const accountIds = adopted.map(({ id }) => id);
+      await tx.update(patterns)
+        .set({ companyId: company.id })
+        .where(and(inArray(patterns.accountId, accountIds), isNull(patterns.companyId)));
+      await tx.update(historicalMatches)
+        .set({ companyId: company.id })
+        .where(and(inArray(historicalMatches.accountId, accountIds), isNull(historicalMatches.companyId)));
+    }
+
+    if (adopted.length === 0) {
+      await copyMasterAccountsToCompany(userId, company.id, tx);
+    }
+    return company;
+  });
+}
+
+// The company the user is working in: the one chosen in their session if
+// they still own it, otherwise their first company, created on first use
+export async function resolveActiveCompany(userId: number, companyId?: number): Promise<Company> {
+  if (companyId) {
+    const company = await getCompany(userId, companyId);
+    if (company) {
+      return company;
+    }
+  }
+
+  return (await firstCompany(userId)) ?? createFirstCompany(userId);
+}
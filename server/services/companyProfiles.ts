@@ -0,0 +1,123 @@
+import { db } from "@db";
+import { eq } from "drizzle-orm";
+import {
+  companyProfiles,
+  type CompanyProfile,
+  type InsertCompanyProfile
+} from "@db/schema";
+
+export class CompanyProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompanyProfileError';
+  }
+}
+
+// The profile as the API returns it; the logo is served on its own
+export type CompanyProfileDetails = Omit<CompanyProfile, "logo" | "logoMimeType"> & { hasLogo: boolean };
+
+export type CompanyProfileInput = Omit<
+  InsertCompanyProfile,
+  "id" | "companyId" | "logo" | "logoMimeType" | "createdAt" | "updatedAt"
+>;
+
+export const logoMimeTypes = ["image/png", "image/jpeg"];
+export const maxLogoBytes = 1024 * 1024;
+
+// CIPC numbers are year of registration / sequence / entity type, e.g.
+// 2015/123456/07 for a private company
+export function isValidRegistrationNumber(value: string): boolean {
+  const match = /^(\d{4})\/\d{6}\/\d{2}$/.exec(value);
+  if (!match) return false;
+  const year = Number(match[1]);
+  return year >= 1900 && year <= new Date().getFullYear();
+}
+
+// SARS income tax reference numbers are ten digits starting with 0, 1, 2, 3
+// or 9 (companies), the last being a Luhn check digit
+export function isValidIncomeTaxNumber(value: string): boolean {
+  if (!/^[01239]\d{9}$/.test(value)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    let digit = Number(value[value.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// VAT vendor numbers are ten digits starting with 4
+export function isValidVatNumber(value: string): boolean {
+  return /^4\d{9}$/.test(value);
+}
+
+function toDetails({ logo, logoMimeType, ...profile }: CompanyProfile): CompanyProfileDetails {
+  return { ...profile, hasLogo: logo !== null };
+}
+
+async function findProfile(companyId: number): Promise<CompanyProfile | undefined> {
+  return db.query.companyProfiles.findFirst({
+    where: eq(companyProfiles.companyId, companyId),
+  });
+}
+
+export async function getCompanyProfile(companyId: number): Promise<CompanyProfileDetails | undefined> {
+  const profile = await findProfile(companyId);
+  return profile && toDetails(profile);
+}
+
+// Create the profile or replace its details; the logo is left as it is
+export async function saveCompanyProfile(companyId: number, data: CompanyProfileInput): Promise<CompanyProfileDetails> {
+  const [profile] = await db.insert(companyProfiles)
+    .values({ ...data, companyId })
+    .onConflictDoUpdate({
+      target: companyProfiles.companyId,
+      set: { ...data, updatedAt: new Date() },
+    })
+    .returning();
+  return toDetails(profile);
+}
+
+export async function deleteCompanyProfile(companyId: number): Promise<boolean> {
+  const deleted = await db.delete(companyProfiles)
+    .where(eq(companyProfiles.companyId, companyId))
+    .returning({ id: companyProfiles.id });
+  return deleted.length > 0;
+}
+
+export async function getCompanyLogo(companyId: number): Promise<{ data: Buffer; mimeType: string } | undefined> {
+  const profile = await findProfile(companyId);
+  if (!profile?.logo || !profile.logoMimeType) return undefined;
+  return { data: Buffer.from(profile.logo, "base64"), mimeType: profile.logoMimeType };
+}
+
+// Returns undefined when there is no profile to attach the logo to
+export async function setCompanyLogo(
+  companyId: number,
+  file: { buffer: Buffer; mimetype: string }
+): Promise<CompanyProfileDetails | undefined> {
+  if (!logoMimeTypes.includes(file.mimetype)) {
+    throw new CompanyProfileError("The logo must be a PNG or JPEG image");
+  }
+  if (file.buffer.length > maxLogoBytes) {
+    throw new CompanyProfileError("The logo must be no larger than 1 MB");
+  }
+
+  const [profile] = await db.update(companyProfiles)
+    .set({ logo: file.buffer.toString("base64"), logoMimeType: file.mimetype, updatedAt: new Date() })
+    .where(eq(companyProfiles.companyId, companyId))
+    .returning();
+  return profile && toDetails(profile);
+}
+
+export async function removeCompanyLogo(companyId: number): Promise<CompanyProfileDetails | undefined> {
+  const [profile] = await db.update(companyProfiles)
+    .set({ logo: null, logoMimeType: null, updatedAt: new Date() })
+    .where(eq(companyProfiles.companyId, companyId))
+    .returning();
+  return profile && toDetails(profile);
+}
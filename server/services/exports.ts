@@ -0,0 +1,485 @@
+import { utils as xlsxUtils, write as writeXLSX } from "xlsx";
+import PDFDocument from "pdfkit";
+import { db } from "@db";
+import { eq } from "drizzle-orm";
+import { companies } from "@db/schema";
+import {
+  getTrialBalance,
+  getIncomeStatement,
+  getBalanceSheet,
+  getGeneralLedger,
+  getUnallocatedTransactions,
+  ReportError,
+  MAX_LEDGER_PAGE_SIZE,
+  type ReportOptions,
+  type GeneralLedgerOptions,
+  type GeneralLedgerEntry,
+  type StatementSection,
+  type TrialBalanceReport,
+  type IncomeStatementReport,
+  type BalanceSheetReport,
+  type GeneralLedgerReport,
+  type UnallocatedTransactionsReport
+} from "./reports";
+import { getCompanyProfile, getCompanyLogo } from "./companyProfiles";
+
+export const exportReports = [
+  "trial-balance",
+  "income-statement",
+  "balance-sheet",
+  "general-ledger",
+  "unallocated",
+] as const;
+export type ExportReport = typeof exportReports[number];
+
+export const exportFormats = ["xlsx", "pdf"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export interface Letterhead {
+  name: string;
+  lines: string[];
+  // PNG or JPEG; only the PDF shows it
+  logo?: Buffer;
+}
+
+type ExportCell = string | number | null;
+
+interface ExportColumn {
+  header: string;
+  // Relative width, scaled to the page in PDFs and used as characters in Excel
+  width: number;
+  amount?: boolean;
+}
+
+interface ExportRow {
+  cells: ExportCell[];
+  style?: "heading" | "subtotal" | "total";
+  indent?: number;
+}
+
+// A report flattened to a single table, ready for either format
+interface ExportDocument {
+  title: string;
+  period: string;
+  fileName: string;
+  columns: ExportColumn[];
+  // Column that carries the account hierarchy indentation
+  indentColumn: number;
+  rows: ExportRow[];
+}
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// Brackets for negatives, as on the report pages
+const AMOUNT_FORMAT = "#,##0.00;(#,##0.00);\"-\"";
+
+function forPeriod(period: { from: string; to: string }): string {
+  return `For the period ${period.from} to ${period.to}`;
+}
+
+function trialBalanceDocument(report: TrialBalanceReport): ExportDocument {
+  return {
+    title: "Trial Balance",
+    period: forPeriod(report.period),
+    fileName: `trial-balance-${report.period.to}`,
+    columns: [
+      { header: "Code", width: 10 },
+      { header: "Account", width: 36 },
+      { header: "Opening", width: 15, amount: true },
+      { header: "Movement", width: 15, amount: true },
+      { header: "Debit", width: 15, amount: true },
+      { header: "Credit", width: 15, amount: true },
+    ],
+    indentColumn: 1,
+    rows: [
+      ...report.lines.map((line): ExportRow => ({
+        cells: [line.code, line.name, line.opening, line.movement, line.debit, line.credit],
+        style: line.hasChildren ? "subtotal" : undefined,
+        indent: line.depth,
+      })),
+      {
+        cells: ["", "Total", report.totals.opening, report.totals.movement, report.totals.debit, report.totals.credit],
+        style: "total",
+      },
+    ],
+  };
+}
+
+function statementDocument(
+  title: string,
+  period: string,
+  fileName: string,
+  report: IncomeStatementReport | BalanceSheetReport,
+  totals: { label: string; amount: number; comparative: number | null }[]
+): ExportDocument {
+  const hasComparative = report.comparativePeriod !== null;
+  const amounts = (amount: number | null, comparative: number | null): ExportCell[] =>
+    hasComparative ? [amount, comparative] : [amount];
+
+  const sectionRows = (section: StatementSection): ExportRow[] => [
+    { cells: [section.title, ...amounts(null, null)], style: "heading" },
+    ...section.lines.map((line): ExportRow => ({
+      cells: [line.code ? `${line.code} ${line.name}` : line.name, ...amounts(line.amount, line.comparative)],
+      style: line.kind === "heading" ? "heading" : line.kind === "subtotal" ? "subtotal" : undefined,
+      indent: line.depth + 1,
+    })),
+    {
+      cells: [`Total ${section.title.toLowerCase()}`, ...amounts(section.total, section.comparativeTotal)],
+      style: "subtotal",
+    },
+  ];
+
+  return {
+    title,
+    period,
+    fileName,
+    columns: [
+      { header: "Account", width: 50 },
+      { header: report.period.name, width: 16, amount: true },
+      ...(report.comparativePeriod
+        ? [{ header: report.comparativePeriod.name, width: 16, amount: true }]
+        : []),
+    ],
+    indentColumn: 0,
+    rows: [
+      ...report.sections.flatMap(sectionRows),
+      ...totals.map((total): ExportRow => ({
+        cells: [total.label, ...amounts(total.amount, total.comparative)],
+        style: "total",
+      })),
+    ],
+  };
+}
+
+function generalLedgerDocument(report: GeneralLedgerReport, entries: GeneralLedgerEntry[]): ExportDocument {
+  return {
+    title: `General Ledger: ${report.account.code} ${report.account.name}`,
+    period: forPeriod(report.period),
+    fileName: `general-ledger-${report.account.code}-${report.period.to}`,
+    columns: [
+      { header: "Date", width: 11 },
+      { header: "Description", width: 34 },
+      { header: "Reference", width: 12 },
+      { header: "Explanation", width: 24 },
+      { header: "Account", width: 20 },
+      { header: "Source", width: 10 },
+      { header: "Debit", width: 13, amount: true },
+      { header: "Credit", width: 13, amount: true },
+      { header: "Balance", width: 14, amount: true },
+    ],
+    indentColumn: 1,
+    rows: [
+      { cells: [report.period.from, "Opening balance", null, null, null, null, null, null, report.openingBalance], style: "subtotal" },
+      ...entries.map((entry): ExportRow => ({
+        cells: [
+          entry.date,
+          entry.description,
+          entry.reference,
+          entry.explanation,
+          entry.accountCode ? `${entry.accountCode} ${entry.accountName}` : null,
+          entry.predictedBy,
+          entry.debit,
+          entry.credit,
+          entry.balance,
+        ],
+      })),
+      {
+        cells: [report.period.to, "Closing balance", null, null, null, null, report.totals.debit, report.totals.credit, report.closingBalance],
+        style: "total",
+      },
+    ],
+  };
+}
+
+function unallocatedDocument(report: UnallocatedTransactionsReport): ExportDocument {
+  return {
+    title: "Unallocated Transactions",
+    period: forPeriod(report.period),
+    fileName: `unallocated-transactions-${report.period.to}`,
+    columns: [
+      { header: "Date", width: 11 },
+      { header: "Description", width: 48 },
+      { header: "Reference", width: 16 },
+      { header: "Money in", width: 15, amount: true },
+      { header: "Money out", width: 15, amount: true },
+    ],
+    indentColumn: 1,
+    rows: [
+      ...report.transactions.map((transaction): ExportRow => ({
+        cells: [
+          transaction.date,
+          transaction.description,
+          transaction.reference,
+          transaction.amount > 0 ? transaction.amount : null,
+          transaction.amount < 0 ? -transaction.amount : null,
+        ],
+      })),
+      {
+        cells: [null, `Total (${report.transactions.length} transactions)`, null, report.totals.moneyIn, report.totals.moneyOut],
+        style: "total",
+      },
+    ],
+  };
+}
+
+// The general ledger is paginated; an export wants every entry
+async function allLedgerEntries(companyId: number, options: GeneralLedgerOptions) {
+  const first = await getGeneralLedger(companyId, { ...options, page: 1, pageSize: MAX_LEDGER_PAGE_SIZE });
+  const entries = [...first.entries];
+  for (let page = 2; page <= first.pagination.totalPages; page++) {
+    const next = await getGeneralLedger(companyId, { ...options, page, pageSize: MAX_LEDGER_PAGE_SIZE });
+    entries.push(...next.entries);
+  }
+  return { report: first, entries };
+}
+
+async function buildDocument(
+  companyId: number,
+  report: ExportReport,
+  options: ReportOptions & Partial<GeneralLedgerOptions>
+): Promise<ExportDocument> {
+  switch (report) {
+    case "trial-balance":
+      return trialBalanceDocument(await getTrialBalance(companyId, options));
+    case "income-statement": {
+      const statement = await getIncomeStatement(companyId, options);
+      return statementDocument(
+        "Statement of Income",
+        forPeriod(statement.period),
+        `income-statement-${statement.period.to}`,
+        statement,
+        [{ label: "Net profit/(loss)", amount: statement.netProfit, comparative: statement.comparativeNetProfit }]
+      );
+    }
+    case "balance-sheet": {
+      const statement = await getBalanceSheet(companyId, options);
+      return statementDocument(
+        "Statement of Financial Position",
+        `As at ${statement.period.to}`,
+        `balance-sheet-${statement.period.to}`,
+        statement,
+        [{
+          label: "Total liabilities and equity",
+          amount: statement.totals.liabilitiesAndEquity,
+          comparative: statement.totals.comparativeLiabilitiesAndEquity,
+        }]
+      );
+    }
+    case "general-ledger": {
+      if (options.account === undefined) {
+        throw new ReportError("account is required");
+      }
+      const { report: ledger, entries } = await allLedgerEntries(companyId, { ...options, account: options.account });
+      return generalLedgerDocument(ledger, entries);
+    }
+    case "unallocated":
+      return unallocatedDocument(await getUnallocatedTransactions(companyId, options));
+  }
+}
+
+function renderXlsx(document: ExportDocument, letterhead: Letterhead): Buffer {
+  const heading = [[letterhead.name], ...letterhead.lines.map(line => [line]), [document.title], [document.period], []];
+  const headerRow = heading.length;
+
+  const sheet = xlsxUtils.aoa_to_sheet([
+    ...heading,
+    document.columns.map(column => column.header),
+    ...document.rows.map(row => row.cells.map((cell, index) =>
+      // The community edition of xlsx cannot style cells, so the hierarchy is
+      // shown by indenting the text
+      index === document.indentColumn && typeof cell === "string" && row.indent
+        ? `${"  ".repeat(row.indent)}${cell}`
+        : cell
+    )),
+  ]);
+
+  document.rows.forEach((row, rowIndex) => {
+    document.columns.forEach((column, columnIndex) => {
+      const cell = sheet[xlsxUtils.encode_cell({ r: headerRow + 1 + rowIndex, c: columnIndex })];
+      if (column.amount && cell && typeof row.cells[columnIndex] === "number") {
+        cell.z = AMOUNT_FORMAT;
+      }
+    });
+  });
+  sheet["!cols"] = document.columns.map(column => ({ wch: column.width }));
+
+  const workbook = xlsxUtils.book_new();
+  xlsxUtils.book_append_sheet(workbook, sheet, document.title.slice(0, 31).replace(/[:\\/?*[\]]/g, " "));
+  return writeXLSX(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+function formatPdfAmount(value: number): string {
+  if (!value) return "-";
+  const text = new Intl.NumberFormat("en-ZA", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(Math.abs(value));
+  return value < 0 ? `(${text})` : text;
+}
+
+const PDF_MARGIN = 40;
+const PDF_ROW_HEIGHT = 14;
+const PDF_FONT_SIZE = 8;
+const PDF_LOGO_SIZE = 50;
+
+function renderPdf(document: ExportDocument, letterhead: Letterhead): Promise<Buffer> {
+  const totalWidth = document.columns.reduce((sum, column) => sum + column.width, 0);
+  const pdf = new PDFDocument({
+    size: "A4",
+    layout: totalWidth > 120 ? "landscape" : "portrait",
+    margin: PDF_MARGIN,
+    bufferPages: true,
+  });
+
+  const chunks: Buffer[] = [];
+  pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+  });
+
+  const pageWidth = pdf.page.width - PDF_MARGIN * 2;
+  const bottom = pdf.page.height - PDF_MARGIN - PDF_ROW_HEIGHT;
+  const widths = document.columns.map(column => (column.width / totalWidth) * pageWidth);
+  const offsets = widths.map((_, index) => PDF_MARGIN + widths.slice(0, index).reduce((a, b) => a + b, 0));
+
+  const drawRow = (cells: string[], y: number, bold: boolean, indent = 0) => {
+    pdf.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(PDF_FONT_SIZE);
+    cells.forEach((text, index) => {
+      const column = document.columns[index];
+      const padding = index === document.indentColumn ? indent * 8 : 0;
+      pdf.text(text, offsets[index] + padding + 2, y + 3, {
+        width: widths[index] - padding - 4,
+        align: column.amount ? "right" : "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+    });
+  };
+
+  // Letterhead, title and column headings, repeated on every page
+  const drawPageHeader = () => {
+    let y = PDF_MARGIN;
+    if (letterhead.logo) {
+      pdf.image(letterhead.logo, PDF_MARGIN + pageWidth - PDF_LOGO_SIZE, y, {
+        fit: [PDF_LOGO_SIZE, PDF_LOGO_SIZE],
+        align: "right",
+      });
+    }
+    const textWidth = letterhead.logo ? pageWidth - PDF_LOGO_SIZE - 10 : pageWidth;
+    pdf.font("Helvetica-Bold").fontSize(14).text(letterhead.name, PDF_MARGIN, y, { width: textWidth });
+    y += 18;
+    pdf.font("Helvetica").fontSize(8);
+    for (const line of letterhead.lines) {
+      pdf.text(line, PDF_MARGIN, y, { width: textWidth, lineBreak: false, ellipsis: true });
+      y += 10;
+    }
+    y = Math.max(y, letterhead.logo ? PDF_MARGIN + PDF_LOGO_SIZE : 0) + 6;
+    pdf.font("Helvetica-Bold").fontSize(12).text(document.title, PDF_MARGIN, y, { width: pageWidth });
+    y += 15;
+    pdf.font("Helvetica").fontSize(9).text(document.period, PDF_MARGIN, y, { width: pageWidth });
+    y += 18;
+
+    drawRow(document.columns.map(column => column.header), y, true);
+    y += PDF_ROW_HEIGHT;
+    pdf.moveTo(PDF_MARGIN, y).lineTo(PDF_MARGIN + pageWidth, y).lineWidth(0.75).stroke();
+    return y + 2;
+  };
+
+  let y = drawPageHeader();
+  for (const row of document.rows) {
+    if (y > bottom) {
+      pdf.addPage();
+      y = drawPageHeader();
+    }
+    if (row.style === "total") {
+      pdf.moveTo(PDF_MARGIN, y).lineTo(PDF_MARGIN + pageWidth, y).lineWidth(0.75).stroke();
+    }
+    const cells = row.cells.map((cell, index) =>
+      cell === null ? "" : document.columns[index].amount && typeof cell === "number" ? formatPdfAmount(cell) : String(cell)
+    );
+    drawRow(cells, y, row.style !== undefined, row.indent);
+    y += PDF_ROW_HEIGHT;
+  }
+
+  // Page numbers go in once every page exists. The bottom margin is lifted
+  // while writing them so pdfkit does not start another page.
+  const range = pdf.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    pdf.switchToPage(index);
+    pdf.page.margins.bottom = 0;
+    pdf.font("Helvetica").fontSize(8).text(
+      `Page ${index + 1} of ${range.count}`,
+      PDF_MARGIN,
+      pdf.page.height - PDF_MARGIN + 10,
+      { width: pageWidth, align: "right" }
+    );
+    pdf.page.margins.bottom = PDF_MARGIN;
+  }
+
+  pdf.end();
+  return finished;
+}
+
+// Company name and statutory details from the profile, falling back to the
+// workspace name until a profile has been set up
+export async function getLetterhead(companyId: number): Promise<Letterhead> {
+  const [profile, logo] = await Promise.all([getCompanyProfile(companyId), getCompanyLogo(companyId)]);
+  if (!profile) {
+    const company = await db.query.companies.findFirst({ where: eq(companies.id, companyId) });
+    return { name: company?.name ?? "", lines: [] };
+  }
+
+  const joined = (parts: (string | null)[]) => parts.filter(Boolean).join(" | ");
+  const lines = [
+    profile.tradingName ? `Trading as ${profile.tradingName}` : null,
+    joined([
+      profile.registrationNumber && `Registration number ${profile.registrationNumber}`,
+      profile.incomeTaxNumber && `Income tax number ${profile.incomeTaxNumber}`,
+      profile.vatNumber && `VAT number ${profile.vatNumber}`,
+    ]),
+    profile.physicalAddress?.replace(/\s*\n\s*/g, ", ") ?? null,
+    joined([profile.phone, profile.email, profile.website]),
+  ];
+
+  return {
+    name: profile.registeredName,
+    lines: lines.filter((line): line is string => Boolean(line)),
+    logo: logo?.data,
+  };
+}
+
+export async function exportReport(
+  companyId: number,
+  report: string,
+  format: string,
+  options: ReportOptions & Partial<GeneralLedgerOptions>
+): Promise<ExportFile> {
+  if (!exportReports.includes(report as ExportReport)) {
+    throw new ReportError(`Unknown report. Must be one of: ${exportReports.join(", ")}`);
+  }
+  if (!exportFormats.includes(format as ExportFormat)) {
+    throw new ReportError(`Unknown export format. Must be one of: ${exportFormats.join(", ")}`);
+  }
+
+  const [document, letterhead] = await Promise.all([
+    buildDocument(companyId, report as ExportReport, options),
+    getLetterhead(companyId),
+  ]);
+
+  return format === "pdf"
+    ? {
+        fileName: `${document.fileName}.pdf`,
+        contentType: "application/pdf",
+        content: await renderPdf(document, letterhead),
+      }
+    : {
+        fileName: `${document.fileName}.xlsx`,
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        content: renderXlsx(document, letterhead),
+      };
+}
@@ -0,0 +1,120 @@
+import { db } from "@db";
+import { eq, sql } from "drizzle-orm";
+import {
+  companyProfiles,
+  importBatches,
+  openingBalances,
+  transactions
+} from "@db/schema";
+
+// Financial years are identified by the calendar year in which they end. The
+// default year end is the end of February, as for most South African
+// businesses and the tax year.
+export const defaultYearEndMonth = 2;
+
+export interface ReportPeriod {
+  from: Date;
+  to: Date;
+  financialYear: number;
+  yearEndMonth: number;
+}
+
+export interface FinancialYear {
+  financialYear: number;
+  name: string;
+  from: string;
+  to: string;
+}
+
+export interface FinancialYearSettings {
+  yearEndMonth: number;
+  current: FinancialYear;
+  // Every year with transactions or opening balances, and the current one,
+  // most recent first
+  years: FinancialYear[];
+}
+
+// First and last day of a financial year, as UTC dates
+export function financialYearPeriod(financialYear: number, yearEndMonth = defaultYearEndMonth): ReportPeriod {
+  return {
+    from: new Date(Date.UTC(financialYear - 1, yearEndMonth, 1)),
+    // Day 0 of the following month is the last day of the year-end month,
+    // which takes care of February in leap years
+    to: new Date(Date.UTC(financialYear, yearEndMonth, 0)),
+    financialYear,
+    yearEndMonth,
+  };
+}
+
+export function financialYearOf(date: Date, yearEndMonth = defaultYearEndMonth): number {
+  return date.getUTCMonth() + 1 > yearEndMonth
+    ? date.getUTCFullYear() + 1
+    : date.getUTCFullYear();
+}
+
+// FY2024/25 for a year that spans two calendar years, FY2025 for one ending
+// in December
+export function financialYearName(financialYear: number, yearEndMonth = defaultYearEndMonth): string {
+  return yearEndMonth === 12
+    ? `FY${financialYear}`
+    : `FY${financialYear - 1}/${String(financialYear % 100).padStart(2, "0")}`;
+}
+
+export function describeFinancialYear(financialYear: number, yearEndMonth = defaultYearEndMonth): FinancialYear {
+  const period = financialYearPeriod(financialYear, yearEndMonth);
+  return {
+    financialYear,
+    name: financialYearName(financialYear, yearEndMonth),
+    from: period.from.toISOString().slice(0, 10),
+    to: period.to.toISOString().slice(0, 10),
+  };
+}
+
+// First day of each month in the financial year
+export function financialYearMonths(financialYear: number, yearEndMonth = defaultYearEndMonth): Date[] {
+  return Array.from({ length: 12 }, (_, index) =>
+    new Date(Date.UTC(financialYear - 1, yearEndMonth + index, 1))
+  );
+}
+
+export async function getYearEndMonth(companyId: number): Promise<number> {
+  const profile = await db.query.companyProfiles.findFirst({
+    where: eq(companyProfiles.companyId, companyId),
+    columns: { yearEndMonth: true },
+  });
+  return profile?.yearEndMonth ?? defaultYearEndMonth;
+}
+
+export async function getFinancialYearSettings(companyId: number): Promise<FinancialYearSettings> {
+  const yearEndMonth = await getYearEndMonth(companyId);
+  const current = financialYearOf(new Date(), yearEndMonth);
+
+  const [range] = await db
+    .select({
+      first: sql<string | null>`to_char(min(${transactions.date}), 'YYYY-MM-DD')`,
+      last: sql<string | null>`to_char(max(${transactions.date}), 'YYYY-MM-DD')`,
+    })
+    .from(transactions)
+    .innerJoin(importBatches, eq(transactions.importBatchId, importBatches.id))
+    .where(eq(importBatches.companyId, companyId));
+
+  const balanceYears = await db
+    .selectDistinct({ financialYear: openingBalances.financialYear })
+    .from(openingBalances)
+    .where(eq(openingBalances.companyId, companyId));
+
+  const years = new Set([current, ...balanceYears.map(row => row.financialYear)]);
+  if (range?.first && range.last) {
+    const first = financialYearOf(new Date(`${range.first}T00:00:00Z`), yearEndMonth);
+    const last = financialYearOf(new Date(`${range.last}T00:00:00Z`), yearEndMonth);
+    for (let year = first; year <= last; year++) years.add(year);
+  }
+
+  return {
+    yearEndMonth,
+    current: describeFinancialYear(current, yearEndMonth),
+    years: Array.from(years)
+      .sort((a, b) => b - a)
+      .map(year => describeFinancialYear(year, yearEndMonth)),
+  };
+}
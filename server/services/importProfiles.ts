@@ -0,0 +1,89 @@
+import { db } from "@db";
+import { eq, and, asc } from "drizzle-orm";
+import {
+  importProfiles,
+  type ImportProfile,
+  type InsertImportProfile
+} from "@db/schema";
+import {
+  sheetFromGrid,
+  headerSignature,
+  type ImportOptions,
+  type StatementSheet
+} from "./imports";
+
+export { type ImportProfile, type InsertImportProfile };
+
+export async function listImportProfiles(userId: number): Promise<ImportProfile[]> {
+  return db.query.importProfiles.findMany({
+    where: eq(importProfiles.userId, userId),
+    orderBy: asc(importProfiles.name),
+  });
+}
+
+export async function getImportProfile(userId: number, profileId: number): Promise<ImportProfile | undefined> {
+  return db.query.importProfiles.findFirst({
+    where: and(
+      eq(importProfiles.id, profileId),
+      eq(importProfiles.userId, userId)
+    ),
+  });
+}
+
+export async function createImportProfile(
+  data: Omit<InsertImportProfile, "id" | "createdAt" | "updatedAt">
+): Promise<ImportProfile> {
+  const [profile] = await db.insert(importProfiles).values(data).returning();
+  return profile;
+}
+
+export async function updateImportProfile(
+  userId: number,
+  profileId: number,
+  data: Partial<Omit<InsertImportProfile, "id" | "userId" | "createdAt" | "updatedAt">>
+): Promise<ImportProfile | undefined> {
+  const [profile] = await db.update(importProfiles)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(
+      eq(importProfiles.id, profileId),
+      eq(importProfiles.userId, userId)
+    ))
+    .returning();
+  return profile;
+}
+
+export async function deleteImportProfile(userId: number, profileId: number): Promise<boolean> {
+  const deleted = await db.delete(importProfiles)
+    .where(and(
+      eq(importProfiles.id, profileId),
+      eq(importProfiles.userId, userId)
+    ))
+    .returning({ id: importProfiles.id });
+  return deleted.length > 0;
+}
+
+export function profileOptions(profile: ImportProfile): ImportOptions {
+  return {
+    dateFormat: profile.dateFormat,
+    signConvention: profile.signConvention as ImportOptions["signConvention"],
+    skipRows: profile.skipRows,
+  };
+}
+
+// Find the user's profile whose header row matches the uploaded grid. Each
+// profile is tried with its own rows-to-skip, since banners differ per bank.
+export async function matchImportProfile(
+  userId: number,
+  grid: any[][]
+): Promise<{ profile: ImportProfile; sheet: StatementSheet } | undefined> {
+  const profiles = await listImportProfiles(userId);
+
+  for (const profile of profiles) {
+    const sheet = sheetFromGrid(grid, profile.skipRows);
+    if (headerSignature(sheet.headers) === profile.headerSignature) {
+      return { profile, sheet };
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  parseStatementAmount,
+  parseStatementDate,
+  detectDateFormat,
+  checkRunningBalance,
+  type BankStatementRow
+} from "./imports";
+
+// Only the master chart import touches the database
+vi.mock("@db", () => ({ db: {} }));
+
+describe("parseStatementAmount", () => {
+  it.each([
+    ["100.00", 100],
+    ["-100.00", -100],
+    ["100.00-", -100],
+    ["(100.00)", -100],
+    ["R -100.00", -100],
+    ["-R100", -100],
+    ["R 100.00-", -100],
+    ["R (1 234.56)", -1234.56],
+    ["ZAR -50", -50],
+    ["1,234.56", 1234.56],
+    ["1.234,56", 1234.56],
+    ["R 1 234,56", 1234.56],
+    ["1,234", 1234],
+    ["1.234.567", 1234567],
+    ["1,234,567.89", 1234567.89],
+    ["1,5", 1.5],
+    ["0.125", 0.125],
+    [42, 42],
+  ])("reads %j as %d", (text, expected) => {
+    expect(parseStatementAmount(text)?.value).toBe(expected);
+  });
+
+  it.each(["1.234", "12.345", "1,234,56", "1.234,567.8", "1234,5678", "1-2", "abc", ""])(
+    "rejects the ambiguous or malformed %j",
+    (text) => {
+      expect(parseStatementAmount(text)).toBeNull();
+    }
+  );
+
+  it("lets a CR or DR marker settle the sign", () => {
+    expect(parseStatementAmount("100.00 CR")).toEqual({ value: 100, marker: "CR" });
+    expect(parseStatementAmount("100.00 DR")).toEqual({ value: -100, marker: "DR" });
+    expect(parseStatementAmount("DR 100.00")).toEqual({ value: -100, marker: "DR" });
+  });
+});
+
+describe("parseStatementDate", () => {
+  const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+  it.each([
+    ["2025-03-04", "yyyy-mm-dd", utc(2025, 3, 4)],
+    ["2025/03/04 10:15", "yyyy-mm-dd", utc(2025, 3, 4)],
+    ["20250304", "yyyymmdd", utc(2025, 3, 4)],
+    ["04/03/2025", "dd/mm/yyyy", utc(2025, 3, 4)],
+    ["04/03/2025", "mm/dd/yyyy", utc(2025, 4, 3)],
+    ["4-3-25", "dd/mm/yyyy", utc(2025, 3, 4)],
+    ["04 Mar 2025", "dd mmm yyyy", utc(2025, 3, 4)],
+    ["4-March-2025", "dd mmm yyyy", utc(2025, 3, 4)],
+    ["04/03/2025", "auto", utc(2025, 3, 4)],
+    ["2025-03-04", "auto", utc(2025, 3, 4)],
+  ])("reads %j as %s", (text, format, expected) => {
+    expect(parseStatementDate(text, format)).toEqual(expected);
+  });
+
+  it("reads two-digit years from 1980 to 2079", () => {
+    expect(parseStatementDate("01/01/80", "dd/mm/yyyy")).toEqual(utc(1980, 1, 1));
+    expect(parseStatementDate("01/01/79", "dd/mm/yyyy")).toEqual(utc(2079, 1, 1));
+  });
+
+  it.each([
+    ["31/02/2025", "dd/mm/yyyy"],
+    ["13/13/2025", "dd/mm/yyyy"],
+    ["03/13/2025", "dd/mm/yyyy"],
+    ["04 Foo 2025", "dd mmm yyyy"],
+    ["2025-03-04", "dd/mm/yyyy"],
+    ["not a date", "auto"],
+    ["", "auto"],
+  ])("rejects %j as %s", (text, format) => {
+    expect(parseStatementDate(text, format)).toBeNull();
+  });
+
+  it("takes spreadsheet dates and serial numbers whatever the format", () => {
+    const date = utc(2025, 3, 4);
+    expect(parseStatementDate(date, "mm/dd/yyyy")).toBe(date);
+    expect(parseStatementDate(45720, "dd/mm/yyyy")).toEqual(date);
+    expect(parseStatementDate(20250304, "auto")).toEqual(date);
+    expect(parseStatementDate(new Date("invalid"), "auto")).toBeNull();
+    expect(parseStatementDate(null, "auto")).toBeNull();
+  });
+});
+
+describe("detectDateFormat", () => {
+  it("reads a column day-first when every day is on or before the 12th", () => {
+    expect(detectDateFormat(["01/02/2025", "05/02/2025", "12/02/2025"])).toBe("dd/mm/yyyy");
+  });
+
+  it("reads a column month-first once a later value can only be month-first", () => {
+    expect(detectDateFormat(["01/02/2025", "01/05/2025", "01/13/2025", "01/28/2025"])).toBe("mm/dd/yyyy");
+  });
+
+  it("recognises the other layouts", () => {
+    expect(detectDateFormat(["2025-03-01", "2025-03-02"])).toBe("yyyy-mm-dd");
+    expect(detectDateFormat([20250301, "20250302"])).toBe("yyyymmdd");
+    expect(detectDateFormat(["01 Mar 2025", "02 Mar 2025"])).toBe("dd mmm yyyy");
+  });
+
+  it("has nothing to go on without text dates", () => {
+    expect(detectDateFormat([])).toBeNull();
+    expect(detectDateFormat([45720, new Date(), null, " "])).toBeNull();
+    expect(detectDateFormat(["soon", "later"])).toBeNull();
+  });
+});
+
+describe("checkRunningBalance", () => {
+  // Rows of [day, amount, balance] in March 2025
+  const statement = (...rows: Array<[number, number, number?]>): BankStatementRow[] =>
+    rows.map(([day, amount, balance], index) => ({
+      row: index + 2,
+      date: new Date(Date.UTC(2025, 2, day)),
+      description: `Row ${index + 2}`,
+      amount,
+      balance,
+    }));
+
+  it("passes a statement whose balances follow its amounts", () => {
+    expect(checkRunningBalance(statement([1, 100, 1100], [2, -50.1, 1049.9], [3, 0.2, 1050.1]), "Balance")).toEqual([]);
+  });
+
+  it("reports a break once, at the row where it shows", () => {
+    const errors = checkRunningBalance(
+      statement([1, 100, 1100], [2, -50, 1000], [3, -25, 975], [4, 10, 985]),
+      "Balance"
+    );
+    expect(errors).toEqual([{
+      code: "BALANCE_MISMATCH",
+      message: "Running balance is out by -50.00",
+      details: { row: 3, column: "Balance", value: 1000, expected: "1050.00" },
+    }]);
+  });
+
+  it("carries the amounts of rows without a balance", () => {
+    expect(checkRunningBalance(statement([1, 100, 1100], [2, -50], [3, -25, 1025]))).toEqual([]);
+    expect(checkRunningBalance(statement([1, 100, 1100], [2, -50], [3, -25, 1075]))).toHaveLength(1);
+  });
+
+  it("checks a newest-first statement in date order", () => {
+    expect(checkRunningBalance(statement([3, -25, 1025], [2, -50, 1050], [1, 100, 1100]))).toEqual([]);
+  });
+
+  it("takes whichever order agrees on a single-day statement", () => {
+    expect(checkRunningBalance(statement([1, -25, 1025], [1, -50, 1050], [1, 100, 1100]))).toEqual([]);
+    expect(checkRunningBalance(statement([1, 100, 1100], [1, -50, 1050], [1, -25, 1025]))).toEqual([]);
+  });
+
+  it("has nothing to check on fewer than two rows", () => {
+    expect(checkRunningBalance(statement([1, 100, 999]))).toEqual([]);
+  });
+});
@@ -3,6 +3,7 @@ import type { WorkBook, WorkSheet } from "xlsx";
 import { db } from "@db";
 import { masterAccounts, type InsertMasterAccount, type MasterAccount } from "@db/schema";
 import { eq } from "drizzle-orm";
+import { readStatementGrid } from "./statementParsers";
 
 export class ImportValidationError extends Error {
   code: string;
@@ -324,133 +325,674 @@ export async function importChartOfAccounts(filePath: string): Promise<void> {
   }
 }
 
-export async function importBankStatement(filePath: string): Promise<any[]> {
-  try {
-    // First analyze the file structure
-    const analysis = analyzeExcelSheet(filePath);
-    console.log('Analyzing Bank Statement structure:', analysis);
+export interface StatementSheet {
+  headers: string[];
+  // Data rows keyed by header, with their 1-based row number in the sheet
+  rows: { row: number; values: Record<string, any> }[];
+}
 
-    const workbook = readXLSX(filePath);
-    const sheet = workbook.Sheets[workbook.SheetNames[0]];
-    const data = xlsxUtils.sheet_to_json(sheet);
+export interface BankColumnMap {
+  date?: string;
+  description?: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  reference?: string;
+  balance?: string;
+}
 
-    // Detect column mappings based on common variations
-    const columnMap = {
-      date: analysis.headers.find(h => 
-        /^(date|trans.*date|post.*date|value.*date)/i.test(h)
-      ),
-      description: analysis.headers.find(h => 
-        /^(description|narrative|details|particulars)/i.test(h)
-      ),
-      amount: analysis.headers.find(h => 
-        /^(amount|value|debit|credit)/i.test(h)
-      ),
-      reference: analysis.headers.find(h => 
-        /^(reference|ref|cheque.*no)/i.test(h)
-      ),
-      balance: analysis.headers.find(h => 
-        /^(balance|running.*bal)/i.test(h)
+export interface BankStatementRow {
+  row: number;
+  date: Date;
+  description: string;
+  amount: number;
+  reference?: string;
+  balance?: number;
+}
+
+// How a particular file should be read, usually taken from an import profile
+export interface ImportOptions {
+  dateFormat: string;
+  signConvention: 'standard' | 'inverted';
+  skipRows: number;
+}
+
+export const defaultImportOptions: ImportOptions = {
+  dateFormat: 'auto',
+  signConvention: 'standard',
+  skipRows: 0,
+};
+
+export type { ValidationError };
+export { readStatementGrid };
+
+// Header variations seen on bank statement exports
+const bankColumnPatterns: Record<keyof BankColumnMap, RegExp> = {
+  date: /^(date|trans.*date|post.*date|value.*date)/i,
+  description: /(description|narrative|details|particulars)/i,
+  amount: /^(amount|value)(?!.*date)/i,
+  debit: /^(debit|dr\b|money.*out|withdrawal)/i,
+  credit: /^(credit|cr\b|money.*in|deposit)/i,
+  reference: /^(reference|ref|cheque.*no)/i,
+  balance: /^(balance|running.*bal)/i,
+};
+
+// Build a header-keyed sheet from a grid, skipping any banner rows above the header
+export function sheetFromGrid(grid: any[][], skipRows = 0): StatementSheet {
+  const headerRow = grid[skipRows] ?? [];
+
+  // Repeated headings (such as Dr/Cr for this year and last) get a numbered
+  // suffix so every column can still be mapped
+  const seen = new Map<string, number>();
+  const headers = Array.from(headerRow, cell => {
+    const header = cleanTextValue(cell);
+    if (!header) return header;
+    const count = (seen.get(header) ?? 0) + 1;
+    seen.set(header, count);
+    return count === 1 ? header : `${header} (${count})`;
+  });
+
+  const rows = grid
+    .slice(skipRows + 1)
+    .map((cells, index) => ({
+      row: skipRows + index + 2,
+      values: Object.fromEntries(
+        headers
+          .map((header, column): [string, any] => [header, cells[column]])
+          .filter(([header]) => header !== '')
       ),
-    };
+    }))
+    .filter(({ values }) =>
+      Object.values(values).some(value => cleanTextValue(value) !== '')
+    );
 
-    console.log('Detected column mappings:', columnMap);
+  return { headers, rows };
+}
 
-    // Map bank statement format with flexible mapping
-    return data.map((row: any) => {
-      // Handle date
-      let transactionDate = row[columnMap.date] || row.Date || row.TransactionDate;
-      if (typeof transactionDate === 'number') {
-        // Handle Excel serial dates
-        transactionDate = new Date(Math.round((transactionDate - 25569) * 86400 * 1000));
-      } else {
-        transactionDate = new Date(transactionDate);
-      }
+export function readStatementSheet(
+  file: { originalname: string; buffer: Buffer },
+  skipRows = 0
+): StatementSheet {
+  return sheetFromGrid(readStatementGrid(file), skipRows);
+}
 
-      // Handle amounts
-      const amountStr = row[columnMap.amount] || row.Amount || row.Value || row.Debit || row.Credit;
-      const balanceStr = row[columnMap.balance] || row.Balance || row.RunningBalance;
+// Normalised header row, used to recognise a bank's export layout
+export function headerSignature(headers: string[]): string {
+  return headers
+    .map(header => header.toLowerCase().replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('|');
+}
 
-      // Convert amounts, handling different formats
-      const amount = parseNumericValue(amountStr) || 0;
-      const balance = parseNumericValue(balanceStr) || 0;
+export function detectBankColumnMap(headers: string[]): BankColumnMap {
+  const columnMap: BankColumnMap = {};
+  for (const [field, pattern] of Object.entries(bankColumnPatterns)) {
+    columnMap[field as keyof BankColumnMap] = headers.find(h => pattern.test(h));
+  }
 
-      return {
-        date: transactionDate,
-        description: cleanTextValue(row[columnMap.description] || row.Description || row.Narrative),
-        amount: amount,
-        reference: cleanTextValue(row[columnMap.reference] || row.Reference),
-        balance: balance,
-        // Store original row data for debugging
-        _raw: { ...row }
-      };
+  // A single amount column takes precedence over split debit/credit columns
+  if (columnMap.amount) {
+    delete columnMap.debit;
+    delete columnMap.credit;
+  }
+
+  return columnMap;
+}
+
+// Date layouts seen on statement exports, in order of preference when a
+// column could be read more than one way. Day-first wins over month-first
+// because that is how South African banks write dates.
+const statementDatePatterns: Record<string, { pattern: RegExp; parts: [number, number, number] }> = {
+  'yyyy-mm-dd': { pattern: /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/, parts: [1, 2, 3] },
+  'yyyymmdd': { pattern: /^(\d{4})(\d{2})(\d{2})$/, parts: [1, 2, 3] },
+  'dd/mm/yyyy': { pattern: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?:\s.*)?$/, parts: [3, 2, 1] },
+  'mm/dd/yyyy': { pattern: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?:\s.*)?$/, parts: [3, 1, 2] },
+  'dd mmm yyyy': { pattern: /^(\d{1,2})[\s-]+([a-z]{3,})[\s,-]+(\d{4}|\d{2})$/i, parts: [3, 2, 1] },
+};
+
+export const dateFormats = ['auto', ...Object.keys(statementDatePatterns)];
+
+const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function calendarDate(year: number, month: number, day: number): Date | null {
+  if (year < 100) year += year >= 80 ? 1900 : 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects 31/02 and the like, which Date would roll into the next month
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+function parseDateText(text: string, format: string): Date | null {
+  const layout = statementDatePatterns[format];
+  const match = layout && text.match(layout.pattern);
+  if (!match) return null;
+
+  const [yearPart, monthPart, dayPart] = layout.parts.map(part => match[part]);
+  const month = /^\d+$/.test(monthPart)
+    ? Number(monthPart)
+    : monthNames.indexOf(monthPart.slice(0, 3).toLowerCase()) + 1;
+
+  return month > 0 ? calendarDate(Number(yearPart), month, Number(dayPart)) : null;
+}
+
+// Read a statement date in the given format. Spreadsheet date cells and
+// Excel serial numbers carry no layout, so they are accepted whatever the format.
+export function parseStatementDate(value: any, format: string): Date | null {
+  if (value === null || value === undefined) return null;
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'number') {
+    if (format === 'yyyymmdd' || (format === 'auto' && /^(19|20)\d{6}$/.test(String(value)))) {
+      return parseDateText(String(value), 'yyyymmdd');
+    }
+    // Excel serial date
+    const date = new Date(Math.round((value - 25569) * 86400 * 1000));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const text = String(value).trim();
+  if (!text) return null;
+  if (format !== 'auto') return parseDateText(text, format);
+
+  for (const candidate of Object.keys(statementDatePatterns)) {
+    const date = parseDateText(text, candidate);
+    if (date) return date;
+  }
+  return null;
+}
+
+// Work out the format of a date column from all of its text values, so a
+// statement whose first dates are all on or before the 12th is not read as
+// month-first. Picks the format that reads the most values, falling back to
+// the preference order on a tie. Returns null when there is no text to go on.
+export function detectDateFormat(values: any[]): string | null {
+  const texts = values
+    .filter(value => typeof value === 'string' || (typeof value === 'number' && /^(19|20)\d{6}$/.test(String(value))))
+    .map(value => String(value).trim())
+    .filter(Boolean);
+  if (texts.length === 0) return null;
+
+  let best: { format: string; parsed: number } | null = null;
+  for (const format of Object.keys(statementDatePatterns)) {
+    const parsed = texts.filter(text => parseDateText(text, format)).length;
+    if (parsed > 0 && (!best || parsed > best.parsed)) {
+      best = { format, parsed };
+    }
+  }
+
+  return best?.format ?? null;
+}
+
+// Whole digits grouped in threes by the given separator, e.g. 1,234,567
+function isGrouped(digits: string, separator: string): boolean {
+  return new RegExp(`^\\d{1,3}(\\${separator}\\d{3})+$`).test(digits);
+}
+
+// Rewrite the digits with a decimal point and no thousands separators, or
+// null when it cannot be told which separator is which. With both present the
+// last is the decimal separator (1,234.56 and 1.234,56). A lone separator is
+// a decimal point unless three digits follow it: then a comma groups
+// thousands (1,234) and a point could be either (1.234), except after a lone
+// zero (0.125). A repeated one must group thousands (1.234.567).
+function normaliseSeparators(digits: string): string | null {
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  if (lastDot === -1 && lastComma === -1) return digits;
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimal = Math.max(lastDot, lastComma);
+    const thousands = decimal === lastDot ? ',' : '.';
+    const whole = digits.slice(0, decimal);
+    const fraction = digits.slice(decimal + 1);
+    if (whole.includes(digits[decimal]) || fraction.includes(thousands) || !isGrouped(whole, thousands)) {
+      return null;
+    }
+    return whole.split(thousands).join('') + '.' + fraction;
+  }
+
+  const separator = lastDot !== -1 ? '.' : ',';
+  const parts = digits.split(separator);
+  if (parts.length > 2) {
+    return isGrouped(digits, separator) ? parts.join('') : null;
+  }
+  const [whole, fraction] = parts;
+  if (fraction.length === 3 && whole !== '' && whole !== '0') {
+    return separator === ',' && isGrouped(digits, separator) ? whole + fraction : null;
+  }
+  if (separator === ',' && fraction.length > 3) return null;
+  return whole + '.' + fraction;
+}
+
+// Parse a statement amount, honouring the sign notations banks use: leading
+// or trailing minus, bracketed negatives and CR/DR markers. The marker is
+// returned so callers know the sign was stated explicitly by the bank.
+export function parseStatementAmount(value: any): { value: number; marker: 'CR' | 'DR' | null } | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') {
+    return isNaN(value) ? null : { value, marker: null };
+  }
+
+  let text = String(value).trim().toUpperCase();
+  let marker: 'CR' | 'DR' | null = null;
+  let negative = false;
+
+  const markerMatch = text.match(/\s*(CR|DR)\.?$/) ?? text.match(/^(CR|DR)\.?\s*/);
+  if (markerMatch) {
+    marker = markerMatch[1] as 'CR' | 'DR';
+    text = text.replace(markerMatch[0], '').trim();
+  }
+  // Drop currency symbols and spaces used as thousands separators before
+  // looking for the sign, so R -100.00 is as negative as -R100
+  text = text.replace(/[^0-9.,()-]/g, '');
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = true;
+    text = text.slice(1);
+  }
+
+  const digits = normaliseSeparators(text);
+  if (digits === null || !/^\d*\.?\d+$/.test(digits)) return null;
+
+  const magnitude = parseFloat(digits);
+  const signed = marker === 'CR' ? magnitude
+    : marker === 'DR' ? -magnitude
+    : negative ? -magnitude : magnitude;
+
+  return { value: signed === 0 ? 0 : signed, marker };
+}
+
+function isBlank(value: any): boolean {
+  return cleanTextValue(value) === '';
+}
+
+// Work out the signed amount of a row: money in is positive, money out negative
+function rowAmount(values: Record<string, any>, columnMap: BankColumnMap, options: ImportOptions): number | null {
+  if (columnMap.amount) {
+    const parsed = parseStatementAmount(values[columnMap.amount]);
+    if (!parsed) return null;
+    // An explicit CR/DR marker already tells us the direction
+    if (parsed.marker || options.signConvention === 'standard') return parsed.value;
+    return parsed.value === 0 ? 0 : -parsed.value;
+  }
+
+  const debitValue = columnMap.debit ? values[columnMap.debit] : null;
+  const creditValue = columnMap.credit ? values[columnMap.credit] : null;
+  if (isBlank(debitValue) && isBlank(creditValue)) return null;
+
+  const debit = isBlank(debitValue) ? { value: 0 } : parseStatementAmount(debitValue);
+  const credit = isBlank(creditValue) ? { value: 0 } : parseStatementAmount(creditValue);
+  if (!debit || !credit) return null;
+
+  // Debit columns hold money out and credit columns money in, whatever sign the export used
+  const amount = Math.abs(credit.value) - Math.abs(debit.value);
+  return Math.round(amount * 100) / 100;
+}
+
+// Check that the mapping names the columns a bank statement cannot do without
+export function validateBankColumnMap(headers: string[], columnMap: BankColumnMap): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const [field, column] of Object.entries(columnMap)) {
+    if (column && !headers.includes(column)) {
+      errors.push({
+        code: 'MISSING_REQUIRED_COLUMNS',
+        message: `Column "${column}" mapped to ${field} does not exist in the file.`,
+        details: { column, expected: headers.join(', ') }
+      });
+    }
+  }
+
+  if (!columnMap.date) {
+    errors.push({
+      code: 'MISSING_REQUIRED_COLUMNS',
+      message: 'Select the column that holds the transaction date.',
+      details: { column: 'date' }
     });
-  } catch (error) {
-    console.error('Error importing bank statement:', error);
-    throw new Error(`Failed to import bank statement: ${error.message}`);
   }
+  if (!columnMap.description) {
+    errors.push({
+      code: 'MISSING_REQUIRED_COLUMNS',
+      message: 'Select the column that holds the transaction description.',
+      details: { column: 'description' }
+    });
+  }
+  if (!columnMap.amount && !columnMap.debit && !columnMap.credit) {
+    errors.push({
+      code: 'MISSING_REQUIRED_COLUMNS',
+      message: 'Select an amount column, or separate debit and credit columns.',
+      details: { column: 'amount' }
+    });
+  }
+
+  return errors;
 }
 
-export async function importTrialBalance(filePath: string): Promise<any[]> {
-  try {
-    // First analyze the file structure
-    const analysis = analyzeExcelSheet(filePath);
-    console.log('Analyzing Trial Balance structure:', analysis);
+// Turn raw sheet rows into statement rows using the given column mapping,
+// collecting a validation error for every row that cannot be used.
+export function normaliseBankStatement(
+  sheet: StatementSheet,
+  columnMap: BankColumnMap,
+  options: ImportOptions = defaultImportOptions
+): { rows: BankStatementRow[]; errors: ValidationError[]; dateFormat: string | null } {
+  const errors = validateBankColumnMap(sheet.headers, columnMap);
+  if (errors.length > 0) {
+    return { rows: [], errors, dateFormat: null };
+  }
 
-    const workbook = readXLSX(filePath);
-    const sheet = workbook.Sheets[workbook.SheetNames[0]];
-    const data = xlsxUtils.sheet_to_json(sheet);
+  if (!dateFormats.includes(options.dateFormat)) {
+    errors.push({
+      code: 'INVALID_DATA_FORMAT',
+      message: `Unknown date format ${options.dateFormat}`,
+      details: { value: options.dateFormat, expected: dateFormats.join(', ') }
+    });
+    return { rows: [], errors, dateFormat: null };
+  }
 
-    // Detect column mappings based on common variations
-    const columnMap = {
-      code: analysis.headers.find(h => 
-        /^(code|account.*code|acc.*no)/i.test(h)
-      ),
-      name: analysis.headers.find(h => 
-        /^(name|account.*name|description)/i.test(h)
-      ),
-      debit: analysis.headers.find(h => 
-        /^(debit|dr|debit.*amount)/i.test(h)
-      ),
-      credit: analysis.headers.find(h => 
-        /^(credit|cr|credit.*amount)/i.test(h)
-      ),
-      balance: analysis.headers.find(h => 
-        /^(balance|net|total)/i.test(h)
-      ),
-    };
+  const dateFormat = options.dateFormat === 'auto'
+    ? detectDateFormat(sheet.rows.map(({ values }) => values[columnMap.date!]))
+    : options.dateFormat;
+
+  const rows: BankStatementRow[] = [];
+  for (const { row, values } of sheet.rows) {
+    const rawDate = values[columnMap.date!];
+    const date = parseStatementDate(rawDate, dateFormat ?? 'auto');
+    if (!date) {
+      errors.push({
+        code: 'INVALID_DATA_FORMAT',
+        message: 'Invalid or missing date',
+        details: { row, column: columnMap.date, value: rawDate, expected: dateFormat ?? undefined }
+      });
+    }
 
-    console.log('Detected column mappings:', columnMap);
+    const description = cleanTextValue(values[columnMap.description!]);
+    if (!description) {
+      errors.push({
+        code: 'INVALID_DATA_FORMAT',
+        message: 'Description is required',
+        details: { row, column: columnMap.description }
+      });
+    }
 
-    // Map trial balance format with flexible mapping
-    return data.map((row: any) => {
-      // Get values using detected columns or fallbacks
-      const code = cleanTextValue(row[columnMap.code] || row.Code || row.AccountCode);
-      const name = cleanTextValue(row[columnMap.name] || row.Name || row.AccountName);
-      
-      // Handle amounts
-      const debit = parseNumericValue(row[columnMap.debit] || row.Debit || row.DR) || 0;
-      const credit = parseNumericValue(row[columnMap.credit] || row.Credit || row.CR) || 0;
-      const balance = parseNumericValue(row[columnMap.balance] || row.Balance || row.Total) || 
-                     (debit - credit); // Calculate balance if not provided
-
-      // Skip rows without account code or name
-      if (!code || !name) {
-        console.warn('Skipping invalid row:', row);
-        return null;
+    const amount = rowAmount(values, columnMap, options);
+    if (amount === null) {
+      errors.push({
+        code: 'INVALID_DATA_FORMAT',
+        message: 'Invalid or missing amount',
+        details: {
+          row,
+          column: columnMap.amount ?? [columnMap.debit, columnMap.credit].filter(Boolean).join(' / '),
+          value: columnMap.amount
+            ? values[columnMap.amount]
+            : [columnMap.debit, columnMap.credit].map(column => column && values[column]).filter(v => !isBlank(v)).join(' / ')
+        }
+      });
+    }
+
+    if (!date || !description || amount === null) {
+      continue;
+    }
+
+    const balance = columnMap.balance ? parseStatementAmount(values[columnMap.balance])?.value ?? null : null;
+    const reference = columnMap.reference ? cleanTextValue(values[columnMap.reference]) : '';
+
+    rows.push({
+      row,
+      date,
+      description,
+      amount,
+      reference: reference || undefined,
+      balance: balance ?? undefined,
+    });
+  }
+
+  if (columnMap.balance) {
+    errors.push(...checkRunningBalance(rows, columnMap.balance));
+  }
+
+  return { rows, errors, dateFormat };
+}
+
+// Walk the statement in date order checking that the opening balance plus the
+// amounts so far agrees with each row's running balance. The opening balance
+// is taken from the first row that carries one. After a break the check picks
+// up again from the stated balance, so one missing row is reported only once.
+export function checkRunningBalance(rows: BankStatementRow[], balanceColumn?: string): ValidationError[] {
+  const check = (ordered: BankStatementRow[]) => {
+    const breaks: ValidationError[] = [];
+    let expected: number | null = null;
+
+    for (const row of ordered) {
+      if (row.balance === undefined) {
+        if (expected !== null) expected += row.amount;
+        continue;
+      }
+      if (expected === null) {
+        expected = row.balance;
+        continue;
       }
 
-      return {
-        accountCode: code,
-        accountName: name,
-        debit: debit,
-        credit: credit,
-        balance: balance,
-        // Store original row data for debugging
-        _raw: { ...row }
-      };
-    }).filter(entry => entry !== null);
-  } catch (error) {
-    console.error('Error importing trial balance:', error);
-    throw new Error(`Failed to import trial balance: ${error.message}`);
+      expected = Math.round((expected + row.amount) * 100) / 100;
+      const difference = Math.round((row.balance - expected) * 100) / 100;
+      if (difference !== 0) {
+        breaks.push({
+          code: 'BALANCE_MISMATCH',
+          message: `Running balance is out by ${difference.toFixed(2)}`,
+          details: {
+            row: row.row,
+            column: balanceColumn,
+            value: row.balance,
+            expected: expected.toFixed(2)
+          }
+        });
+        expected = row.balance;
+      }
+    }
+
+    return breaks;
+  };
+
+  if (rows.length < 2) return [];
+
+  // Many banks export newest first
+  const first = rows[0].date.getTime();
+  const last = rows[rows.length - 1].date.getTime();
+  const reversed = [...rows].reverse();
+  if (first > last) return check(reversed);
+  if (first < last) return check(rows);
+
+  // Single-day statement: use whichever order the balances agree with
+  const ascending = check(rows);
+  if (ascending.length === 0) return ascending;
+  const descending = check(reversed);
+  return descending.length < ascending.length ? descending : ascending;
+}
+
+export async function importBankStatement(
+  file: { originalname: string; buffer: Buffer },
+  columnMap?: BankColumnMap,
+  options: ImportOptions = defaultImportOptions
+): Promise<BankStatementRow[]> {
+  const sheet = readStatementSheet(file, options.skipRows);
+  const mapping = columnMap ?? detectBankColumnMap(sheet.headers);
+  console.log('Detected column mappings:', mapping);
+
+  const { rows, errors } = normaliseBankStatement(sheet, mapping, options);
+  if (errors.length > 0) {
+    throw new ImportValidationError(errors[0].code, errors[0].message, errors[0].details);
   }
-}
\ No newline at end of file
+
+  return rows;
+}
+
+export interface TrialBalanceColumnMap {
+  code?: string;
+  name?: string;
+  debit?: string;
+  credit?: string;
+  balance?: string;
+}
+
+export interface TrialBalanceRow {
+  row: number;
+  code: string;
+  name: string;
+  debit: number;
+  credit: number;
+}
+
+// Header variations seen on trial balance exports
+const trialBalanceColumnPatterns: Record<keyof TrialBalanceColumnMap, RegExp> = {
+  code: /^(code|account.*code|acc.*no)/i,
+  name: /^(name|account.*name|description)/i,
+  debit: /^(debit|dr|debit.*amount)/i,
+  credit: /^(credit|cr|credit.*amount)/i,
+  balance: /^(balance|net|total)/i,
+};
+
+export function detectTrialBalanceColumnMap(headers: string[]): TrialBalanceColumnMap {
+  const columnMap: TrialBalanceColumnMap = {};
+  for (const [field, pattern] of Object.entries(trialBalanceColumnPatterns)) {
+    columnMap[field as keyof TrialBalanceColumnMap] = headers.find(h => pattern.test(h));
+  }
+
+  // Separate debit and credit columns take precedence over a net balance
+  if (columnMap.debit && columnMap.credit) {
+    delete columnMap.balance;
+  }
+
+  return columnMap;
+}
+
+export function validateTrialBalanceColumnMap(
+  headers: string[],
+  columnMap: TrialBalanceColumnMap
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const column of Object.values(columnMap)) {
+    if (column && !headers.includes(column)) {
+      errors.push({
+        code: 'MISSING_REQUIRED_COLUMNS',
+        message: `Column "${column}" is not in the file`,
+        details: { column }
+      });
+    }
+  }
+
+  const missing: string[] = [];
+  if (!columnMap.code) missing.push('account code');
+  if (!(columnMap.debit && columnMap.credit) && !columnMap.balance) missing.push('debit and credit, or balance');
+  if (missing.length > 0) {
+    errors.push({
+      code: 'MISSING_REQUIRED_COLUMNS',
+      message: `Missing required columns: ${missing.join(', ')}`,
+      details: {
+        expected: 'Account code, plus debit and credit columns or a single balance column',
+        value: headers.filter(Boolean).join(', ')
+      }
+    });
+  }
+
+  return errors;
+}
+
+// Turn trial balance rows into debit/credit amounts per account code. Heading
+// and total rows (no account code) are skipped, and the debits must equal the
+// credits for the trial balance to be accepted.
+export function normaliseTrialBalance(
+  sheet: StatementSheet,
+  columnMap: TrialBalanceColumnMap
+): { rows: TrialBalanceRow[]; errors: ValidationError[] } {
+  const errors = validateTrialBalanceColumnMap(sheet.headers, columnMap);
+  if (errors.length > 0) {
+    return { rows: [], errors };
+  }
+
+  const rows: TrialBalanceRow[] = [];
+  for (const { row, values } of sheet.rows) {
+    const code = cleanTextValue(values[columnMap.code!]);
+    const name = columnMap.name ? cleanTextValue(values[columnMap.name]).replace(/\s+/g, ' ') : '';
+
+    let debit: number | null;
+    let credit: number | null;
+    if (columnMap.debit && columnMap.credit) {
+      const debitValue = values[columnMap.debit];
+      const creditValue = values[columnMap.credit];
+      debit = isBlank(debitValue) ? 0 : parseStatementAmount(debitValue)?.value ?? null;
+      credit = isBlank(creditValue) ? 0 : parseStatementAmount(creditValue)?.value ?? null;
+      if (debit !== null) debit = Math.abs(debit);
+      if (credit !== null) credit = Math.abs(credit);
+    } else {
+      const balanceValue = values[columnMap.balance!];
+      const balance = isBlank(balanceValue) ? 0 : parseStatementAmount(balanceValue)?.value ?? null;
+      debit = balance === null ? null : Math.max(balance, 0);
+      credit = balance === null ? null : Math.max(-balance, 0);
+    }
+
+    if (!code) {
+      if (name && !/total/i.test(name) && (debit || credit)) {
+        errors.push({
+          code: 'INVALID_DATA_FORMAT',
+          message: 'Account code is required',
+          details: { row, column: columnMap.code, value: name }
+        });
+      }
+      continue;
+    }
+
+    if (debit === null || credit === null) {
+      errors.push({
+        code: 'INVALID_DATA_FORMAT',
+        message: 'Invalid amount',
+        details: {
+          row,
+          column: columnMap.balance ?? [columnMap.debit, columnMap.credit].join(' / '),
+          value: columnMap.balance
+            ? values[columnMap.balance]
+            : [columnMap.debit, columnMap.credit].map(column => values[column!]).filter(v => !isBlank(v)).join(' / ')
+        }
+      });
+      continue;
+    }
+
+    rows.push({ row, code, name, debit, credit });
+  }
+
+  const totalDebit = rows.reduce((sum, row) => sum + row.debit, 0);
+  const totalCredit = rows.reduce((sum, row) => sum + row.credit, 0);
+  const difference = Math.round((totalDebit - totalCredit) * 100) / 100;
+  if (rows.length > 0 && difference !== 0) {
+    errors.push({
+      code: 'UNBALANCED_TRIAL_BALANCE',
+      message: `Total debits (${totalDebit.toFixed(2)}) do not equal total credits (${totalCredit.toFixed(2)})`,
+      details: { value: difference.toFixed(2), expected: '0.00' }
+    });
+  }
+
+  return { rows, errors };
+}
+
+export async function importTrialBalance(
+  file: { originalname: string; buffer: Buffer },
+  columnMap?: TrialBalanceColumnMap,
+  skipRows = 0
+): Promise<TrialBalanceRow[]> {
+  const sheet = readStatementSheet(file, skipRows);
+  const mapping = columnMap ?? detectTrialBalanceColumnMap(sheet.headers);
+  console.log('Detected column mappings:', mapping);
+
+  const { rows, errors } = normaliseTrialBalance(sheet, mapping);
+  if (errors.length > 0) {
+    throw new ImportValidationError(errors[0].code, errors[0].message, errors[0].details);
+  }
+
+  return rows;
+}
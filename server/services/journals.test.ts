@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { balancedLines, JournalError } from "./journals";
+
+vi.mock("@db", () => ({ db: {} }));
+
+describe("balancedLines", () => {
+  it("writes each line as a debit or credit in cents", () => {
+    expect(balancedLines([
+      { accountId: 1, debit: 100.005, description: "  Rent  " },
+      { accountId: 2, credit: 60 },
+      { accountId: 3, credit: 40.01, description: " " },
+    ])).toEqual([
+      { accountId: 1, description: "Rent", debit: "100.01", credit: "0.00" },
+      { accountId: 2, description: null, debit: "0.00", credit: "60.00" },
+      { accountId: 3, description: null, debit: "0.00", credit: "40.01" },
+    ]);
+  });
+
+  it("balances amounts that do not add up exactly in floating point", () => {
+    expect(() => balancedLines([
+      { accountId: 1, debit: 0.1 },
+      { accountId: 1, debit: 0.2 },
+      { accountId: 2, credit: 0.3 },
+    ])).not.toThrow();
+  });
+
+  it.each([
+    ["fewer than two lines", [{ accountId: 1, debit: 10 }], "A journal needs at least two lines"],
+    [
+      "unequal sides",
+      [{ accountId: 1, debit: 10 }, { accountId: 2, credit: 9.99 }],
+      "The journal does not balance: debits 10.00, credits 9.99",
+    ],
+    [
+      "a line with both sides",
+      [{ accountId: 1, debit: 10, credit: 10 }, { accountId: 2, credit: 0 }],
+      "Line 1 needs either a debit or a credit",
+    ],
+    [
+      "a line with neither side",
+      [{ accountId: 1, debit: 10 }, { accountId: 2 }],
+      "Line 2 needs either a debit or a credit",
+    ],
+    [
+      "a negative amount",
+      [{ accountId: 1, debit: -10 }, { accountId: 2, credit: -10 }],
+      "Line 1: amounts must be positive numbers",
+    ],
+    [
+      "an amount that is not a number",
+      [{ accountId: 1, debit: NaN }, { accountId: 2, credit: 10 }],
+      "Line 1: amounts must be positive numbers",
+    ],
+  ])("refuses %s", (_name, lines, message) => {
+    expect(() => balancedLines(lines)).toThrow(JournalError);
+    expect(() => balancedLines(lines)).toThrow(message);
+  });
+});
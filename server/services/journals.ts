@@ -0,0 +1,335 @@
+import { db } from "@db";
+import { eq, and, asc, desc, gte, lt, inArray, isNull, isNotNull, sql } from "drizzle-orm";
+import {
+  bankAccounts,
+  importBatches,
+  journals,
+  journalLines,
+  transactions,
+  transactionSplits,
+  userAccounts,
+  type Journal,
+  type JournalLine,
+  type Transaction,
+  type TransactionSplit
+} from "@db/schema";
+import type { CompanyScope } from "./companies";
+
+export { type Journal, type JournalLine };
+
+export class JournalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JournalError';
+  }
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface JournalLineInput {
+  accountId: number;
+  description?: string | null;
+  debit?: number;
+  credit?: number;
+}
+
+export interface JournalInput {
+  date: Date;
+  description: string;
+  reference?: string | null;
+  lines: JournalLineInput[];
+}
+
+export interface JournalFilters {
+  source?: string;
+  from?: Date;
+  toExclusive?: Date;
+}
+
+export type JournalWithLines = Journal & {
+  lines: Array<JournalLine & { account: { id: number; code: string; name: string } | null }>;
+};
+
+const lineAccountColumns = { id: true, code: true, name: true } as const;
+
+// Amounts are checked in cents so rounding can never unbalance a journal
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Every line is either a debit or a credit, and the two sides must agree to
+// the cent
+export function balancedLines(lines: JournalLineInput[]) {
+  if (lines.length < 2) {
+    throw new JournalError("A journal needs at least two lines");
+  }
+
+  let debits = 0;
+  let credits = 0;
+  const balanced = lines.map((line, index) => {
+    const debit = toCents(line.debit ?? 0);
+    const credit = toCents(line.credit ?? 0);
+    if (!Number.isFinite(debit) || !Number.isFinite(credit) || debit < 0 || credit < 0) {
+      throw new JournalError(`Line ${index + 1}: amounts must be positive numbers`);
+    }
+    if ((debit > 0) === (credit > 0)) {
+      throw new JournalError(`Line ${index + 1} needs either a debit or a credit`);
+    }
+    debits += debit;
+    credits += credit;
+    return {
+      accountId: line.accountId,
+      description: line.description?.trim() || null,
+      debit: fromCents(debit),
+      credit: fromCents(credit),
+    };
+  });
+
+  if (debits !== credits) {
+    throw new JournalError(
+      `The journal does not balance: debits ${fromCents(debits)}, credits ${fromCents(credits)}`
+    );
+  }
+  return balanced;
+}
+
+async function checkAccounts(companyId: number, lines: JournalLineInput[]): Promise<void> {
+  const accountIds = Array.from(new Set(lines.map(line => line.accountId)));
+  const found = await db
+    .select({ id: userAccounts.id })
+    .from(userAccounts)
+    .where(and(
+      eq(userAccounts.companyId, companyId),
+      inArray(userAccounts.id, accountIds)
+    ));
+  if (found.length !== accountIds.length) {
+    throw new JournalError("Journal lines must post to accounts in your chart of accounts");
+  }
+}
+
+// Money in (a positive amount) debits the bank and credits the allocated
+// account; money out does the reverse. A split transaction credits or debits
+// each of its parts.
+function statementLines(
+  transaction: Transaction,
+  bankLedgerAccountId: number | null,
+  splits: TransactionSplit[]
+) {
+  const sides = (amount: number) => ({
+    moneyIn: fromCents(Math.max(toCents(amount), 0)),
+    moneyOut: fromCents(Math.max(-toCents(amount), 0)),
+  });
+  const bank = sides(Number(transaction.amount));
+  const allocations = splits.length > 0
+    ? splits.map(split => ({ accountId: split.accountId, description: split.explanation, ...sides(Number(split.amount)) }))
+    : [{ accountId: transaction.accountId, description: null, ...bank }];
+  return [
+    { accountId: bankLedgerAccountId, bankLine: true, description: null, debit: bank.moneyIn, credit: bank.moneyOut },
+    ...allocations.map(({ accountId, description, moneyIn, moneyOut }) => (
+      { accountId, bankLine: false, description, debit: moneyOut, credit: moneyIn }
+    )),
+  ];
+}
+
+// (Re)post the journals of statement transactions after they are imported or
+// their allocation changes. Must run in the transaction that changed them.
+export async function postTransactionJournals(tx: Tx, rows: Transaction[]): Promise<void> {
+  const owned = rows.filter(row => row.companyId !== null);
+  if (owned.length === 0) {
+    return;
+  }
+
+  const batchIds = Array.from(new Set(
+    owned.map(row => row.importBatchId).filter((id): id is number => id !== null)
+  ));
+  const ledgers = batchIds.length > 0
+    ? await tx
+        .select({ batchId: importBatches.id, ledgerAccountId: bankAccounts.ledgerAccountId })
+        .from(importBatches)
+        .innerJoin(bankAccounts, eq(importBatches.bankAccountId, bankAccounts.id))
+        .where(inArray(importBatches.id, batchIds))
+    : [];
+  const ledgerByBatch = new Map(ledgers.map(({ batchId, ledgerAccountId }) => [batchId, ledgerAccountId]));
+
+  const splits = await tx.query.transactionSplits.findMany({
+    where: inArray(transactionSplits.transactionId, owned.map(row => row.id)),
+    orderBy: [asc(transactionSplits.id)],
+  });
+  const splitsByTransaction = new Map<number, TransactionSplit[]>();
+  for (const split of splits) {
+    splitsByTransaction.set(split.transactionId, [...(splitsByTransaction.get(split.transactionId) ?? []), split]);
+  }
+
+  const posted = await tx.insert(journals)
+    .values(owned.map(row => ({
+      companyId: row.companyId!,
+      transactionId: row.id,
+      source: "transaction",
+      date: row.date,
+      description: row.description,
+      reference: row.reference,
+    })))
+    .onConflictDoUpdate({
+      target: journals.transactionId,
+      set: {
+        date: sql`excluded.date`,
+        description: sql`excluded.description`,
+        reference: sql`excluded.reference`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning({ id: journals.id, transactionId: journals.transactionId });
+  const journalByTransaction = new Map(posted.map(({ id, transactionId }) => [transactionId, id]));
+
+  await tx.delete(journalLines).where(inArray(journalLines.journalId, posted.map(({ id }) => id)));
+  await tx.insert(journalLines).values(owned.flatMap(row =>
+    statementLines(
+      row,
+      (row.importBatchId !== null && ledgerByBatch.get(row.importBatchId)) || null,
+      splitsByTransaction.get(row.id) ?? []
+    ).map(line => ({ ...line, journalId: journalByTransaction.get(row.id)! }))
+  ));
+}
+
+// Statements imported before journals existed are posted once, when the
+// server starts, so reading the books never has to write to them
+export async function postMissingTransactionJournals(): Promise<number> {
+  const missing = await db
+    .select({ transaction: transactions })
+    .from(transactions)
+    .leftJoin(journals, eq(journals.transactionId, transactions.id))
+    .where(and(
+      isNotNull(transactions.companyId),
+      isNull(journals.id)
+    ));
+  if (missing.length > 0) {
+    await db.transaction(tx => postTransactionJournals(tx, missing.map(({ transaction }) => transaction)));
+  }
+  return missing.length;
+}
+
+// Point the bank side of a bank account's statement journals at its new
+// ledger account
+export async function moveBankLines(tx: Tx, bankAccountId: number, ledgerAccountId: number): Promise<void> {
+  await tx.update(journalLines)
+    .set({ accountId: ledgerAccountId })
+    .where(and(
+      eq(journalLines.bankLine, true),
+      inArray(
+        journalLines.journalId,
+        tx.select({ id: journals.id })
+          .from(journals)
+          .innerJoin(transactions, eq(journals.transactionId, transactions.id))
+          .innerJoin(importBatches, eq(transactions.importBatchId, importBatches.id))
+          .where(eq(importBatches.bankAccountId, bankAccountId))
+      )
+    ));
+}
+
+export async function listJournals(companyId: number, filters: JournalFilters = {}): Promise<JournalWithLines[]> {
+  return db.query.journals.findMany({
+    where: and(
+      eq(journals.companyId, companyId),
+      filters.source ? eq(journals.source, filters.source) : undefined,
+      filters.from ? gte(journals.date, filters.from) : undefined,
+      filters.toExclusive ? lt(journals.date, filters.toExclusive) : undefined
+    ),
+    orderBy: [desc(journals.date), desc(journals.id)],
+    with: {
+      lines: {
+        orderBy: [asc(journalLines.id)],
+        with: { account: { columns: lineAccountColumns } },
+      },
+    },
+  });
+}
+
+export async function getJournal(companyId: number, journalId: number): Promise<JournalWithLines | undefined> {
+  return db.query.journals.findFirst({
+    where: and(
+      eq(journals.id, journalId),
+      eq(journals.companyId, companyId)
+    ),
+    with: {
+      lines: {
+        orderBy: [asc(journalLines.id)],
+        with: { account: { columns: lineAccountColumns } },
+      },
+    },
+  });
+}
+
+export async function createJournal(scope: CompanyScope, input: JournalInput): Promise<JournalWithLines> {
+  const lines = balancedLines(input.lines);
+  await checkAccounts(scope.companyId, input.lines);
+
+  const journalId = await db.transaction(async (tx) => {
+    const [journal] = await tx.insert(journals)
+      .values({
+        companyId: scope.companyId,
+        userId: scope.userId,
+        source: "manual",
+        date: input.date,
+        description: input.description,
+        reference: input.reference || null,
+      })
+      .returning();
+    await tx.insert(journalLines).values(lines.map(line => ({ ...line, journalId: journal.id })));
+    return journal.id;
+  });
+  return (await getJournal(scope.companyId, journalId))!;
+}
+
+// Statement journals follow their transaction and cannot be changed directly
+async function findManualJournal(companyId: number, journalId: number): Promise<Journal | undefined> {
+  const journal = await db.query.journals.findFirst({
+    where: and(
+      eq(journals.id, journalId),
+      eq(journals.companyId, companyId)
+    ),
+  });
+  if (journal && journal.source !== "manual") {
+    throw new JournalError("This journal is posted from a bank transaction; change the transaction instead");
+  }
+  return journal;
+}
+
+export async function updateJournal(
+  companyId: number,
+  journalId: number,
+  input: JournalInput
+): Promise<JournalWithLines | undefined> {
+  const existing = await findManualJournal(companyId, journalId);
+  if (!existing) {
+    return undefined;
+  }
+  const lines = balancedLines(input.lines);
+  await checkAccounts(companyId, input.lines);
+
+  await db.transaction(async (tx) => {
+    await tx.update(journals)
+      .set({
+        date: input.date,
+        description: input.description,
+        reference: input.reference || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(journals.id, existing.id));
+    await tx.delete(journalLines).where(eq(journalLines.journalId, existing.id));
+    await tx.insert(journalLines).values(lines.map(line => ({ ...line, journalId: existing.id })));
+  });
+  return getJournal(companyId, existing.id);
+}
+
+export async function deleteJournal(companyId: number, journalId: number): Promise<boolean> {
+  const existing = await findManualJournal(companyId, journalId);
+  if (!existing) {
+    return false;
+  }
+  await db.delete(journals).where(eq(journals.id, existing.id));
+  return true;
+}
@@ -0,0 +1,335 @@
+import { db } from "@db";
+import { eq, and, asc, inArray, isNull, isNotNull } from "drizzle-orm";
+import {
+  importBatches,
+  openingBalances,
+  userAccounts,
+  type ImportBatch,
+  type OpeningBalance,
+  type UserAccount
+} from "@db/schema";
+import {
+  ImportValidationError,
+  readStatementGrid,
+  sheetFromGrid,
+  detectTrialBalanceColumnMap,
+  normaliseTrialBalance,
+  type TrialBalanceColumnMap,
+  type TrialBalanceRow,
+  type ValidationError
+} from "./imports";
+import { hashFile, findPendingBatch } from "./batches";
+import type { CompanyScope } from "./companies";
+
+export { type OpeningBalance };
+
+type UploadedFile = { originalname: string; buffer: Buffer };
+
+// How a staged trial balance is read and where its balances go. Account codes
+// that are not in the chart of accounts are mapped to an account by the user.
+export interface TrialBalanceImportOptions {
+  financialYear: number;
+  skipRows: number;
+  accountMap: Record<string, number>;
+}
+
+export interface TrialBalancePreviewRow extends TrialBalanceRow {
+  accountId: number | null;
+  matchedBy: "code" | "mapping" | null;
+}
+
+export interface TrialBalanceImport {
+  batch: Omit<ImportBatch, "stagedData">;
+  headers: string[];
+  columnMap: TrialBalanceColumnMap;
+  options: TrialBalanceImportOptions;
+  sample: Record<string, any>[];
+  errors: ValidationError[];
+  rows: TrialBalancePreviewRow[];
+  // Codes in the file that still need an account
+  unmatchedCodes: string[];
+  totals: { debit: number; credit: number };
+  // Opening balances already held for the year, which committing replaces
+  existingBalances: number;
+}
+
+function normaliseCode(code: string): string {
+  return code.trim().toLowerCase();
+}
+
+function validateFinancialYear(financialYear: number) {
+  if (!Number.isInteger(financialYear) || financialYear < 1900 || financialYear > 2200) {
+    throw new ImportValidationError(
+      'INVALID_DATA_FORMAT',
+      'Financial year must be the year in which it ends, such as 2025',
+      { value: financialYear, expected: 'four-digit year' }
+    );
+  }
+}
+
+// Trial balance reports usually open with a few title rows; use the first row
+// whose headings include an account code and amount columns
+function detectHeaderRow(grid: any[][]): number {
+  for (let skipRows = 0; skipRows < Math.min(grid.length, 20); skipRows++) {
+    const columnMap = detectTrialBalanceColumnMap(sheetFromGrid(grid.slice(0, skipRows + 1), skipRows).headers);
+    if (columnMap.code && ((columnMap.debit && columnMap.credit) || columnMap.balance)) {
+      return skipRows;
+    }
+  }
+  return 0;
+}
+
+async function buildTrialBalanceImport(scope: CompanyScope, batch: ImportBatch): Promise<TrialBalanceImport> {
+  const { stagedData, ...batchInfo } = batch;
+  const options = batch.options as TrialBalanceImportOptions;
+  const sheet = sheetFromGrid((stagedData as { grid: any[][] }).grid, options.skipRows);
+  const columnMap = (batch.columnMap ?? {}) as TrialBalanceColumnMap;
+  const { rows: balanceRows, errors } = normaliseTrialBalance(sheet, columnMap);
+
+  const accounts = await db.query.userAccounts.findMany({
+    where: eq(userAccounts.companyId, scope.companyId),
+  });
+  const accountsByCode = new Map(accounts.map(account => [normaliseCode(account.code), account.id]));
+  const accountIds = new Set(accounts.map(account => account.id));
+
+  const rows = balanceRows.map((row): TrialBalancePreviewRow => {
+    const mapped = options.accountMap[row.code];
+    if (mapped && accountIds.has(mapped)) {
+      return { ...row, accountId: mapped, matchedBy: "mapping" };
+    }
+    const matched = accountsByCode.get(normaliseCode(row.code));
+    return { ...row, accountId: matched ?? null, matchedBy: matched ? "code" : null };
+  });
+
+  const unmatchedCodes = Array.from(new Set(
+    rows.filter(row => row.accountId === null).map(row => row.code)
+  ));
+
+  const existing = await db.query.openingBalances.findMany({
+    where: and(
+      eq(openingBalances.companyId, scope.companyId),
+      eq(openingBalances.financialYear, options.financialYear)
+    ),
+    columns: { id: true },
+  });
+
+  return {
+    batch: batchInfo,
+    headers: sheet.headers,
+    columnMap,
+    options,
+    sample: sheet.rows.slice(0, 10).map(({ values }) => values),
+    errors,
+    rows,
+    unmatchedCodes,
+    totals: {
+      debit: Math.round(rows.reduce((sum, row) => sum + row.debit, 0) * 100) / 100,
+      credit: Math.round(rows.reduce((sum, row) => sum + row.credit, 0) * 100) / 100,
+    },
+    existingBalances: existing.length,
+  };
+}
+
+// Stage an uploaded trial balance for the given financial year without
+// touching the stored opening balances
+export async function createTrialBalanceImport(
+  scope: CompanyScope,
+  file: UploadedFile,
+  financialYear: number
+): Promise<TrialBalanceImport> {
+  validateFinancialYear(financialYear);
+
+  const grid = readStatementGrid(file);
+  const skipRows = detectHeaderRow(grid);
+  const sheet = sheetFromGrid(grid, skipRows);
+  const options: TrialBalanceImportOptions = { financialYear, skipRows, accountMap: {} };
+
+  const [batch] = await db.insert(importBatches)
+    .values({
+      userId: scope.userId,
+      companyId: scope.companyId,
+      type: "trial-balance",
+      fileName: file.originalname,
+      fileHash: hashFile(file.buffer),
+      rowCount: sheet.rows.length,
+      status: "pending",
+      columnMap: detectTrialBalanceColumnMap(sheet.headers),
+      options,
+      stagedData: { grid },
+    })
+    .returning();
+
+  return buildTrialBalanceImport(scope, batch);
+}
+
+export async function getTrialBalanceImport(scope: CompanyScope, batchId: number): Promise<TrialBalanceImport | undefined> {
+  const batch = await findPendingBatch(scope, batchId, "trial-balance");
+  return batch && buildTrialBalanceImport(scope, batch);
+}
+
+export async function updateTrialBalanceImport(
+  scope: CompanyScope,
+  batchId: number,
+  changes: {
+    columnMap?: TrialBalanceColumnMap;
+    accountMap?: Record<string, number>;
+    financialYear?: number;
+    skipRows?: number;
+  }
+): Promise<TrialBalanceImport | undefined> {
+  const batch = await findPendingBatch(scope, batchId, "trial-balance");
+  if (!batch) {
+    return undefined;
+  }
+
+  const options = { ...(batch.options as TrialBalanceImportOptions) };
+  if (changes.financialYear !== undefined) {
+    validateFinancialYear(changes.financialYear);
+    options.financialYear = changes.financialYear;
+  }
+  if (changes.skipRows !== undefined) {
+    options.skipRows = Math.max(0, Math.floor(changes.skipRows));
+  }
+  if (changes.accountMap) {
+    const accountIds = Object.values(changes.accountMap).map(Number);
+    const owned = accountIds.length > 0
+      ? await db.query.userAccounts.findMany({
+          where: and(
+            eq(userAccounts.companyId, scope.companyId),
+            inArray(userAccounts.id, accountIds)
+          ),
+          columns: { id: true },
+        })
+      : [];
+    if (owned.length !== new Set(accountIds).size) {
+      throw new ImportValidationError(
+        'INVALID_ACCOUNT_MAPPING',
+        'Account codes can only be mapped to accounts in your chart of accounts'
+      );
+    }
+    options.accountMap = Object.fromEntries(
+      Object.entries(changes.accountMap).map(([code, accountId]) => [code, Number(accountId)])
+    );
+  }
+
+  const [updated] = await db.update(importBatches)
+    .set({
+      columnMap: changes.columnMap ?? batch.columnMap,
+      options,
+      updatedAt: new Date(),
+    })
+    .where(eq(importBatches.id, batchId))
+    .returning();
+
+  return buildTrialBalanceImport(scope, updated);
+}
+
+// Save the staged trial balance as the opening balances of its financial
+// year, replacing any balances previously held for that year. Lines mapped
+// to the same account are combined into one net balance.
+export async function commitTrialBalanceImport(
+  scope: CompanyScope,
+  batchId: number
+): Promise<(ImportBatch & { openingBalances: OpeningBalance[] }) | undefined> {
+  const batch = await findPendingBatch(scope, batchId, "trial-balance");
+  if (!batch) {
+    return undefined;
+  }
+
+  const session = await buildTrialBalanceImport(scope, batch);
+  if (session.errors.length > 0) {
+    const [first] = session.errors;
+    throw new ImportValidationError(
+      first.code,
+      `${session.errors.length} validation error(s) must be fixed before importing. ${first.message}`,
+      first.details
+    );
+  }
+  if (session.unmatchedCodes.length > 0) {
+    throw new ImportValidationError(
+      'UNMAPPED_ACCOUNTS',
+      `${session.unmatchedCodes.length} account code(s) must be mapped to an account before importing`,
+      { value: session.unmatchedCodes.join(', ') }
+    );
+  }
+
+  const netByAccount = new Map<number, number>();
+  for (const row of session.rows) {
+    netByAccount.set(row.accountId!, (netByAccount.get(row.accountId!) ?? 0) + row.debit - row.credit);
+  }
+  const balances = Array.from(netByAccount)
+    .map(([accountId, net]) => ({ accountId, net: Math.round(net * 100) / 100 }))
+    .filter(({ net }) => net !== 0);
+
+  const { financialYear } = session.options;
+
+  return db.transaction(async (tx) => {
+    // Earlier trial balances for the year are superseded, along with their batches
+    const previous = await tx.selectDistinct({ importBatchId: openingBalances.importBatchId })
+      .from(openingBalances)
+      .where(and(
+        eq(openingBalances.companyId, scope.companyId),
+        eq(openingBalances.financialYear, financialYear),
+        isNotNull(openingBalances.importBatchId)
+      ));
+    if (previous.length > 0) {
+      await tx.delete(importBatches)
+        .where(inArray(importBatches.id, previous.map(({ importBatchId }) => importBatchId!)));
+    }
+    await tx.delete(openingBalances)
+      .where(and(
+        eq(openingBalances.companyId, scope.companyId),
+        eq(openingBalances.financialYear, financialYear),
+        isNull(openingBalances.importBatchId)
+      ));
+
+    const inserted = balances.length > 0
+      ? await tx.insert(openingBalances)
+          .values(balances.map(({ accountId, net }) => ({
+            userId: scope.userId,
+            companyId: scope.companyId,
+            importBatchId: batch.id,
+            financialYear,
+            accountId,
+            debit: Math.max(net, 0).toFixed(2),
+            credit: Math.max(-net, 0).toFixed(2),
+          })))
+          .returning()
+      : [];
+
+    const [completed] = await tx.update(importBatches)
+      .set({
+        status: "completed",
+        rowCount: inserted.length,
+        stagedData: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(importBatches.id, batch.id))
+      .returning();
+
+    return { ...completed, openingBalances: inserted };
+  });
+}
+
+export async function listOpeningBalances(
+  scope: CompanyScope,
+  financialYear: number
+): Promise<(OpeningBalance & { account: UserAccount })[]> {
+  const balances = await db.query.openingBalances.findMany({
+    where: and(
+      eq(openingBalances.companyId, scope.companyId),
+      eq(openingBalances.financialYear, financialYear)
+    ),
+    with: { account: true },
+  });
+  return balances.sort((a, b) => a.account.code.localeCompare(b.account.code));
+}
+
+// Financial years that have opening balances, most recent first
+export async function listOpeningBalanceYears(scope: CompanyScope): Promise<number[]> {
+  const years = await db.selectDistinct({ financialYear: openingBalances.financialYear })
+    .from(openingBalances)
+    .where(eq(openingBalances.companyId, scope.companyId))
+    .orderBy(asc(openingBalances.financialYear));
+  return years.map(({ financialYear }) => financialYear).reverse();
+}
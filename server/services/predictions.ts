@@ -8,17 +8,19 @@ import {
   userAccounts,
   type Transaction
 } from "@db/schema";
+import { matchRule } from "./rules";
 
-interface Prediction {
+export interface Prediction {
   explanation: string;
   accountId: number;
   accountName: string;
   confidence: number;
-  type: "pattern" | "database" | "ai";
+  type: "pattern" | "database" | "ai" | "rule";
+  ruleId?: number; // rule predictions are applied through the rule, which may split
 }
 
 // Utility function to calculate text similarity
-function calculateSimilarity(str1: string, str2: string): number {
+export function calculateSimilarity(str1: string, str2: string): number {
   const s1 = str1.toLowerCase();
   const s2 = str2.toLowerCase();
   
@@ -55,10 +57,14 @@ function calculateSimilarity(str1: string, str2: string): number {
 
 // Get predictions based on pattern matching
 async function getPatternPredictions(
+  companyId: number,
   transaction: Transaction
 ): Promise<Prediction[]> {
   const allPatterns = await db.query.patterns.findMany({
-    where: eq(patterns.enabled, true),
+    where: and(
+      eq(patterns.companyId, companyId),
+      eq(patterns.enabled, true)
+    ),
     with: {
       account: {
         columns: {
@@ -106,14 +112,50 @@ async function getPatternPredictions(
   return predictions;
 }
 
+// The company's own rule is as certain as review has left it. A rule that
+// splits is offered under its first account.
+async function getRulePredictions(
+  companyId: number,
+  transaction: Transaction
+): Promise<Prediction[]> {
+  const rule = await matchRule(companyId, transaction);
+  if (!rule) return [];
+
+  const splits = rule.action.splits ?? [];
+  const accountId = splits.length > 0 ? splits[0].accountId : rule.action.accountId!;
+  const account = await db.query.userAccounts.findFirst({
+    where: and(
+      eq(userAccounts.id, accountId),
+      eq(userAccounts.companyId, companyId)
+    ),
+    columns: { name: true },
+  });
+  if (!account) return [];
+
+  return [{
+    explanation: rule.action.explanation,
+    accountId,
+    accountName: splits.length > 0
+      ? `Split across ${splits.length} accounts (${rule.name})`
+      : `${account.name} (${rule.name})`,
+    confidence: Number(rule.confidence),
+    type: "rule",
+    ruleId: rule.id,
+  }];
+}
+
 // Get predictions based on historical data
 async function getDatabasePredictions(
+  companyId: number,
   transaction: Transaction
 ): Promise<Prediction[]> {
   const matches = await db.query.historicalMatches.findMany({
-    where: like(
-      historicalMatches.transactionDescription,
-      `%${transaction.description}%`
+    where: and(
+      eq(historicalMatches.companyId, companyId),
+      like(
+        historicalMatches.transactionDescription,
+        `%${transaction.description}%`
+      )
     ),
     orderBy: [desc(historicalMatches.frequency), desc(historicalMatches.lastUsed)],
     limit: 3,
@@ -142,6 +184,7 @@ async function getDatabasePredictions(
 
 // Get predictions based on simple AI heuristics
 async function getAIPredictions(
+  companyId: number,
   transaction: Transaction
 ): Promise<Prediction[]> {
   const keywords = transaction.description.toLowerCase().split(" ");
@@ -167,7 +210,10 @@ async function getAIPredictions(
   );
 
   const matchingAccounts = await db.query.userAccounts.findMany({
-    where: eq(userAccounts.type, bestMatch.type),
+    where: and(
+      eq(userAccounts.companyId, companyId),
+      eq(userAccounts.type, bestMatch.type)
+    ),
     limit: 1,
   });
 
@@ -182,17 +228,21 @@ async function getAIPredictions(
   }];
 }
 
+// Suggestions only ever come from the company's own rules, patterns, history
+// and chart of accounts
 export async function generatePredictions(
+  companyId: number,
   transaction: Transaction
 ): Promise<Prediction[]> {
-  const [patternPredictions, databasePredictions, aiPredictions] =
+  const [rulePredictions, patternPredictions, databasePredictions, aiPredictions] =
     await Promise.all([
-      getPatternPredictions(transaction),
-      getDatabasePredictions(transaction),
-      getAIPredictions(transaction),
+      getRulePredictions(companyId, transaction),
+      getPatternPredictions(companyId, transaction),
+      getDatabasePredictions(companyId, transaction),
+      getAIPredictions(companyId, transaction),
     ]);
 
-  return [...patternPredictions, ...databasePredictions, ...aiPredictions]
+  return [...rulePredictions, ...patternPredictions, ...databasePredictions, ...aiPredictions]
     .sort((a, b) => b.confidence - a.confidence)
     .slice(0, 5);
 }
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from "vitest";
+import { db } from "@db";
+import { users, companies, userAccounts, journals, journalLines, openingBalances } from "@db/schema";
+import { getTrialBalance, getBalanceSheet } from "./reports";
+
+vi.mock("@db", async () => ({ db: await (await import("../testing/db")).createTestDb() }));
+
+// Financial years end in February by default, so FY2025 runs from 1 March
+// 2024 to 28 February 2025
+let companyCount = 0;
+
+async function seedCompany(options: { retainedEarnings?: boolean } = {}) {
+  companyCount++;
+  const [user] = await db.insert(users).values({ email: `reports${companyCount}@example.com`, password: "-" }).returning();
+  const [company] = await db.insert(companies).values({ ownerId: user.id, name: `Reports ${companyCount}` }).returning();
+  const account = async (code: string, name: string, type: string) => {
+    const [created] = await db.insert(userAccounts)
+      .values({ userId: user.id, companyId: company.id, code, name, type })
+      .returning();
+    return created.id;
+  };
+
+  const accounts = {
+    bank: await account("1000", "Bank", "asset"),
+    capital: await account("3000", "Capital", "equity"),
+    retained: options.retainedEarnings ? await account("3100", "Retained earnings", "equity") : null,
+    sales: await account("4000", "Sales", "income"),
+    rent: await account("6000", "Rent", "expense"),
+  };
+
+  // A manual journal debiting the first account and crediting the second
+  const post = async (date: string, debitAccountId: number, creditAccountId: number, amount: number) => {
+    const [journal] = await db.insert(journals)
+      .values({ companyId: company.id, source: "manual", date: new Date(`${date}T00:00:00Z`), description: `Journal ${date}` })
+      .returning();
+    await db.insert(journalLines).values([
+      { journalId: journal.id, accountId: debitAccountId, debit: amount.toFixed(2) },
+      { journalId: journal.id, accountId: creditAccountId, credit: amount.toFixed(2) },
+    ]);
+  };
+
+  const openWith = async (financialYear: number, balances: Array<[number, number]>) => {
+    await db.insert(openingBalances).values(balances.map(([accountId, amount]) => ({
+      userId: user.id,
+      companyId: company.id,
+      financialYear,
+      accountId,
+      debit: Math.max(amount, 0).toFixed(2),
+      credit: Math.max(-amount, 0).toFixed(2),
+    })));
+  };
+
+  return { companyId: company.id, accounts, post, openWith };
+}
+
+// Opening and closing balance of each line, keyed by account id or line code
+async function trialBalance(companyId: number, options: Parameters<typeof getTrialBalance>[1]) {
+  const report = await getTrialBalance(companyId, options);
+  expect(report.balanced).toBe(true);
+  return new Map(report.lines.map(line => [line.accountId ?? line.code, { opening: line.opening, closing: line.closing }]));
+}
+
+describe("closing earlier years to retained earnings", () => {
+  it("brings earlier years' profit forward on the retained earnings line when the chart has no account for it", async () => {
+    const { companyId, accounts, post } = await seedCompany();
+    await post("2023-06-01", accounts.bank, accounts.sales, 1000);
+    await post("2023-07-01", accounts.rent, accounts.bank, 300);
+    await post("2024-04-01", accounts.bank, accounts.sales, 500);
+
+    const lines = await trialBalance(companyId, { financialYear: 2025 });
+    expect(lines.get(accounts.bank)).toEqual({ opening: 700, closing: 1200 });
+    expect(lines.get(accounts.sales)).toEqual({ opening: 0, closing: -500 });
+    expect(lines.get(accounts.rent)).toBeUndefined();
+    expect(lines.get("RETAINED")).toEqual({ opening: -700, closing: -700 });
+  });
+
+  it("keeps this year's results on their accounts for a period later in the year", async () => {
+    const { companyId, accounts, post } = await seedCompany();
+    await post("2023-06-01", accounts.bank, accounts.sales, 1000);
+    await post("2024-04-01", accounts.bank, accounts.sales, 500);
+    await post("2024-06-10", accounts.rent, accounts.bank, 200);
+
+    const lines = await trialBalance(companyId, { from: "2024-06-01", to: "2024-06-30" });
+    expect(lines.get(accounts.sales)).toEqual({ opening: -500, closing: -500 });
+    expect(lines.get(accounts.rent)).toEqual({ opening: 0, closing: 200 });
+    expect(lines.get("RETAINED")).toEqual({ opening: -1000, closing: -1000 });
+  });
+
+  it("closes to the chart's retained earnings account when there is one", async () => {
+    const { companyId, accounts, post } = await seedCompany({ retainedEarnings: true });
+    await post("2023-06-01", accounts.bank, accounts.sales, 1000);
+    await post("2023-07-01", accounts.rent, accounts.bank, 300);
+
+    const lines = await trialBalance(companyId, { financialYear: 2025 });
+    expect(lines.get(accounts.retained!)).toEqual({ opening: -700, closing: -700 });
+    expect(lines.has("RETAINED")).toBe(false);
+
+    const balanceSheet = await getBalanceSheet(companyId, { financialYear: 2025, comparative: false });
+    expect(balanceSheet.balanced).toBe(true);
+    expect(balanceSheet.totals).toMatchObject({ assets: 700, liabilitiesAndEquity: 700 });
+  });
+
+  it("starts from imported opening balances and ignores journals from before them", async () => {
+    const { companyId, accounts, post, openWith } = await seedCompany({ retainedEarnings: true });
+    await post("2023-06-01", accounts.bank, accounts.sales, 1000);
+    await openWith(2025, [[accounts.bank, 2000], [accounts.capital, -1500], [accounts.retained!, -500]]);
+    await post("2024-04-01", accounts.bank, accounts.sales, 400);
+    await post("2024-05-01", accounts.rent, accounts.bank, 100);
+
+    const thisYear = await trialBalance(companyId, { financialYear: 2025 });
+    expect(thisYear.get(accounts.bank)).toEqual({ opening: 2000, closing: 2300 });
+    expect(thisYear.get(accounts.retained!)).toEqual({ opening: -500, closing: -500 });
+
+    // A year on, FY2025's profit of 300 has been closed off as well
+    const nextYear = await trialBalance(companyId, { financialYear: 2026 });
+    expect(nextYear.get(accounts.bank)).toEqual({ opening: 2300, closing: 2300 });
+    expect(nextYear.get(accounts.capital)).toEqual({ opening: -1500, closing: -1500 });
+    expect(nextYear.get(accounts.retained!)).toEqual({ opening: -800, closing: -800 });
+    expect(nextYear.get(accounts.sales)).toBeUndefined();
+  });
+});
@@ -0,0 +1,950 @@
+import { db } from "@db";
+import { eq, and, gte, lt, lte, sql, inArray, isNull, notExists, asc, desc, type SQL } from "drizzle-orm";
+import {
+  bankAccounts,
+  transactions,
+  importBatches,
+  journals,
+  journalLines,
+  openingBalances,
+  transactionSplits,
+  userAccounts,
+  type UserAccount
+} from "@db/schema";
+import {
+  financialYearPeriod,
+  financialYearOf,
+  financialYearName,
+  getYearEndMonth,
+  type ReportPeriod
+} from "./financialYears";
+
+export class ReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportError';
+  }
+}
+
+export interface ReportOptions {
+  from?: string;
+  to?: string;
+  financialYear?: number;
+  // Only statements from this bank account. The only opening balance kept is
+  // the one on the bank account's own ledger account.
+  bankAccountId?: number;
+  // Income statement and balance sheet only; on unless explicitly turned off
+  comparative?: boolean;
+}
+
+// Balances are signed debit-positive throughout: a positive net balance is a
+// debit, a negative one a credit
+export interface TrialBalanceLine {
+  accountId: number | null;
+  code: string;
+  name: string;
+  type: string | null;
+  parentId: number | null;
+  depth: number;
+  hasChildren: boolean;
+  // Rolled up over the account and everything below it
+  opening: number;
+  movement: number;
+  closing: number;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalanceReport {
+  period: { from: string; to: string; financialYear: number };
+  lines: TrialBalanceLine[];
+  totals: { opening: number; movement: number; debit: number; credit: number };
+  balanced: boolean;
+  unallocatedCount: number;
+}
+
+// A line on an income statement or balance sheet. Amounts are presented the
+// way the section reads: income, liabilities and equity as positive credits.
+export interface StatementLine {
+  kind: "heading" | "account" | "subtotal";
+  accountId: number | null;
+  code: string | null;
+  name: string;
+  depth: number;
+  // Null on headings, and for the comparative when there is no comparative
+  amount: number | null;
+  comparative: number | null;
+}
+
+export interface StatementSection {
+  key: string;
+  title: string;
+  lines: StatementLine[];
+  total: number;
+  comparativeTotal: number | null;
+}
+
+interface PeriodSummary {
+  from: string;
+  to: string;
+  financialYear: number;
+  // Name of the financial year, such as FY2024/25
+  name: string;
+}
+
+export interface IncomeStatementReport {
+  period: PeriodSummary;
+  comparativePeriod: PeriodSummary | null;
+  sections: StatementSection[];
+  netProfit: number;
+  comparativeNetProfit: number | null;
+  unallocatedCount: number;
+}
+
+export interface BalanceSheetReport {
+  period: PeriodSummary;
+  comparativePeriod: PeriodSummary | null;
+  sections: StatementSection[];
+  totals: {
+    assets: number;
+    liabilitiesAndEquity: number;
+    comparativeAssets: number | null;
+    comparativeLiabilitiesAndEquity: number | null;
+  };
+  balanced: boolean;
+  unallocatedCount: number;
+}
+
+export interface GeneralLedgerOptions extends ReportOptions {
+  // A chart account id, or the BANK, SUSPENSE or RETAINED line of the trial
+  // balance
+  account: number | string;
+  // Include postings to the account's sub-accounts; on unless turned off
+  includeChildren?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface GeneralLedgerEntry {
+  journalId: number;
+  lineId: number;
+  source: string;
+  // Set on the journals of statement transactions
+  transactionId: number | null;
+  date: string;
+  description: string;
+  reference: string | null;
+  explanation: string | null;
+  // The account posted to, which differs from the report account when
+  // sub-accounts are included
+  accountId: number | null;
+  accountCode: string | null;
+  accountName: string | null;
+  predictedBy: string | null;
+  confidence: number | null;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface GeneralLedgerReport {
+  account: { accountId: number | null; code: string; name: string; type: string | null; accountIds: number[] };
+  period: PeriodSummary;
+  openingBalance: number;
+  closingBalance: number;
+  totals: { debit: number; credit: number };
+  entries: GeneralLedgerEntry[];
+  pagination: { page: number; pageSize: number; total: number; totalPages: number };
+}
+
+export interface UnallocatedTransaction {
+  transactionId: number;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+}
+
+export interface UnallocatedTransactionsReport {
+  period: PeriodSummary;
+  transactions: UnallocatedTransaction[];
+  totals: { moneyIn: number; moneyOut: number };
+}
+
+// Lines for amounts that do not belong to a chart of accounts entry. Statements
+// are normally posted to their bank account's ledger account; BANK holds those
+// imported before they were attached to a bank account.
+const BANK_LINE = { code: "BANK", name: "Unassigned bank statements" };
+const UNALLOCATED_LINE = { code: "SUSPENSE", name: "Unallocated transactions" };
+// Stands in for the retained earnings account when the chart has none
+const RETAINED_EARNINGS_LINE = { key: "RETAINED", name: "Retained earnings" };
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDate(value: string, label: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    throw new ReportError(`${label} must be a date in the form yyyy-mm-dd`);
+  }
+  return date;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86400 * 1000);
+}
+
+// Resolve the requested period: an explicit date range, a financial year, or
+// by default the financial year we are in now
+export function resolveReportPeriod(options: ReportOptions, yearEndMonth: number): ReportPeriod {
+  if (options.from || options.to) {
+    if (!options.from || !options.to) {
+      throw new ReportError("Both from and to dates are required for a date range");
+    }
+    const from = parseDate(options.from, "from");
+    const to = parseDate(options.to, "to");
+    if (from > to) {
+      throw new ReportError("The from date must not be after the to date");
+    }
+    return { from, to, financialYear: financialYearOf(from, yearEndMonth), yearEndMonth };
+  }
+
+  if (options.financialYear !== undefined) {
+    if (!Number.isInteger(options.financialYear)) {
+      throw new ReportError("financialYear must be a year such as 2025");
+    }
+    return financialYearPeriod(options.financialYear, yearEndMonth);
+  }
+
+  return financialYearPeriod(financialYearOf(new Date(), yearEndMonth), yearEndMonth);
+}
+
+// Journals of statement transactions from one bank account. Manual journals
+// belong to no bank account, so a bank filter leaves them out.
+function bankAccountJournals(bankAccountId: number) {
+  return inArray(
+    journals.transactionId,
+    db.select({ id: transactions.id })
+      .from(transactions)
+      .innerJoin(importBatches, eq(transactions.importBatchId, importBatches.id))
+      .where(eq(importBatches.bankAccountId, bankAccountId))
+  );
+}
+
+// Net debits less credits posted between two dates, or from the first journal
+// when there is no start date, per account, with the lines still waiting for
+// an account kept apart by the side they are on
+async function journalTotals(companyId: number, from: Date | null, toExclusive: Date, bankAccountId?: number) {
+  if (from && from >= toExclusive) return [];
+
+  const rows = await db
+    .select({
+      accountId: journalLines.accountId,
+      bankLine: journalLines.bankLine,
+      amount: sql<string>`sum(${journalLines.debit} - ${journalLines.credit})`,
+      count: sql<number>`count(distinct ${journals.id})::int`,
+    })
+    .from(journalLines)
+    .innerJoin(journals, eq(journalLines.journalId, journals.id))
+    .where(and(
+      eq(journals.companyId, companyId),
+      bankAccountId !== undefined ? bankAccountJournals(bankAccountId) : undefined,
+      from ? gte(journals.date, from) : undefined,
+      lt(journals.date, toExclusive)
+    ))
+    .groupBy(journalLines.accountId, journalLines.bankLine);
+
+  return rows.map(row => ({
+    accountId: row.accountId,
+    bankLine: row.bankLine,
+    amount: Number(row.amount),
+    count: row.count,
+  }));
+}
+
+// The equity account results are closed off to, found by name since the
+// chart has no flag for it
+function retainedEarningsAccount(accounts: UserAccount[]): UserAccount | undefined {
+  return accounts.find(account => account.type === "equity" && /retained/i.test(account.name));
+}
+
+// Where a line without an account is reported
+function unassignedKey(bankLine: boolean): string {
+  return bankLine ? BANK_LINE.code : UNALLOCATED_LINE.code;
+}
+
+type OwnBalances = Map<number | string, { opening: number; movement: number }>;
+
+// Own (not rolled up) balances for a period, keyed by account id, or by line
+// code for unassigned statements, unallocated transactions and retained
+// earnings when the chart has no account for it.
+// Opening starts from the most recent opening balances imported for the
+// period's financial year or an earlier one, and adds every journal from then
+// up to the start of the period. Income and expense from before the period's
+// financial year are earlier years' results, so they are closed off to
+// retained earnings rather than left on their accounts.
+async function ledgerBalances(companyId: number, period: ReportPeriod, bankAccountId?: number) {
+  const yearStart = financialYearPeriod(period.financialYear, period.yearEndMonth).from;
+
+  const accounts = await db.query.userAccounts.findMany({
+    where: eq(userAccounts.companyId, companyId),
+    orderBy: [userAccounts.code],
+  });
+  const accountsById = new Map(accounts.map(account => [account.id, account]));
+  const retainedEarningsKey = retainedEarningsAccount(accounts)?.id ?? RETAINED_EARNINGS_LINE.key;
+
+  let bankLedgerAccountId: number | undefined;
+  if (bankAccountId !== undefined) {
+    const bankAccount = await db.query.bankAccounts.findFirst({
+      where: and(eq(bankAccounts.id, bankAccountId), eq(bankAccounts.companyId, companyId)),
+      columns: { ledgerAccountId: true },
+    });
+    if (!bankAccount) {
+      throw new ReportError("Bank account not found");
+    }
+    bankLedgerAccountId = bankAccount.ledgerAccountId;
+  }
+
+  const own: OwnBalances = new Map();
+  const add = (key: number | string, field: "opening" | "movement", amount: number) => {
+    const entry = own.get(key) ?? { opening: 0, movement: 0 };
+    entry[field] += amount;
+    own.set(key, entry);
+  };
+  const addEarlierYears = (key: number | string, amount: number) => {
+    const type = typeof key === "number" ? accountsById.get(key)?.type : undefined;
+    add(type === "income" || type === "expense" ? retainedEarningsKey : key, "opening", amount);
+  };
+
+  const latest = await db.query.openingBalances.findFirst({
+    where: and(
+      eq(openingBalances.companyId, companyId),
+      lte(openingBalances.financialYear, period.financialYear)
+    ),
+    orderBy: [desc(openingBalances.financialYear)],
+    columns: { financialYear: true },
+  });
+  const balances = !latest ? [] : await db.query.openingBalances.findMany({
+    where: and(
+      eq(openingBalances.companyId, companyId),
+      eq(openingBalances.financialYear, latest.financialYear),
+      bankLedgerAccountId !== undefined ? eq(openingBalances.accountId, bankLedgerAccountId) : undefined
+    ),
+  });
+  for (const balance of balances) {
+    addEarlierYears(balance.accountId, Number(balance.debit) - Number(balance.credit));
+  }
+
+  // Journals dated before the imported balances are already in them
+  const broughtForwardFrom = latest
+    ? financialYearPeriod(latest.financialYear, period.yearEndMonth).from
+    : null;
+  const thisYearFrom = broughtForwardFrom && broughtForwardFrom > yearStart ? broughtForwardFrom : yearStart;
+  const toExclusive = addDays(period.to, 1);
+  const [earlierYears, thisYear, inPeriod] = await Promise.all([
+    journalTotals(companyId, broughtForwardFrom, thisYearFrom, bankAccountId),
+    journalTotals(companyId, thisYearFrom, period.from, bankAccountId),
+    journalTotals(companyId, period.from, toExclusive, bankAccountId),
+  ]);
+
+  for (const { accountId, bankLine, amount } of earlierYears) {
+    addEarlierYears(accountId ?? unassignedKey(bankLine), amount);
+  }
+  let unallocatedCount = 0;
+  for (const [field, totals] of [["opening", thisYear], ["movement", inPeriod]] as const) {
+    for (const { accountId, bankLine, amount, count } of totals) {
+      add(accountId ?? unassignedKey(bankLine), field, amount);
+      if (accountId === null && !bankLine && field === "movement") unallocatedCount += count;
+    }
+  }
+
+  return { accounts, accountsById, own, unallocatedCount };
+}
+
+function periodSummary(period: ReportPeriod): PeriodSummary {
+  return {
+    from: isoDate(period.from),
+    to: isoDate(period.to),
+    financialYear: period.financialYear,
+    name: financialYearName(period.financialYear, period.yearEndMonth),
+  };
+}
+
+export async function getTrialBalance(companyId: number, options: ReportOptions): Promise<TrialBalanceReport> {
+  const period = resolveReportPeriod(options, await getYearEndMonth(companyId));
+  const { accounts, accountsById, own, unallocatedCount } = await ledgerBalances(companyId, period, options.bankAccountId);
+
+  const lines = buildLines(accounts, accountsById, own);
+
+  const totals = { opening: 0, movement: 0, debit: 0, credit: 0 };
+  for (const { opening, movement } of Array.from(own.values())) {
+    const closing = opening + movement;
+    totals.opening += opening;
+    totals.movement += movement;
+    if (closing > 0) totals.debit += closing;
+    else totals.credit -= closing;
+  }
+
+  return {
+    period: periodSummary(period),
+    lines,
+    totals: {
+      opening: round(totals.opening),
+      movement: round(totals.movement),
+      debit: round(totals.debit),
+      credit: round(totals.credit),
+    },
+    balanced: round(totals.debit) === round(totals.credit),
+    unallocatedCount,
+  };
+}
+
+// Lay the balances out in chart order, rolling each account's balance up into
+// its parents. Accounts with nothing on them anywhere below are left out.
+function buildLines(
+  accounts: UserAccount[],
+  accountsById: Map<number, UserAccount>,
+  own: OwnBalances
+): TrialBalanceLine[] {
+  const children = new Map<number | null, UserAccount[]>();
+  for (const account of accounts) {
+    const parentId = account.parentId && accountsById.has(account.parentId) ? account.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), account]);
+  }
+
+  const visit = (
+    account: UserAccount,
+    depth: number
+  ): { lines: TrialBalanceLine[]; total: { opening: number; movement: number } } => {
+    const total = { ...(own.get(account.id) ?? { opening: 0, movement: 0 }) };
+    const childLines: TrialBalanceLine[] = [];
+    for (const child of children.get(account.id) ?? []) {
+      const result = visit(child, depth + 1);
+      total.opening += result.total.opening;
+      total.movement += result.total.movement;
+      childLines.push(...result.lines);
+    }
+
+    if (!own.has(account.id) && childLines.length === 0) {
+      return { lines: [], total };
+    }
+    const line = toLine(
+      account.id, account.code, account.name, account.type, account.parentId,
+      depth, childLines.length > 0, total
+    );
+    return { lines: [line, ...childLines], total };
+  };
+
+  const lines = (children.get(null) ?? []).flatMap(root => visit(root, 0).lines);
+
+  for (const extra of [BANK_LINE, UNALLOCATED_LINE, { code: RETAINED_EARNINGS_LINE.key, name: RETAINED_EARNINGS_LINE.name }]) {
+    const total = own.get(extra.code);
+    if (total) {
+      lines.push(toLine(null, extra.code, extra.name, null, null, 0, false, total));
+    }
+  }
+
+  return lines;
+}
+
+function toLine(
+  accountId: number | null,
+  code: string,
+  name: string,
+  type: string | null,
+  parentId: number | null,
+  depth: number,
+  hasChildren: boolean,
+  total: { opening: number; movement: number }
+): TrialBalanceLine {
+  const closing = round(total.opening + total.movement);
+  return {
+    accountId,
+    code,
+    name,
+    type,
+    parentId,
+    depth,
+    hasChildren,
+    opening: round(total.opening),
+    movement: round(total.movement),
+    closing,
+    debit: closing > 0 ? closing : 0,
+    credit: closing < 0 ? -closing : 0,
+  };
+}
+
+// The same date a year earlier, keeping to the end of February in leap years
+function yearEarlier(date: Date): Date {
+  const year = date.getUTCFullYear() - 1;
+  const month = date.getUTCMonth();
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+// A whole financial year compares with the year before it; any other range
+// with the same dates a year earlier
+function comparativePeriodFor(period: ReportPeriod): ReportPeriod {
+  const year = financialYearPeriod(period.financialYear, period.yearEndMonth);
+  if (isoDate(year.from) === isoDate(period.from) && isoDate(year.to) === isoDate(period.to)) {
+    return financialYearPeriod(period.financialYear - 1, period.yearEndMonth);
+  }
+  const from = yearEarlier(period.from);
+  return {
+    from,
+    to: yearEarlier(period.to),
+    financialYear: financialYearOf(from, period.yearEndMonth),
+    yearEndMonth: period.yearEndMonth,
+  };
+}
+
+// From the start of the financial year up to the given date, which is what a
+// balance sheet at that date needs
+function yearToDate(to: Date, yearEndMonth: number): ReportPeriod {
+  const financialYear = financialYearOf(to, yearEndMonth);
+  return { from: financialYearPeriod(financialYear, yearEndMonth).from, to, financialYear, yearEndMonth };
+}
+
+interface StatementNode {
+  key: number | string;
+  accountId: number | null;
+  code: string | null;
+  name: string;
+  children: StatementNode[];
+}
+
+// Amounts keyed like OwnBalances, already in presentation sign
+type StatementAmounts = Map<number | string, number>;
+
+// Build the tree for one account type. Accounts whose parent is of another
+// type start their own branch; extra lines hang off the given parent account,
+// or the top level when it has none.
+function statementTree(
+  accounts: UserAccount[],
+  type: string,
+  extras: { key: string; name: string; parentId: number | null }[] = []
+): StatementNode[] {
+  const ofType = accounts.filter(account => account.type === type);
+  const nodes = new Map(ofType.map(account => [account.id, {
+    key: account.id,
+    accountId: account.id,
+    code: account.code,
+    name: account.name,
+    children: [],
+  } as StatementNode]));
+
+  const roots: StatementNode[] = [];
+  for (const account of ofType) {
+    const parent = account.parentId ? nodes.get(account.parentId) : undefined;
+    (parent ? parent.children : roots).push(nodes.get(account.id)!);
+  }
+  for (const extra of extras) {
+    const node: StatementNode = { key: extra.key, accountId: null, code: null, name: extra.name, children: [] };
+    const parent = extra.parentId !== null ? nodes.get(extra.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
+
+// Lay out a section with a heading and subtotal for every parent that has
+// something on it, leaving out branches that are empty in both periods
+function buildSection(
+  key: string,
+  title: string,
+  roots: StatementNode[],
+  current: StatementAmounts,
+  comparative: StatementAmounts | null
+): StatementSection {
+  const visit = (
+    node: StatementNode,
+    depth: number
+  ): { lines: StatementLine[]; amount: number; comparative: number } => {
+    const ownAmount = current.get(node.key) ?? 0;
+    const ownComparative = comparative?.get(node.key) ?? 0;
+    const hasOwn = round(ownAmount) !== 0 || round(ownComparative) !== 0;
+
+    let amount = ownAmount;
+    let comparativeAmount = ownComparative;
+    const childLines: StatementLine[] = [];
+    for (const child of node.children) {
+      const result = visit(child, depth + 1);
+      amount += result.amount;
+      comparativeAmount += result.comparative;
+      childLines.push(...result.lines);
+    }
+
+    const line = (kind: StatementLine["kind"], name: string, lineDepth: number, value: number | null, compare: number | null): StatementLine => ({
+      kind,
+      accountId: node.accountId,
+      code: kind === "subtotal" ? null : node.code,
+      name,
+      depth: lineDepth,
+      amount: value === null ? null : round(value),
+      comparative: comparative && compare !== null ? round(compare) : null,
+    });
+
+    if (childLines.length === 0) {
+      return {
+        lines: hasOwn ? [line("account", node.name, depth, ownAmount, ownComparative)] : [],
+        amount,
+        comparative: comparativeAmount,
+      };
+    }
+
+    return {
+      lines: [
+        line("heading", node.name, depth, null, null),
+        // Postings straight to a parent account show under its own heading
+        ...(hasOwn ? [line("account", node.name, depth + 1, ownAmount, ownComparative)] : []),
+        ...childLines,
+        line("subtotal", `Total ${node.name}`, depth, amount, comparativeAmount),
+      ],
+      amount,
+      comparative: comparativeAmount,
+    };
+  };
+
+  const lines: StatementLine[] = [];
+  let total = 0;
+  let comparativeTotal = 0;
+  for (const root of roots) {
+    const result = visit(root, 0);
+    lines.push(...result.lines);
+    total += result.amount;
+    comparativeTotal += result.comparative;
+  }
+
+  return {
+    key,
+    title,
+    lines,
+    total: round(total),
+    comparativeTotal: comparative ? round(comparativeTotal) : null,
+  };
+}
+
+// Income is a credit and expenses a debit, so income shows as the negated
+// balance and net profit is what the two leave over
+function incomeStatementAmounts(
+  ledger: Awaited<ReturnType<typeof ledgerBalances>>
+): StatementAmounts {
+  const amounts: StatementAmounts = new Map();
+  for (const [key, { movement }] of Array.from(ledger.own)) {
+    const type = typeof key === "number" ? ledger.accountsById.get(key)?.type : undefined;
+    if (type === "income") amounts.set(key, -movement);
+    if (type === "expense") amounts.set(key, movement);
+  }
+  return amounts;
+}
+
+function sectionTotal(sections: StatementSection[], key: string, field: "total" | "comparativeTotal") {
+  return sections.find(section => section.key === key)?.[field] ?? 0;
+}
+
+export async function getIncomeStatement(companyId: number, options: ReportOptions): Promise<IncomeStatementReport> {
+  const period = resolveReportPeriod(options, await getYearEndMonth(companyId));
+  const comparativePeriod = options.comparative === false ? null : comparativePeriodFor(period);
+
+  const ledger = await ledgerBalances(companyId, period, options.bankAccountId);
+  const priorLedger = comparativePeriod
+    ? await ledgerBalances(companyId, comparativePeriod, options.bankAccountId)
+    : null;
+
+  const current = incomeStatementAmounts(ledger);
+  const prior = priorLedger ? incomeStatementAmounts(priorLedger) : null;
+
+  const sections = [
+    buildSection("income", "Income", statementTree(ledger.accounts, "income"), current, prior),
+    buildSection("expenses", "Expenses", statementTree(ledger.accounts, "expense"), current, prior),
+  ];
+
+  return {
+    period: periodSummary(period),
+    comparativePeriod: comparativePeriod ? periodSummary(comparativePeriod) : null,
+    sections,
+    netProfit: round(sectionTotal(sections, "income", "total") - sectionTotal(sections, "expenses", "total")),
+    comparativeNetProfit: comparativePeriod
+      ? round(sectionTotal(sections, "income", "comparativeTotal") - sectionTotal(sections, "expenses", "comparativeTotal"))
+      : null,
+    unallocatedCount: ledger.unallocatedCount,
+  };
+}
+
+const PROFIT_LINE = { key: "PROFIT", name: "Profit/(loss) for the period" };
+
+// Closing balances at the end of the period, with liabilities and equity as
+// positive credits. Earlier years' income and expense reach the ledger
+// already closed off to retained earnings, so what is left on them is this
+// year's profit.
+function balanceSheetAmounts(ledger: Awaited<ReturnType<typeof ledgerBalances>>): StatementAmounts {
+  const amounts: StatementAmounts = new Map();
+  const add = (key: number | string, amount: number) => amounts.set(key, (amounts.get(key) ?? 0) + amount);
+
+  for (const [key, { opening, movement }] of Array.from(ledger.own)) {
+    const closing = opening + movement;
+    const type = typeof key === "number" ? ledger.accountsById.get(key)?.type : undefined;
+
+    if (key === BANK_LINE.code || key === UNALLOCATED_LINE.code || type === "asset") {
+      add(key, closing);
+    } else if (key === RETAINED_EARNINGS_LINE.key || type === "liability" || type === "equity") {
+      add(key, -closing);
+    } else if (type === "income" || type === "expense") {
+      add(PROFIT_LINE.key, -closing);
+    }
+  }
+  return amounts;
+}
+
+export async function getBalanceSheet(companyId: number, options: ReportOptions): Promise<BalanceSheetReport> {
+  const asAt = resolveReportPeriod(options, await getYearEndMonth(companyId));
+  const period = yearToDate(asAt.to, asAt.yearEndMonth);
+  const comparativePeriod = options.comparative === false
+    ? null
+    : yearToDate(comparativePeriodFor(asAt).to, asAt.yearEndMonth);
+
+  const ledger = await ledgerBalances(companyId, period, options.bankAccountId);
+  const priorLedger = comparativePeriod
+    ? await ledgerBalances(companyId, comparativePeriod, options.bankAccountId)
+    : null;
+
+  const retainedEarnings = retainedEarningsAccount(ledger.accounts);
+  const current = balanceSheetAmounts(ledger);
+  const prior = priorLedger ? balanceSheetAmounts(priorLedger) : null;
+
+  // Unallocated amounts sit with assets while they are a debit and with
+  // liabilities once they are a credit
+  const suspense = current.get(UNALLOCATED_LINE.code) ?? prior?.get(UNALLOCATED_LINE.code) ?? 0;
+  const suspenseInAssets = suspense >= 0;
+  if (!suspenseInAssets) {
+    for (const amounts of [current, prior]) {
+      if (amounts?.has(UNALLOCATED_LINE.code)) {
+        amounts.set(UNALLOCATED_LINE.code, -amounts.get(UNALLOCATED_LINE.code)!);
+      }
+    }
+  }
+
+  const bankLine = { key: BANK_LINE.code, name: BANK_LINE.name, parentId: null };
+  const suspenseLine = { key: UNALLOCATED_LINE.code, name: UNALLOCATED_LINE.name, parentId: null };
+  const equityExtras = retainedEarnings
+    ? [{ ...PROFIT_LINE, parentId: retainedEarnings.id }]
+    : [{ ...RETAINED_EARNINGS_LINE, parentId: null }, { ...PROFIT_LINE, parentId: null }];
+
+  const sections = [
+    buildSection("assets", "Assets", statementTree(ledger.accounts, "asset",
+      suspenseInAssets ? [bankLine, suspenseLine] : [bankLine]), current, prior),
+    buildSection("liabilities", "Liabilities", statementTree(ledger.accounts, "liability",
+      suspenseInAssets ? [] : [suspenseLine]), current, prior),
+    buildSection("equity", "Equity", statementTree(ledger.accounts, "equity", equityExtras), current, prior),
+  ];
+
+  const assets = sectionTotal(sections, "assets", "total");
+  const liabilitiesAndEquity = round(
+    sectionTotal(sections, "liabilities", "total") + sectionTotal(sections, "equity", "total")
+  );
+
+  return {
+    period: periodSummary(period),
+    comparativePeriod: comparativePeriod ? periodSummary(comparativePeriod) : null,
+    sections,
+    totals: {
+      assets,
+      liabilitiesAndEquity,
+      comparativeAssets: comparativePeriod ? sectionTotal(sections, "assets", "comparativeTotal") : null,
+      comparativeLiabilitiesAndEquity: comparativePeriod
+        ? round(sectionTotal(sections, "liabilities", "comparativeTotal") + sectionTotal(sections, "equity", "comparativeTotal"))
+        : null,
+    },
+    balanced: assets === liabilitiesAndEquity,
+    unallocatedCount: ledger.unallocatedCount,
+  };
+}
+
+const DEFAULT_LEDGER_PAGE_SIZE = 50;
+export const MAX_LEDGER_PAGE_SIZE = 500;
+
+// Every account at or below the given one
+function accountWithDescendants(accounts: UserAccount[], accountId: number): number[] {
+  const ids = [accountId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const account of accounts) {
+      if (account.parentId === ids[i] && !ids.includes(account.id)) ids.push(account.id);
+    }
+  }
+  return ids;
+}
+
+// Transactions for an account in a period, one page at a time, with the
+// balance running on from the opening balance. A transaction debits its bank
+// account's ledger account with the statement amount and credits the account
+// it is allocated to, so a bank ledger account shows its statement lines as
+// they are and transfers allocated to it negated.
+export async function getGeneralLedger(companyId: number, options: GeneralLedgerOptions): Promise<GeneralLedgerReport> {
+  const period = resolveReportPeriod(options, await getYearEndMonth(companyId));
+  const page = options.page ?? 1;
+  const pageSize = options.pageSize ?? DEFAULT_LEDGER_PAGE_SIZE;
+  if (!Number.isInteger(page) || page < 1) {
+    throw new ReportError("page must be a whole number from 1");
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_LEDGER_PAGE_SIZE) {
+    throw new ReportError(`pageSize must be a whole number from 1 to ${MAX_LEDGER_PAGE_SIZE}`);
+  }
+
+  const ledger = await ledgerBalances(companyId, period, options.bankAccountId);
+
+  let account: GeneralLedgerReport["account"];
+  let posted: SQL | undefined;
+  if (options.account === BANK_LINE.code || options.account === UNALLOCATED_LINE.code) {
+    const line = options.account === BANK_LINE.code ? BANK_LINE : UNALLOCATED_LINE;
+    account = { accountId: null, ...line, type: null, accountIds: [] };
+    posted = and(
+      isNull(journalLines.accountId),
+      eq(journalLines.bankLine, line === BANK_LINE)
+    );
+  } else if (options.account === RETAINED_EARNINGS_LINE.key) {
+    // Nothing is posted to it; its balance is earlier years' results
+    account = { accountId: null, code: RETAINED_EARNINGS_LINE.key, name: RETAINED_EARNINGS_LINE.name, type: "equity", accountIds: [] };
+    posted = sql`false`;
+  } else {
+    const chartAccount = typeof options.account === "number" ? ledger.accountsById.get(options.account) : undefined;
+    if (!chartAccount) {
+      throw new ReportError("Account not found in your chart of accounts");
+    }
+    const accountIds = options.includeChildren === false
+      ? [chartAccount.id]
+      : accountWithDescendants(ledger.accounts, chartAccount.id);
+    account = { accountId: chartAccount.id, code: chartAccount.code, name: chartAccount.name, type: chartAccount.type, accountIds };
+    posted = inArray(journalLines.accountId, accountIds);
+  }
+
+  const keys: (number | string)[] = account.accountIds.length > 0 ? account.accountIds : [account.code];
+  let openingBalance = 0;
+  let closingBalance = 0;
+  for (const key of keys) {
+    const balance = ledger.own.get(key);
+    if (balance) {
+      openingBalance += balance.opening;
+      closingBalance += balance.opening + balance.movement;
+    }
+  }
+
+  const signedAmount = sql`${journalLines.debit} - ${journalLines.credit}`;
+  const where = and(
+    eq(journals.companyId, companyId),
+    options.bankAccountId !== undefined ? bankAccountJournals(options.bankAccountId) : undefined,
+    gte(journals.date, period.from),
+    lt(journals.date, addDays(period.to, 1)),
+    posted
+  );
+
+  const [summary] = await db
+    .select({
+      count: sql<number>`count(*)::int`,
+      debit: sql<string>`coalesce(sum(${journalLines.debit}), 0)`,
+      credit: sql<string>`coalesce(sum(${journalLines.credit}), 0)`,
+    })
+    .from(journalLines)
+    .innerJoin(journals, eq(journalLines.journalId, journals.id))
+    .where(where);
+
+  // The window runs over the whole period before the page is cut, so the
+  // running balance carries across pages
+  const rows = await db
+    .select({
+      line: journalLines,
+      journal: journals,
+      transaction: transactions,
+      accountCode: userAccounts.code,
+      accountName: userAccounts.name,
+      runningTotal: sql<string>`sum(${signedAmount}) over (order by ${journals.date}, ${journals.id}, ${journalLines.id})`,
+    })
+    .from(journalLines)
+    .innerJoin(journals, eq(journalLines.journalId, journals.id))
+    .leftJoin(transactions, eq(journals.transactionId, transactions.id))
+    .leftJoin(userAccounts, eq(journalLines.accountId, userAccounts.id))
+    .where(where)
+    .orderBy(asc(journals.date), asc(journals.id), asc(journalLines.id))
+    .limit(pageSize)
+    .offset((page - 1) * pageSize);
+
+  const entries = rows.map(({ line, journal, transaction, accountCode, accountName, runningTotal }) => ({
+    journalId: journal.id,
+    lineId: line.id,
+    source: journal.source,
+    transactionId: journal.transactionId,
+    date: isoDate(journal.date),
+    description: journal.description,
+    reference: journal.reference,
+    // A part of a split, or a manual journal line, carries its own
+    explanation: line.description ?? transaction?.explanation ?? null,
+    accountId: line.accountId,
+    accountCode,
+    accountName,
+    predictedBy: transaction?.predictedBy ?? null,
+    confidence: transaction && transaction.confidence !== null ? Number(transaction.confidence) : null,
+    debit: round(Number(line.debit)),
+    credit: round(Number(line.credit)),
+    balance: round(openingBalance + Number(runningTotal)),
+  }));
+
+  return {
+    account,
+    period: periodSummary(period),
+    openingBalance: round(openingBalance),
+    closingBalance: round(closingBalance),
+    totals: { debit: round(Number(summary.debit)), credit: round(Number(summary.credit)) },
+    entries,
+    pagination: {
+      page,
+      pageSize,
+      total: summary.count,
+      totalPages: Math.max(1, Math.ceil(summary.count / pageSize)),
+    },
+  };
+}
+
+// Statement transactions in the period that have not been given an account or split
+export async function getUnallocatedTransactions(
+  companyId: number,
+  options: ReportOptions
+): Promise<UnallocatedTransactionsReport> {
+  const period = resolveReportPeriod(options, await getYearEndMonth(companyId));
+
+  const rows = await db
+    .select({ transaction: transactions })
+    .from(transactions)
+    .innerJoin(importBatches, eq(transactions.importBatchId, importBatches.id))
+    .where(and(
+      eq(importBatches.companyId, companyId),
+      options.bankAccountId !== undefined ? eq(importBatches.bankAccountId, options.bankAccountId) : undefined,
+      gte(transactions.date, period.from),
+      lt(transactions.date, addDays(period.to, 1)),
+      isNull(transactions.accountId),
+      notExists(db.select().from(transactionSplits).where(eq(transactionSplits.transactionId, transactions.id)))
+    ))
+    .orderBy(asc(transactions.date), asc(transactions.id));
+
+  const totals = { moneyIn: 0, moneyOut: 0 };
+  const list = rows.map(({ transaction }) => {
+    const amount = Number(transaction.amount);
+    if (amount > 0) totals.moneyIn += amount;
+    else totals.moneyOut -= amount;
+    return {
+      transactionId: transaction.id,
+      date: isoDate(transaction.date),
+      description: transaction.description,
+      reference: transaction.reference,
+      amount: round(amount),
+    };
+  });
+
+  return {
+    period: periodSummary(period),
+    transactions: list,
+    totals: { moneyIn: round(totals.moneyIn), moneyOut: round(totals.moneyOut) },
+  };
+}
@@ -0,0 +1,166 @@
+import { db } from "@db";
+import { eq, and, or, asc, lt, isNull, isNotNull, sql } from "drizzle-orm";
+import { transactions, transactionSplits, userAccounts } from "@db/schema";
+import { generatePredictions, type Prediction } from "./predictions";
+import { getRule, matchRule, applyRule, adjustRuleConfidence } from "./rules";
+import {
+  updateTransaction,
+  clearAllocation,
+  type TransactionWithSplits
+} from "./transactions";
+
+export class ReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+// Allocations less confident than this are reviewed
+export const DEFAULT_REVIEW_THRESHOLD = 0.8;
+
+// How far one decision moves a rule's confidence. Rejections count for more
+// so a rule that keeps getting it wrong soon stops being applied on its own.
+const RULE_ACCEPTED_STEP = 0.05;
+const RULE_REJECTED_STEP = -0.1;
+
+const REVIEW_PAGE_SIZE = 50;
+
+export interface ReviewItem {
+  transaction: TransactionWithSplits;
+  // unallocated: no prediction was sure enough to apply
+  // low-confidence: a prediction below the threshold was applied
+  // disputed: applied, but another predictor was as sure of a different account
+  reason: "unallocated" | "low-confidence" | "disputed";
+  predictions: Prediction[];
+}
+
+export interface ReviewQueue {
+  threshold: number;
+  total: number;
+  items: ReviewItem[];
+}
+
+export type ReviewDecision =
+  | { action: "accept" }
+  | { action: "choose"; prediction: Pick<Prediction, "explanation" | "accountId" | "type" | "confidence" | "ruleId"> }
+  | { action: "reject" };
+
+function isAllocated(transaction: TransactionWithSplits): boolean {
+  return transaction.accountId !== null || transaction.splits.length > 0;
+}
+
+// Queued by auto-categorisation, or given a prediction below the threshold
+// that nobody has looked at since
+function inReviewQueue(companyId: number, threshold: number) {
+  return and(
+    eq(transactions.companyId, companyId),
+    or(
+      eq(transactions.reviewStatus, "pending"),
+      and(
+        or(isNull(transactions.reviewStatus), eq(transactions.reviewStatus, "auto")),
+        isNotNull(transactions.predictedBy),
+        lt(transactions.confidence, threshold.toFixed(2))
+      )
+    )
+  );
+}
+
+// The oldest transactions waiting for review, each with the competing
+// predictions
+export async function listReviewQueue(companyId: number, threshold = DEFAULT_REVIEW_THRESHOLD): Promise<ReviewQueue> {
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new ReviewError("threshold must be between 0 and 1, such as 0.8");
+  }
+
+  const [{ total }] = await db
+    .select({ total: sql<number>`count(*)::int` })
+    .from(transactions)
+    .where(inReviewQueue(companyId, threshold));
+  const queued = await db.query.transactions.findMany({
+    where: inReviewQueue(companyId, threshold),
+    orderBy: [asc(transactions.date), asc(transactions.id)],
+    limit: REVIEW_PAGE_SIZE,
+    with: { splits: { orderBy: [asc(transactionSplits.id)] } },
+  });
+
+  const items: ReviewItem[] = [];
+  for (const transaction of queued) {
+    items.push({
+      transaction,
+      reason: !isAllocated(transaction)
+        ? "unallocated"
+        : Number(transaction.confidence ?? 0) < threshold ? "low-confidence" : "disputed",
+      predictions: await generatePredictions(companyId, transaction),
+    });
+  }
+  return { threshold, total, items };
+}
+
+// Accepting a transaction's allocation confirms whatever made it, and only
+// then does the allocation teach the predictions; choosing another suggestion
+// or rejecting them all lowers the confidence of a rule that made the wrong
+// one. Either way the transaction leaves the queue.
+export async function reviewTransaction(
+  companyId: number,
+  transaction: TransactionWithSplits,
+  decision: ReviewDecision
+): Promise<TransactionWithSplits> {
+  const allocated = isAllocated(transaction);
+  // A rule's allocations are not linked to it, so the rule is the one that
+  // matches now
+  const ruleBehind = async () => (await matchRule(companyId, transaction))?.id;
+
+  if (decision.action === "accept") {
+    if (!allocated) {
+      throw new ReviewError("Choose one of the suggestions or reject them");
+    }
+    if (transaction.predictedBy === "rule") {
+      const ruleId = await ruleBehind();
+      if (ruleId) await adjustRuleConfidence(companyId, ruleId, RULE_ACCEPTED_STEP);
+    }
+    return updateTransaction(companyId, transaction, { reviewStatus: "reviewed" });
+  }
+
+  if (decision.action === "reject") {
+    if (!allocated || transaction.predictedBy === "rule") {
+      const ruleId = await ruleBehind();
+      if (ruleId) await adjustRuleConfidence(companyId, ruleId, RULE_REJECTED_STEP);
+    }
+    return allocated
+      ? clearAllocation(companyId, transaction, { reviewStatus: "reviewed" })
+      : updateTransaction(companyId, transaction, { reviewStatus: "reviewed" });
+  }
+
+  const { prediction } = decision;
+  const rule = prediction.ruleId !== undefined ? await getRule(companyId, prediction.ruleId) : undefined;
+  if (prediction.ruleId !== undefined && !rule) {
+    throw new ReviewError("Rule not found");
+  }
+  const account = await db.query.userAccounts.findFirst({
+    where: and(
+      eq(userAccounts.id, prediction.accountId),
+      eq(userAccounts.companyId, companyId)
+    ),
+    columns: { id: true },
+  });
+  if (!account) {
+    throw new ReviewError("Account not found in your chart of accounts");
+  }
+
+  if (allocated && transaction.predictedBy === "rule") {
+    const ruleId = await ruleBehind();
+    if (ruleId && ruleId !== rule?.id) await adjustRuleConfidence(companyId, ruleId, RULE_REJECTED_STEP);
+  }
+  if (rule) {
+    await adjustRuleConfidence(companyId, rule.id, RULE_ACCEPTED_STEP);
+    return applyRule(companyId, rule, transaction, { reviewStatus: "reviewed" });
+  }
+  return updateTransaction(companyId, transaction, {
+    explanation: prediction.explanation,
+    accountId: prediction.accountId,
+    predictedBy: prediction.type,
+    confidence: Math.min(prediction.confidence, 1).toFixed(2),
+    reviewStatus: "reviewed",
+  });
+}
@@ -0,0 +1,180 @@
+import { db } from "@db";
+import { eq, and, desc, ilike, sql } from "drizzle-orm";
+import {
+  historicalMatches,
+  ruleSuggestions,
+  transactions,
+  type RuleSuggestion
+} from "@db/schema";
+import { listRules, createRule, type RuleWithParts } from "./rules";
+import { isUnexplained } from "./transactions";
+
+export { type RuleSuggestion };
+
+export class RuleSuggestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleSuggestionError';
+  }
+}
+
+// How many times a description must go to the same account before a rule is
+// proposed for it
+export const RULE_SUGGESTION_MIN_OCCURRENCES = 3;
+
+// The shortest keyword worth a rule; anything shorter matches too much
+const MIN_KEYWORD_LENGTH = 4;
+
+export type RuleSuggestionWithPreview = RuleSuggestion & {
+  account: { id: number; code: string; name: string };
+  matches: number; // existing transactions the rule would match
+  unexplained: number; // of which not explained yet
+};
+
+// Statement descriptions usually end in a reference, date or card number, so
+// the part before the first word with a digit is what stays the same. For
+// "POS PURCHASE WOOLWORTHS 4587 12/03" that is "pos purchase woolworths".
+export function descriptionKeyword(description: string): string | null {
+  const lower = description.toLowerCase();
+  const numbered = Array.from(lower.matchAll(/\S+/g)).find(([word]) => /\d/.test(word));
+  const keyword = lower.slice(0, numbered?.index ?? lower.length).replace(/[\s\W]+$/, "").trim();
+  return keyword.length >= MIN_KEYWORD_LENGTH && /[a-z]/.test(keyword) ? keyword : null;
+}
+
+// Keywords are matched with LIKE, so its wildcards are taken literally
+function startsWithPattern(keyword: string): string {
+  return `${keyword.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+function coveredKeywords(existingRules: RuleWithParts[]): Set<string> {
+  return new Set(existingRules.flatMap(rule => rule.conditions.flatMap(condition =>
+    condition.field === "description" && condition.operator !== "regex"
+      ? [condition.value.toLowerCase()]
+      : []
+  )));
+}
+
+// Group what the user has allocated by keyword and account and propose a rule
+// for every group seen often enough. Pending suggestions keep their counts up
+// to date; accepted and rejected ones are left alone. Run after allocations
+// change, so listing the suggestions only reads them.
+export async function refreshRuleSuggestions(companyId: number): Promise<void> {
+  const matches = await db.query.historicalMatches.findMany({
+    where: eq(historicalMatches.companyId, companyId),
+  });
+
+  const groups = new Map<string, { keyword: string; accountId: number; occurrences: number; explanations: Map<string, number> }>();
+  for (const match of matches) {
+    const keyword = descriptionKeyword(match.transactionDescription);
+    if (!keyword) continue;
+    const key = `${keyword}\u0000${match.accountId}`;
+    const group = groups.get(key) ?? { keyword, accountId: match.accountId, occurrences: 0, explanations: new Map() };
+    const frequency = match.frequency ?? 1;
+    group.occurrences += frequency;
+    group.explanations.set(match.explanation, (group.explanations.get(match.explanation) ?? 0) + frequency);
+    groups.set(key, group);
+  }
+
+  const covered = coveredKeywords(await listRules(companyId));
+  const proposals = Array.from(groups.values())
+    .filter(group => group.occurrences >= RULE_SUGGESTION_MIN_OCCURRENCES && !covered.has(group.keyword))
+    .map(group => ({
+      companyId,
+      keyword: group.keyword,
+      accountId: group.accountId,
+      explanation: Array.from(group.explanations).sort((a, b) => b[1] - a[1])[0][0],
+      occurrences: group.occurrences,
+    }));
+  if (proposals.length === 0) {
+    return;
+  }
+
+  await db.insert(ruleSuggestions)
+    .values(proposals)
+    .onConflictDoUpdate({
+      target: [ruleSuggestions.companyId, ruleSuggestions.keyword, ruleSuggestions.accountId],
+      set: {
+        explanation: sql`excluded.explanation`,
+        occurrences: sql`excluded.occurrences`,
+        updatedAt: new Date(),
+      },
+      setWhere: eq(ruleSuggestions.status, "pending"),
+    });
+}
+
+// How many of the company's transactions a keyword would match
+async function previewKeyword(companyId: number, keyword: string) {
+  const where = and(
+    eq(transactions.companyId, companyId),
+    ilike(transactions.description, startsWithPattern(keyword))
+  );
+  const [[{ matches }], [{ unexplained }]] = await Promise.all([
+    db.select({ matches: sql<number>`count(*)::int` }).from(transactions).where(where),
+    db.select({ unexplained: sql<number>`count(*)::int` }).from(transactions).where(and(where, isUnexplained())),
+  ]);
+  return { matches, unexplained };
+}
+
+export async function listRuleSuggestions(companyId: number): Promise<RuleSuggestionWithPreview[]> {
+  const pending = await db.query.ruleSuggestions.findMany({
+    where: and(
+      eq(ruleSuggestions.companyId, companyId),
+      eq(ruleSuggestions.status, "pending")
+    ),
+    orderBy: [desc(ruleSuggestions.occurrences), desc(ruleSuggestions.id)],
+    with: { account: { columns: { id: true, code: true, name: true } } },
+  });
+
+  // A rule added by hand since may already cover the keyword
+  const covered = coveredKeywords(await listRules(companyId));
+  return Promise.all(pending.filter(({ keyword }) => !covered.has(keyword)).map(async (suggestion) => ({
+    ...suggestion,
+    ...(await previewKeyword(companyId, suggestion.keyword)),
+  })));
+}
+
+async function findPendingSuggestion(companyId: number, suggestionId: number): Promise<RuleSuggestion | undefined> {
+  const suggestion = await db.query.ruleSuggestions.findFirst({
+    where: and(
+      eq(ruleSuggestions.id, suggestionId),
+      eq(ruleSuggestions.companyId, companyId)
+    ),
+  });
+  if (suggestion && suggestion.status !== "pending") {
+    throw new RuleSuggestionError(`This suggestion has already been ${suggestion.status}`);
+  }
+  return suggestion;
+}
+
+// The new rule matches descriptions starting with the keyword and allocates
+// them the way the user has been doing by hand
+export async function acceptRuleSuggestion(
+  companyId: number,
+  suggestionId: number
+): Promise<RuleWithParts | undefined> {
+  const suggestion = await findPendingSuggestion(companyId, suggestionId);
+  if (!suggestion) {
+    return undefined;
+  }
+
+  const rule = await createRule(companyId, {
+    name: suggestion.keyword,
+    conditions: [{ field: "description", operator: "startsWith", value: suggestion.keyword }],
+    action: { explanation: suggestion.explanation, accountId: suggestion.accountId },
+  });
+  await db.update(ruleSuggestions)
+    .set({ status: "accepted", ruleId: rule.id, updatedAt: new Date() })
+    .where(eq(ruleSuggestions.id, suggestion.id));
+  return rule;
+}
+
+export async function rejectRuleSuggestion(companyId: number, suggestionId: number): Promise<boolean> {
+  const suggestion = await findPendingSuggestion(companyId, suggestionId);
+  if (!suggestion) {
+    return false;
+  }
+  await db.update(ruleSuggestions)
+    .set({ status: "rejected", updatedAt: new Date() })
+    .where(eq(ruleSuggestions.id, suggestion.id));
+  return true;
+}
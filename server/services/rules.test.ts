@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Rule, Transaction } from "@db/schema";
+
+const storedRules: Rule[] = [];
+vi.mock("@db", () => ({
+  db: {
+    query: {
+      rules: { findMany: async () => storedRules },
+      importBatches: { findFirst: async () => undefined },
+    },
+  },
+}));
+
+const { createRule, matchRule, RuleError } = await import("./rules");
+
+function rule(conditions: unknown[], id = storedRules.length + 1): Rule {
+  return {
+    id,
+    companyId: 1,
+    name: `Rule ${id}`,
+    conditions,
+    action: { explanation: "Rent", accountId: 10 },
+    priority: 100,
+    confidence: "1.00",
+    enabled: true,
+    createdAt: null,
+    updatedAt: null,
+  };
+}
+
+function transaction(description: string, amount = "-100.00"): Transaction {
+  return {
+    id: 1,
+    companyId: 1,
+    importBatchId: null,
+    date: new Date("2025-03-31T23:30:00Z"),
+    description,
+    amount,
+  } as Transaction;
+}
+
+describe("regular expression conditions", () => {
+  beforeEach(() => {
+    storedRules.length = 0;
+  });
+
+  it("match the description without regard to case", async () => {
+    storedRules.push(rule([{ field: "description", operator: "regex", value: "^rent\\s+\\d{4}$" }]));
+    expect(await matchRule(1, transaction("RENT 2025"))).toMatchObject({ id: 1 });
+    expect(await matchRule(1, transaction("RENT MARCH"))).toBeUndefined();
+  });
+
+  it("cannot stall on a pattern that backtracks", async () => {
+    storedRules.push(rule([{ field: "description", operator: "regex", value: "(a+)+$" }]));
+    const started = Date.now();
+    expect(await matchRule(1, transaction(`${"a".repeat(50000)}!`))).toBeUndefined();
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("are refused when saved if too long or not supported", async () => {
+    const save = (value: string) => createRule(1, {
+      name: "Pattern",
+      conditions: [{ field: "description", operator: "regex", value }],
+      action: { explanation: "Rent", accountId: 10 },
+    });
+    await expect(save("a".repeat(201))).rejects.toThrow(RuleError);
+    await expect(save("(rent)\\1")).rejects.toThrow(/not a regular expression rules can use/);
+    await expect(save("(?=rent)")).rejects.toThrow(RuleError);
+  });
+
+  it("never match when stored with a pattern or operator that cannot be used", async () => {
+    storedRules.push(
+      rule([{ field: "description", operator: "regex", value: "(rent)\\1" }]),
+      rule([{ field: "description", operator: "endsWith", value: "rent" }]),
+    );
+    expect(await matchRule(1, transaction("rentrent"))).toBeUndefined();
+  });
+
+  it("day of month conditions read the date in UTC", async () => {
+    storedRules.push(rule([{ field: "dayOfMonth", min: 31, max: 31 }]));
+    expect(await matchRule(1, transaction("Anything"))).toMatchObject({ id: 1 });
+  });
+});
@@ -0,0 +1,372 @@
+import { db } from "@db";
+import { RE2 } from "re2-wasm";
+import { eq, and, asc, inArray, sql } from "drizzle-orm";
+import {
+  rules,
+  bankAccounts,
+  importBatches,
+  userAccounts,
+  type Rule,
+  type Transaction
+} from "@db/schema";
+import {
+  updateTransaction,
+  splitTransaction,
+  type TransactionChanges,
+  type TransactionWithSplits
+} from "./transactions";
+
+export { type Rule };
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class RuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleError';
+  }
+}
+
+// Descriptions are compared without regard to case. Amounts are compared
+// without their sign; the direction condition tests money in or out.
+export type RuleCondition =
+  | { field: "description"; operator: "contains" | "startsWith" | "regex"; value: string }
+  | { field: "amount"; operator: "equals" | "between"; value?: number; min?: number; max?: number }
+  | { field: "direction"; value: "in" | "out" }
+  | { field: "dayOfMonth"; min: number; max: number }
+  | { field: "bankAccount"; bankAccountId: number };
+
+export interface RuleSplit {
+  accountId: number;
+  percentage: number;
+  explanation?: string | null;
+}
+
+// Either one account or percentage splits across several
+export interface RuleAction {
+  explanation: string;
+  accountId?: number | null;
+  splits?: RuleSplit[] | null;
+}
+
+export interface RuleInput {
+  name: string;
+  conditions: RuleCondition[];
+  action: RuleAction;
+  priority?: number;
+  enabled?: boolean;
+}
+
+export type RuleWithParts = Omit<Rule, "conditions" | "action"> & {
+  conditions: RuleCondition[];
+  action: RuleAction;
+};
+
+// Patterns run on RE2, which takes time linear in the description, so one
+// such as (a+)+$ cannot stall matching. Each is compiled once, when the rule
+// is saved or first matched, and kept.
+const MAX_REGEX_LENGTH = 200;
+const MAX_COMPILED_PATTERNS = 1000;
+const compiledPatterns = new Map<string, RE2 | null>();
+
+// The compiled pattern, or null when RE2 cannot read it
+function compilePattern(pattern: string): RE2 | null {
+  let compiled = compiledPatterns.get(pattern);
+  if (compiled === undefined) {
+    if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) {
+      compiledPatterns.clear();
+    }
+    try {
+      compiled = new RE2(pattern, "iu");
+    } catch {
+      compiled = null;
+    }
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function withParts(rule: Rule): RuleWithParts {
+  return {
+    ...rule,
+    conditions: rule.conditions as RuleCondition[],
+    action: rule.action as RuleAction,
+  };
+}
+
+function checkCondition(condition: RuleCondition, index: number): void {
+  const position = `Condition ${index + 1}`;
+  switch (condition.field) {
+    case "description":
+      if (!condition.value.trim()) {
+        throw new RuleError(`${position} needs some text to match`);
+      }
+      if (condition.operator === "regex") {
+        if (condition.value.length > MAX_REGEX_LENGTH) {
+          throw new RuleError(`${position}: regular expressions are limited to ${MAX_REGEX_LENGTH} characters`);
+        }
+        if (!compilePattern(condition.value)) {
+          throw new RuleError(
+            `${position}: "${condition.value}" is not a regular expression rules can use; backreferences and lookarounds are not supported`
+          );
+        }
+      }
+      break;
+    case "amount":
+      if (condition.operator === "equals" && condition.value === undefined) {
+        throw new RuleError(`${position} needs the amount to match`);
+      }
+      if (condition.operator === "between") {
+        if (condition.min === undefined && condition.max === undefined) {
+          throw new RuleError(`${position} needs a minimum or a maximum amount`);
+        }
+        if (condition.min !== undefined && condition.max !== undefined && condition.min > condition.max) {
+          throw new RuleError(`${position}: the minimum amount is more than the maximum`);
+        }
+      }
+      break;
+    case "dayOfMonth":
+      if (condition.min > condition.max) {
+        throw new RuleError(`${position}: the first day is after the last day`);
+      }
+      break;
+  }
+}
+
+function checkAction(action: RuleAction): void {
+  const hasSplits = !!action.splits?.length;
+  if (hasSplits === (action.accountId != null)) {
+    throw new RuleError("A rule allocates to one account or splits across several, not both");
+  }
+  if (!hasSplits) {
+    return;
+  }
+  if (action.splits!.length < 2) {
+    throw new RuleError("A split needs at least two parts");
+  }
+  if (action.splits!.some(split => !(split.percentage > 0))) {
+    throw new RuleError("Every part of a split needs a percentage above zero");
+  }
+  const total = action.splits!.reduce((sum, split) => sum + toCents(split.percentage), 0);
+  if (total !== 10000) {
+    throw new RuleError(`The split percentages add up to ${total / 100}%, not 100%`);
+  }
+}
+
+// The conditions must make sense and every account and bank account they
+// refer to must be the company's own
+async function validateRule(companyId: number, data: Partial<RuleInput>): Promise<void> {
+  if (data.conditions !== undefined) {
+    if (data.conditions.length === 0) {
+      throw new RuleError("A rule needs at least one condition");
+    }
+    data.conditions.forEach(checkCondition);
+
+    const bankAccountIds = Array.from(new Set(data.conditions.flatMap(condition =>
+      condition.field === "bankAccount" ? [condition.bankAccountId] : []
+    )));
+    if (bankAccountIds.length > 0) {
+      const found = await db
+        .select({ id: bankAccounts.id })
+        .from(bankAccounts)
+        .where(and(
+          eq(bankAccounts.companyId, companyId),
+          inArray(bankAccounts.id, bankAccountIds)
+        ));
+      if (found.length !== bankAccountIds.length) {
+        throw new RuleError("Bank account not found");
+      }
+    }
+  }
+
+  if (data.action !== undefined) {
+    checkAction(data.action);
+    const accountIds = Array.from(new Set(
+      data.action.splits?.length
+        ? data.action.splits.map(split => split.accountId)
+        : [data.action.accountId!]
+    ));
+    const found = await db
+      .select({ id: userAccounts.id })
+      .from(userAccounts)
+      .where(and(
+        eq(userAccounts.companyId, companyId),
+        inArray(userAccounts.id, accountIds)
+      ));
+    if (found.length !== accountIds.length) {
+      throw new RuleError("Account not found in your chart of accounts");
+    }
+  }
+}
+
+export async function listRules(companyId: number): Promise<RuleWithParts[]> {
+  const result = await db.query.rules.findMany({
+    where: eq(rules.companyId, companyId),
+    orderBy: [asc(rules.priority), asc(rules.id)],
+  });
+  return result.map(withParts);
+}
+
+export async function getRule(companyId: number, ruleId: number): Promise<RuleWithParts | undefined> {
+  const rule = await db.query.rules.findFirst({
+    where: and(
+      eq(rules.id, ruleId),
+      eq(rules.companyId, companyId)
+    ),
+  });
+  return rule && withParts(rule);
+}
+
+export async function createRule(companyId: number, data: RuleInput): Promise<RuleWithParts> {
+  await validateRule(companyId, data);
+  const [rule] = await db.insert(rules)
+    .values({ ...data, companyId })
+    .returning();
+  return withParts(rule);
+}
+
+export async function updateRule(
+  companyId: number,
+  ruleId: number,
+  data: Partial<RuleInput>
+): Promise<RuleWithParts | undefined> {
+  await validateRule(companyId, data);
+  // A rule changed by hand is trusted again
+  const retrained = data.conditions !== undefined || data.action !== undefined;
+  const [rule] = await db.update(rules)
+    .set({ ...data, ...(retrained ? { confidence: "1.00" } : {}), updatedAt: new Date() })
+    .where(and(
+      eq(rules.id, ruleId),
+      eq(rules.companyId, companyId)
+    ))
+    .returning();
+  return rule && withParts(rule);
+}
+
+export async function deleteRule(companyId: number, ruleId: number): Promise<boolean> {
+  const deleted = await db.delete(rules)
+    .where(and(
+      eq(rules.id, ruleId),
+      eq(rules.companyId, companyId)
+    ))
+    .returning({ id: rules.id });
+  return deleted.length > 0;
+}
+
+// Review decisions nudge how far a rule's predictions are trusted, between 0
+// and 1
+export async function adjustRuleConfidence(companyId: number, ruleId: number, change: number): Promise<void> {
+  await db.update(rules)
+    .set({ confidence: sql`least(1, greatest(0, ${rules.confidence} + ${change}))` })
+    .where(and(
+      eq(rules.id, ruleId),
+      eq(rules.companyId, companyId)
+    ));
+}
+
+function conditionHolds(
+  condition: RuleCondition,
+  transaction: Transaction,
+  bankAccountId: number | null
+): boolean {
+  const amount = toCents(Number(transaction.amount));
+  switch (condition.field) {
+    case "description": {
+      const description = transaction.description.toLowerCase();
+      const value = condition.value.toLowerCase();
+      switch (condition.operator) {
+        case "contains":
+          return description.includes(value);
+        case "startsWith":
+          return description.startsWith(value);
+        case "regex": {
+          // A stored pattern that is too long or RE2 cannot read never matches
+          const pattern = condition.value.length <= MAX_REGEX_LENGTH ? compilePattern(condition.value) : null;
+          return pattern !== null && pattern.test(transaction.description);
+        }
+        default:
+          return false;
+      }
+    }
+    case "amount": {
+      const size = Math.abs(amount);
+      if (condition.operator === "equals") return size === toCents(condition.value!);
+      return (condition.min === undefined || size >= toCents(condition.min)) &&
+        (condition.max === undefined || size <= toCents(condition.max));
+    }
+    case "direction":
+      return condition.value === "in" ? amount > 0 : amount < 0;
+    case "dayOfMonth": {
+      const day = new Date(transaction.date).getUTCDate();
+      return day >= condition.min && day <= condition.max;
+    }
+    case "bankAccount":
+      return bankAccountId === condition.bankAccountId;
+  }
+}
+
+// The first enabled rule, in priority order, whose conditions all hold
+export async function matchRule(
+  companyId: number,
+  transaction: Transaction
+): Promise<RuleWithParts | undefined> {
+  const candidates = (await db.query.rules.findMany({
+    where: and(
+      eq(rules.companyId, companyId),
+      eq(rules.enabled, true)
+    ),
+    orderBy: [asc(rules.priority), asc(rules.id)],
+  })).map(withParts);
+
+  let bankAccountId: number | null = null;
+  if (transaction.importBatchId !== null &&
+      candidates.some(rule => rule.conditions.some(condition => condition.field === "bankAccount"))) {
+    const batch = await db.query.importBatches.findFirst({
+      where: eq(importBatches.id, transaction.importBatchId),
+      columns: { bankAccountId: true },
+    });
+    bankAccountId = batch?.bankAccountId ?? null;
+  }
+
+  return candidates.find(rule =>
+    rule.conditions.every(condition => conditionHolds(condition, transaction, bankAccountId))
+  );
+}
+
+// Explain a transaction the way the rule says, along with any other changes
+// such as its review status. Percentage splits are worked out in cents with
+// the last part taking what is left, so the parts always add up to the
+// transaction's amount.
+export async function applyRule(
+  companyId: number,
+  rule: RuleWithParts,
+  transaction: Transaction,
+  changes: TransactionChanges = {},
+  tx?: Tx
+): Promise<TransactionWithSplits> {
+  const { action } = rule;
+  const prediction = { explanation: action.explanation, predictedBy: "rule", confidence: rule.confidence, ...changes };
+  if (!action.splits?.length) {
+    return updateTransaction(companyId, transaction, { ...prediction, accountId: action.accountId! }, tx);
+  }
+
+  const amount = toCents(Number(transaction.amount));
+  let allocated = 0;
+  const parts = action.splits.map((split, index) => {
+    const cents = index === action.splits!.length - 1
+      ? amount - allocated
+      : Math.round(amount * split.percentage / 100);
+    allocated += cents;
+    return {
+      accountId: split.accountId,
+      amount: cents / 100,
+      explanation: split.explanation || action.explanation,
+    };
+  });
+  const split = await splitTransaction(companyId, transaction, parts, tx);
+  return updateTransaction(companyId, split, prediction, tx);
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from "vitest";
+import { readStatementGrid, findStatementParser, detectDelimiter } from "./statementParsers";
+import { ImportValidationError } from "./imports";
+
+// The parsers share their error class with imports.ts, which reads the database
+vi.mock("@db", () => ({ db: {} }));
+
+const file = (originalname: string, text: string) => ({ originalname, buffer: Buffer.from(text, "utf8") });
+const header = ["Date", "Description", "Amount", "Reference", "Balance"];
+
+describe("OFX statements", () => {
+  const ofx = `OFXHEADER:100
+DATA:OFXSGML
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250305120000[+2:SAST]
+<TRNAMT>-250.00
+<FITID>T2
+<NAME>WOOLWORTHS
+<MEMO>Card purchase &amp; cashback
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250301
+<TRNAMT>1000.00
+<FITID>T1
+<CHECKNUM>1001
+<NAME>SALARY
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>750.00<DTASOF>20250305</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+  it("lists the transactions in date order with the ledger balance on the last", () => {
+    expect(readStatementGrid(file("statement.ofx", ofx))).toEqual([
+      header,
+      ["2025-03-01", "SALARY", "1000.00", "1001", null],
+      ["2025-03-05", "WOOLWORTHS Card purchase & cashback", "-250.00", "T2", 750],
+    ]);
+  });
+
+  it("is told apart from other formats by its content", () => {
+    expect(findStatementParser(file("statement.qfx", ofx)).format).toBe("OFX");
+  });
+
+  it("refuses a file without transactions", () => {
+    expect(() => readStatementGrid(file("empty.ofx", "<OFX></OFX>"))).toThrow(ImportValidationError);
+  });
+});
+
+describe("QIF statements", () => {
+  const qif = `!Account
+NCheque
+TBank
+^
+!Type:Bank
+D05/03'25
+T-250.00
+PWOOLWORTHS
+MGroceries
+N123
+^
+D 1/ 3'25
+T1,000.00
+PSALARY
+SRent
+$-400.00
+^
+!Type:Invst
+D06/03'25
+T-99.00
+PSHARES
+^`;
+
+  it("reads bank transactions and skips account lists and investments", () => {
+    expect(readStatementGrid(file("statement.qif", qif))).toEqual([
+      header,
+      ["05/03/25", "WOOLWORTHS Groceries", "-250.00", "123", null],
+      ["1/3/25", "SALARY", "1,000.00", null, null],
+    ]);
+  });
+
+  it("refuses a file without bank transactions", () => {
+    expect(() => readStatementGrid(file("statement.qif", "!Type:Invst\nD06/03'25\nT-99.00\n^"))).toThrow(/does not contain any transactions/);
+  });
+});
+
+describe("MT940 statements", () => {
+  const mt940 = `{1:F01BANKZAJJXXXX0000000000}{4:
+:20:STATEMENT1
+:25:123456789
+:28C:1/1
+:60F:C250228ZAR1000,00
+:61:2503010301C500,00NTRFPAYMENT 1//BANKREF1
+:86:?20Invoice 42?21ACME LTD
+:61:250302D200,50NMSCNONREF//BANKREF2
+:86:BANK CHARGES
+:62F:C250302ZAR1299,50
+-}`;
+
+  it("signs the amounts and carries the opening and closing balances", () => {
+    expect(readStatementGrid(file("statement.sta", mt940))).toEqual([
+      header,
+      ["2025-03-01", "Invoice 42 ACME LTD", 500, "PAYMENT 1", 1500],
+      ["2025-03-02", "BANK CHARGES", -200.5, "BANKREF2", 1299.5],
+    ]);
+  });
+
+  it("treats a reversed credit as money out", () => {
+    const reversal = mt940.replace("C500,00NTRF", "RC500,00NTRF");
+    expect(readStatementGrid(file("statement.940", reversal))[1][2]).toBe(-500);
+  });
+
+  it("is told apart from a CSV sharing the .txt extension", () => {
+    expect(findStatementParser(file("statement.txt", mt940)).format).toBe("MT940");
+    expect(findStatementParser(file("statement.txt", "Date,Amount\n2025-03-01,10")).format).toBe("CSV");
+  });
+});
+
+describe("CAMT.053 statements", () => {
+  const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+<BkToCstmrStmt><Stmt>
+<Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="ZAR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+<Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="ZAR">749.50</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+<Ntry>
+<Amt Ccy="ZAR">250.50</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+<BookgDt><Dt>2025-03-05</Dt></BookgDt>
+<NtryDtls><TxDtls><Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+<RmtInf><Ustrd>Rent &amp; levies</Ustrd><Ustrd>March</Ustrd></RmtInf></TxDtls></NtryDtls>
+<AcctSvcrRef>SVC1</AcctSvcrRef>
+</Ntry>
+</Stmt></BkToCstmrStmt>
+</Document>`;
+
+  it("reads entries with their debit sign, remittance text and balances", () => {
+    expect(readStatementGrid(file("statement.xml", camt))).toEqual([
+      header,
+      ["2025-03-05", "Rent & levies March", -250.5, "SVC1", 749.5],
+    ]);
+  });
+
+  it("refuses XML that is not a CAMT.053 statement", () => {
+    expect(() => findStatementParser(file("statement.xml", "<Invoice/>"))).toThrow(/not a valid CAMT.053 statement/);
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("picks the delimiter that splits the table evenly, ignoring quoted ones", () => {
+    expect(detectDelimiter("Account: 123\nDate;Description;Amount\n2025-03-01;\"Rent, March\";-100,00\n")).toBe(";");
+    expect(detectDelimiter("Date\tDescription\tAmount\n2025-03-01\tRent\t-100.00\n")).toBe("\t");
+  });
+});
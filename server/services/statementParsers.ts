@@ -0,0 +1,464 @@
+import { read as readXLSX, utils as xlsxUtils } from "xlsx";
+import { parse as parseCsv } from "csv-parse/sync";
+import { ImportValidationError } from "./imports";
+
+// Statement file formats. Every parser turns an upload into a grid of cells
+// with a header row, so all formats go through the same column mapping,
+// profile matching and validation as a spreadsheet export.
+export interface StatementParser {
+  format: string;
+  extensions: string[];
+  // Recognise the format from the file's text when extensions are shared
+  detect?: (text: string) => boolean;
+  parse: (buffer: Buffer) => any[][];
+}
+
+// Entry read from a structured format (OFX, QIF, MT940, CAMT.053)
+interface StatementEntry {
+  date: string | null;
+  description: string;
+  amount: number | string | null;
+  reference?: string;
+  balance?: number;
+}
+
+const entryHeaders = ['Date', 'Description', 'Amount', 'Reference', 'Balance'];
+
+function entryGrid(entries: StatementEntry[]): any[][] {
+  return [
+    entryHeaders,
+    ...entries.map(entry => [
+      entry.date,
+      entry.description,
+      entry.amount,
+      entry.reference ?? null,
+      entry.balance ?? null,
+    ]),
+  ];
+}
+
+function noTransactions(format: string): ImportValidationError {
+  return new ImportValidationError(
+    'EMPTY_WORKBOOK',
+    `The ${format} file does not contain any transactions.`
+  );
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Put the opening balance (carried through the first entry) and the stated
+// closing balance on a statement's entries so the running-balance check can
+// confirm the transactions add up.
+function applyStatementBalances(entries: StatementEntry[], opening: number | null, closing: number | null) {
+  if (entries.length === 0) return;
+
+  const first = entries[0];
+  if (opening !== null && typeof first.amount === 'number') {
+    first.balance = round(opening + first.amount);
+  }
+  if (closing !== null) {
+    entries[entries.length - 1].balance = closing;
+  }
+}
+
+// Decode text files, honouring a byte order mark and falling back to
+// Windows-1252 for files that are not valid UTF-8
+export function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return buffer.subarray(3).toString('utf8');
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return Buffer.from(buffer.subarray(2)).swap16().toString('utf16le');
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function joinText(...parts: Array<string | undefined>): string {
+  return parts
+    .map(part => part?.replace(/\s+/g, ' ').trim())
+    .filter((part, index, all): part is string => !!part && all.indexOf(part) === index)
+    .join(' ');
+}
+
+const excelParser: StatementParser = {
+  format: 'Excel',
+  extensions: ['xlsx', 'xls'],
+  parse(buffer) {
+    const workbook = readXLSX(buffer, {
+      type: 'buffer',
+      cellDates: true,
+      cellNF: false,
+      cellText: false
+    });
+
+    if (!workbook.SheetNames.length) {
+      throw new ImportValidationError(
+        'EMPTY_WORKBOOK',
+        'The Excel file is empty or corrupted. Please ensure it contains at least one sheet.'
+      );
+    }
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const range = xlsxUtils.decode_range(sheet['!ref'] || 'A1');
+    const grid = xlsxUtils.sheet_to_json<any[]>(sheet, {
+      header: 1,
+      raw: true,
+      defval: null,
+      blankrows: true
+    });
+
+    // Pad with the rows above the used range so indexes match sheet row numbers
+    return [...Array.from({ length: range.s.r }, () => []), ...grid];
+  },
+};
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+}
+
+// Pick the delimiter that splits the most lines into the same number of
+// columns, preferring more columns when candidates tie. Banner lines above
+// the header rarely agree with the table, so they carry little weight.
+export function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 50);
+  let best = { delimiter: ',', lines: 0, columns: 0 };
+
+  for (const delimiter of [',', ';', '\t', '|']) {
+    const frequency = new Map<number, number>();
+    for (const line of lines) {
+      const count = countOutsideQuotes(line, delimiter);
+      if (count > 0) frequency.set(count, (frequency.get(count) ?? 0) + 1);
+    }
+
+    for (const [columns, lineCount] of Array.from(frequency)) {
+      if (lineCount > best.lines || (lineCount === best.lines && columns > best.columns)) {
+        best = { delimiter, lines: lineCount, columns };
+      }
+    }
+  }
+
+  return best.delimiter;
+}
+
+const csvParser: StatementParser = {
+  format: 'CSV',
+  extensions: ['csv', 'tsv', 'txt'],
+  parse(buffer) {
+    const text = decodeText(buffer);
+    return parseCsv(text, {
+      delimiter: detectDelimiter(text),
+      relax_column_count: true,
+      relax_quotes: true,
+      skip_empty_lines: false,
+      trim: true,
+    });
+  },
+};
+
+function ofxField(block: string, tag: string): string | undefined {
+  // OFX 1.x leaves elements unclosed, so read up to the next tag or line end
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1]).trim() : '';
+  return value || undefined;
+}
+
+function ofxDate(value?: string): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : value ?? null;
+}
+
+const ofxParser: StatementParser = {
+  format: 'OFX',
+  extensions: ['ofx', 'qfx'],
+  detect: text => /OFXHEADER|<OFX>/i.test(text),
+  parse(buffer) {
+    const text = decodeText(buffer);
+    const entries: StatementEntry[] = Array.from(text.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi))
+      .map(([, block]) => ({
+        date: ofxDate(ofxField(block, 'DTPOSTED')),
+        description: joinText(ofxField(block, 'NAME'), ofxField(block, 'MEMO')),
+        amount: ofxField(block, 'TRNAMT') ?? null,
+        reference: ofxField(block, 'CHECKNUM') ?? ofxField(block, 'REFNUM') ?? ofxField(block, 'FITID'),
+      }))
+      .sort((a, b) => (a.date ?? '').localeCompare(b.date ?? ''));
+
+    if (entries.length === 0) throw noTransactions('OFX');
+
+    // Only the closing (ledger) balance is given
+    const ledger = text.match(/<LEDGERBAL>([\s\S]*?)(<\/LEDGERBAL>|<AVAILBAL>|$)/i);
+    const closing = ledger ? Number(ofxField(ledger[1], 'BALAMT')) : NaN;
+    applyStatementBalances(entries, null, isNaN(closing) ? null : closing);
+
+    return entryGrid(entries);
+  },
+};
+
+// QIF dates follow the exporting bank's day/month order, with an apostrophe
+// before short years (5/ 1'24); the date format check on the column decides
+// which way round they are
+function qifDate(value?: string): string | null {
+  return value ? value.replace(/\s+/g, '').replace("'", '/') : null;
+}
+
+const qifParser: StatementParser = {
+  format: 'QIF',
+  extensions: ['qif'],
+  detect: text => /^\s*!(Type|Account|Option)/i.test(text),
+  parse(buffer) {
+    const entries: StatementEntry[] = [];
+    let fields: Record<string, string> = {};
+    let inTransactions = false;
+
+    const finishRecord = () => {
+      if (inTransactions && Object.keys(fields).length > 0) {
+        entries.push({
+          date: qifDate(fields.D),
+          description: joinText(fields.P, fields.M),
+          amount: fields.T ?? fields.U ?? null,
+          reference: fields.N,
+        });
+      }
+      fields = {};
+    };
+
+    for (const line of decodeText(buffer).split(/\r?\n/)) {
+      if (!line.trim()) continue;
+
+      if (line.startsWith('!')) {
+        finishRecord();
+        if (/^!Type:/i.test(line)) {
+          inTransactions = /^!Type:(Bank|Cash|CCard|Oth A|Oth L)/i.test(line);
+        } else if (/^!Account/i.test(line)) {
+          inTransactions = false;
+        }
+        continue;
+      }
+
+      const code = line[0];
+      if (code === '^') {
+        finishRecord();
+      } else if (!(code in fields)) {
+        // Split lines (S, E, $) repeat codes; the first value is the transaction's own
+        fields[code] = line.slice(1).trim();
+      }
+    }
+    finishRecord();
+
+    if (entries.length === 0) throw noTransactions('QIF');
+    return entryGrid(entries);
+  },
+};
+
+function swiftDate(value: string): string {
+  const year = Number(value.slice(0, 2));
+  return `${year >= 80 ? 1900 + year : 2000 + year}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+}
+
+function swiftAmount(value: string): number {
+  return Number(value.replace(',', '.'));
+}
+
+function swiftBalance(value: string): number | null {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})(\d+,\d*)/);
+  if (!match) return null;
+  return match[1] === 'D' ? -swiftAmount(match[4]) : swiftAmount(match[4]);
+}
+
+// :61: value date, optional entry date, debit/credit mark, optional funds
+// code, amount, transaction type and references
+const swiftStatementLine = /^(\d{6})(\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d*)([NFS][A-Z0-9]{3})?(.*)$/;
+
+const mt940Parser: StatementParser = {
+  format: 'MT940',
+  extensions: ['sta', 'mt940', '940', 'txt'],
+  detect: text => /:20:/.test(text) && /:60[FM]:/.test(text) && /:61:/.test(text),
+  parse(buffer) {
+    // Collect tagged fields, folding continuation lines into the field above
+    const fields: Array<{ tag: string; value: string }> = [];
+    for (const line of decodeText(buffer).split(/\r?\n/)) {
+      const tagged = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (tagged) {
+        fields.push({ tag: tagged[1], value: tagged[2] });
+      } else if (fields.length > 0 && line.trim() && !/^-}?$|^[{}]/.test(line.trim())) {
+        fields[fields.length - 1].value += '\n' + line;
+      }
+    }
+
+    const entries: StatementEntry[] = [];
+    let statement: StatementEntry[] = [];
+    let opening: number | null = null;
+
+    for (const { tag, value } of fields) {
+      if (tag === '60F' || tag === '60M') {
+        statement = [];
+        opening = swiftBalance(value);
+      } else if (tag === '61') {
+        const match = value.split('\n')[0].match(swiftStatementLine);
+        if (!match) {
+          statement.push({ date: null, description: value, amount: null });
+        } else {
+          const [, valueDate, , mark, amount, type, references] = match;
+          const [customerRef, bankRef] = references.split('//').map(ref => ref.trim());
+          const reference = customerRef && customerRef !== 'NONREF' ? customerRef : bankRef;
+          const signed = mark === 'D' || mark === 'RC' ? -swiftAmount(amount) : swiftAmount(amount);
+          statement.push({
+            date: swiftDate(valueDate),
+            description: reference || type || '',
+            amount: signed,
+            reference: reference || undefined,
+          });
+        }
+        entries.push(statement[statement.length - 1]);
+      } else if (tag === '86' && statement.length > 0) {
+        // Information to account owner, often split into ?NN subfields
+        const information = value.replace(/\?\d{2}/g, ' ').replace(/\s+/g, ' ').trim();
+        if (information) statement[statement.length - 1].description = information;
+      } else if (tag === '62F' || tag === '62M') {
+        applyStatementBalances(statement, opening, swiftBalance(value));
+        opening = null;
+      }
+    }
+
+    if (entries.length === 0) throw noTransactions('MT940');
+    return entryGrid(entries);
+  },
+};
+
+function xmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function xmlText(xml: string | undefined, tag: string): string | undefined {
+  if (!xml) return undefined;
+  const [element] = xmlElements(xml, tag);
+  if (element === undefined) return undefined;
+  return decodeEntities(element.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim() || undefined;
+}
+
+function camtAmount(xml: string): number | null {
+  const amount = Number(xmlText(xml, 'Amt'));
+  if (isNaN(amount)) return null;
+  return xmlText(xml, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+}
+
+const camt053Parser: StatementParser = {
+  format: 'CAMT.053',
+  extensions: ['xml', '053'],
+  detect: text => /camt\.053|<(\w+:)?BkToCstmrStmt\b/.test(text),
+  parse(buffer) {
+    const entries: StatementEntry[] = [];
+
+    for (const statementXml of xmlElements(decodeText(buffer), 'Stmt')) {
+      const balance = (code: string) => {
+        const element = xmlElements(statementXml, 'Bal').find(bal => xmlText(bal, 'Cd') === code);
+        return element ? camtAmount(element) : null;
+      };
+
+      const statement = xmlElements(statementXml, 'Ntry').map((entry): StatementEntry => {
+        const booked = xmlElements(entry, 'BookgDt')[0] ?? xmlElements(entry, 'ValDt')[0];
+        const endToEnd = xmlText(entry, 'EndToEndId');
+        const reference = (endToEnd !== 'NOTPROVIDED' ? endToEnd : undefined)
+          ?? xmlText(entry, 'AcctSvcrRef')
+          ?? xmlText(entry, 'NtryRef');
+
+        return {
+          date: (xmlText(booked, 'Dt') ?? xmlText(booked, 'DtTm'))?.slice(0, 10) ?? null,
+          description: joinText(...xmlElements(entry, 'Ustrd').map(decodeEntities))
+            || xmlText(entry, 'AddtlTxInf')
+            || xmlText(entry, 'AddtlNtryInf')
+            || xmlText(entry, 'Nm')
+            || '',
+          amount: camtAmount(entry),
+          reference,
+        };
+      });
+
+      applyStatementBalances(statement, balance('OPBD') ?? balance('PRCD'), balance('CLBD'));
+      entries.push(...statement);
+    }
+
+    if (entries.length === 0) throw noTransactions('CAMT.053');
+    return entryGrid(entries);
+  },
+};
+
+// Formats are tried in order when several share an extension; a parser
+// without a content check is the fallback for its extensions
+export const statementParsers: StatementParser[] = [
+  excelParser,
+  ofxParser,
+  qifParser,
+  mt940Parser,
+  camt053Parser,
+  csvParser,
+];
+
+export const statementFileExtensions = Array.from(
+  new Set(statementParsers.flatMap(parser => parser.extensions))
+);
+
+export function findStatementParser(file: { originalname: string; buffer: Buffer }): StatementParser {
+  const extension = file.originalname.split('.').pop()?.toLowerCase() ?? '';
+  const candidates = statementParsers.filter(parser => parser.extensions.includes(extension));
+
+  if (candidates.length === 0) {
+    throw new ImportValidationError(
+      'INVALID_FILE_TYPE',
+      'Unsupported file type. Upload an Excel, CSV, OFX/QFX, QIF, MT940 or CAMT.053 statement.',
+      {
+        expected: statementFileExtensions.map(ext => `.${ext}`).join(', '),
+        value: extension
+      }
+    );
+  }
+  if (candidates.length === 1 && !candidates[0].detect) {
+    return candidates[0];
+  }
+
+  const text = decodeText(file.buffer);
+  const parser = candidates.find(candidate => candidate.detect?.(text))
+    ?? candidates.find(candidate => !candidate.detect);
+
+  if (!parser) {
+    throw new ImportValidationError(
+      'INVALID_FILE_TYPE',
+      `The file is not a valid ${candidates.map(candidate => candidate.format).join(' or ')} statement.`,
+      { value: extension }
+    );
+  }
+
+  return parser;
+}
+
+// Read an uploaded statement in any supported format as a grid of raw cell values
+export function readStatementGrid(file: { originalname: string; buffer: Buffer }): any[][] {
+  return findStatementParser(file).parse(file.buffer);
+}
@@ -0,0 +1,454 @@
+import { db } from "@db";
+import { eq, and, asc, inArray, isNull, notExists, sql } from "drizzle-orm";
+import {
+  historicalMatches,
+  transactions,
+  transactionSplits,
+  userAccounts,
+  type Transaction,
+  type TransactionSplit
+} from "@db/schema";
+import { postTransactionJournals } from "./journals";
+import { calculateSimilarity } from "./predictions";
+
+export { type TransactionSplit };
+
+export class TransactionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransactionError';
+  }
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type TransactionWithSplits = Transaction & { splits: TransactionSplit[] };
+
+export interface TransactionChanges {
+  explanation?: string | null;
+  accountId?: number | null;
+  confidence?: string | null;
+  predictedBy?: string | null;
+  reviewStatus?: string | null;
+}
+
+// Descriptions at least this similar are offered for the same explanation
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.7;
+
+export interface SimilarTransactionGroup {
+  description: string;
+  similarity: number;
+  transactions: Array<Pick<Transaction, "id" | "date" | "amount" | "reference">>;
+}
+
+// A prediction to apply as it stands, such as one from auto-categorisation
+export interface PredictedAllocation {
+  transaction: Transaction;
+  explanation: string;
+  accountId: number;
+  predictedBy: string;
+  confidence: number;
+}
+
+export interface SplitInput {
+  accountId: number;
+  amount: number;
+  explanation?: string | null;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+// Each explained allocation is one more use of the description for that
+// account, which the predictions learn from
+async function recordHistoricalMatch(
+  tx: Tx,
+  companyId: number,
+  description: string,
+  explanation: string,
+  accountId: number
+): Promise<void> {
+  await tx
+    .insert(historicalMatches)
+    .values({
+      companyId,
+      transactionDescription: description,
+      explanation,
+      accountId,
+    })
+    .onConflictDoUpdate({
+      target: [
+        historicalMatches.companyId,
+        historicalMatches.transactionDescription,
+        historicalMatches.accountId,
+      ],
+      set: {
+        frequency: sql`${historicalMatches.frequency} + 1`,
+        lastUsed: new Date(),
+      },
+    });
+}
+
+// Takes back one use recorded by recordHistoricalMatch, dropping the match
+// once nothing uses it
+async function forgetHistoricalMatch(
+  tx: Tx,
+  companyId: number,
+  description: string,
+  accountId: number
+): Promise<void> {
+  const matchWhere = and(
+    eq(historicalMatches.companyId, companyId),
+    eq(historicalMatches.transactionDescription, description),
+    eq(historicalMatches.accountId, accountId)
+  );
+  await tx.update(historicalMatches)
+    .set({ frequency: sql`${historicalMatches.frequency} - 1` })
+    .where(matchWhere);
+  await tx.delete(historicalMatches)
+    .where(and(matchWhere, sql`${historicalMatches.frequency} <= 0`));
+}
+
+// Join the caller's database transaction when there is one
+function withTransaction<T>(tx: Tx | undefined, work: (tx: Tx) => Promise<T>): Promise<T> {
+  return tx ? work(tx) : db.transaction(work);
+}
+
+// The transaction as it stands within a database transaction
+async function loadTransaction(tx: Tx, transactionId: number): Promise<TransactionWithSplits> {
+  return (await tx.query.transactions.findFirst({
+    where: eq(transactions.id, transactionId),
+    with: { splits: { orderBy: [asc(transactionSplits.id)] } },
+  }))!;
+}
+
+export async function getTransactionWithSplits(
+  companyId: number,
+  transactionId: number
+): Promise<TransactionWithSplits | undefined> {
+  return db.query.transactions.findFirst({
+    where: and(
+      eq(transactions.id, transactionId),
+      eq(transactions.companyId, companyId)
+    ),
+    with: { splits: { orderBy: [asc(transactionSplits.id)] } },
+  });
+}
+
+// Allocating the whole transaction to one account replaces any split. What
+// the allocation before taught the predictions is taken back and the new one
+// recorded in its place.
+export async function updateTransaction(
+  companyId: number,
+  transaction: Transaction,
+  changes: TransactionChanges,
+  tx?: Tx
+): Promise<TransactionWithSplits> {
+  return withTransaction(tx, async (tx) => {
+    await forgetAllocation(tx, companyId, await loadTransaction(tx, transaction.id));
+    const [updated] = await tx
+      .update(transactions)
+      .set({
+        ...changes,
+        updatedAt: new Date(),
+      })
+      .where(eq(transactions.id, transaction.id))
+      .returning();
+    if (changes.accountId !== undefined) {
+      await tx.delete(transactionSplits).where(eq(transactionSplits.transactionId, transaction.id));
+    }
+    await postTransactionJournals(tx, [updated]);
+    const result = await loadTransaction(tx, transaction.id);
+    await rememberAllocation(tx, companyId, result);
+    return result;
+  });
+}
+
+// The parts must add up to the transaction's amount to the cent, each on the
+// same side as the transaction. Each part without its own explanation takes
+// the transaction's. The split replaces the allocation before it, so what that
+// taught the predictions is taken back.
+export async function splitTransaction(
+  companyId: number,
+  transaction: Transaction,
+  splits: SplitInput[],
+  tx?: Tx
+): Promise<TransactionWithSplits> {
+  if (splits.length < 2) {
+    throw new TransactionError("A split needs at least two parts");
+  }
+  const amount = toCents(Number(transaction.amount));
+  let total = 0;
+  splits.forEach((split, index) => {
+    const cents = toCents(split.amount);
+    if (!Number.isFinite(cents) || cents === 0) {
+      throw new TransactionError(`Part ${index + 1} needs an amount`);
+    }
+    if (Math.sign(cents) !== Math.sign(amount)) {
+      throw new TransactionError(
+        `Part ${index + 1} must be money ${amount > 0 ? "in" : "out"}, the same as the transaction`
+      );
+    }
+    total += cents;
+  });
+  if (total !== amount) {
+    throw new TransactionError(
+      `The parts add up to ${(total / 100).toFixed(2)} but the transaction is ${(amount / 100).toFixed(2)}`
+    );
+  }
+
+  const accountIds = Array.from(new Set(splits.map(split => split.accountId)));
+  const accounts = await (tx ?? db)
+    .select({ id: userAccounts.id })
+    .from(userAccounts)
+    .where(and(
+      eq(userAccounts.companyId, companyId),
+      inArray(userAccounts.id, accountIds)
+    ));
+  if (accounts.length !== accountIds.length) {
+    throw new TransactionError("Account not found in your chart of accounts");
+  }
+
+  return withTransaction(tx, async (tx) => {
+    await forgetAllocation(tx, companyId, await loadTransaction(tx, transaction.id));
+    await tx.delete(transactionSplits).where(eq(transactionSplits.transactionId, transaction.id));
+    await tx.insert(transactionSplits)
+      .values(splits.map(split => ({
+        transactionId: transaction.id,
+        accountId: split.accountId,
+        amount: (toCents(split.amount) / 100).toFixed(2),
+        explanation: split.explanation?.trim() || null,
+      })));
+    const [updated] = await tx
+      .update(transactions)
+      .set({ accountId: null, updatedAt: new Date() })
+      .where(eq(transactions.id, transaction.id))
+      .returning();
+    await postTransactionJournals(tx, [updated]);
+    const result = await loadTransaction(tx, transaction.id);
+    await rememberAllocation(tx, companyId, result);
+    return result;
+  });
+}
+
+// Back to a single unallocated amount, unlearning what the parts taught the
+// predictions
+export async function clearTransactionSplits(
+  companyId: number,
+  transaction: Transaction
+): Promise<TransactionWithSplits> {
+  await db.transaction(async (tx) => {
+    const current = await loadTransaction(tx, transaction.id);
+    if (current.splits.length > 0) {
+      await forgetAllocation(tx, companyId, current);
+    }
+    await tx.delete(transactionSplits).where(eq(transactionSplits.transactionId, transaction.id));
+    await postTransactionJournals(tx, [transaction]);
+  });
+  return (await getTransactionWithSplits(companyId, transaction.id))!;
+}
+
+// Neither explained, allocated nor split
+export function isUnexplained() {
+  return and(
+    isNull(transactions.explanation),
+    isNull(transactions.accountId),
+    notExists(db.select().from(transactionSplits).where(eq(transactionSplits.transactionId, transactions.id)))
+  );
+}
+
+// The company's other unexplained transactions whose description is similar
+// to this one's, grouped by description with the most similar first
+export async function findSimilarTransactions(
+  companyId: number,
+  transaction: Transaction,
+  threshold = DEFAULT_SIMILARITY_THRESHOLD
+): Promise<SimilarTransactionGroup[]> {
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new TransactionError("threshold must be between 0 and 1, such as 0.7");
+  }
+
+  const candidates = await db.query.transactions.findMany({
+    where: and(
+      eq(transactions.companyId, companyId),
+      isUnexplained()
+    ),
+    columns: { id: true, date: true, amount: true, reference: true, description: true },
+    orderBy: [asc(transactions.date), asc(transactions.id)],
+  });
+
+  const groups = new Map<string, SimilarTransactionGroup>();
+  for (const { description, ...candidate } of candidates) {
+    if (candidate.id === transaction.id) continue;
+    let group = groups.get(description);
+    if (!group) {
+      const similarity = calculateSimilarity(transaction.description, description);
+      if (similarity < threshold) continue;
+      group = { description, similarity: Math.round(similarity * 100) / 100, transactions: [] };
+      groups.set(description, group);
+    }
+    group.transactions.push(candidate);
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    b.similarity - a.similarity || b.transactions.length - a.transactions.length
+  );
+}
+
+// Give the chosen transactions the same explanation and account. Only the
+// company's transactions that are still unexplained are changed; the user
+// chose them, so each one settles its review and counts as a use of the
+// explanation for the predictions.
+export async function applyExplanation(
+  companyId: number,
+  transaction: Transaction,
+  transactionIds: number[],
+  allocation: { explanation: string; accountId: number }
+): Promise<{ updated: number }> {
+  const account = await db.query.userAccounts.findFirst({
+    where: and(
+      eq(userAccounts.id, allocation.accountId),
+      eq(userAccounts.companyId, companyId)
+    ),
+    columns: { id: true },
+  });
+  if (!account) {
+    throw new TransactionError("Account not found in your chart of accounts");
+  }
+
+  const targets = transactionIds.length === 0 ? [] : await db.query.transactions.findMany({
+    where: and(
+      eq(transactions.companyId, companyId),
+      inArray(transactions.id, transactionIds),
+      isUnexplained()
+    ),
+  });
+  if (targets.length === 0) {
+    return { updated: 0 };
+  }
+
+  await db.transaction(async (tx) => {
+    const updated: Transaction[] = [];
+    for (const target of targets) {
+      const similarity = calculateSimilarity(transaction.description, target.description);
+      const [row] = await tx.update(transactions)
+        .set({
+          explanation: allocation.explanation,
+          accountId: allocation.accountId,
+          predictedBy: "similarity",
+          confidence: Math.min(similarity, 1).toFixed(2),
+          reviewStatus: "reviewed",
+          updatedAt: new Date(),
+        })
+        .where(eq(transactions.id, target.id))
+        .returning();
+      updated.push(row);
+      await recordHistoricalMatch(tx, companyId, row.description, allocation.explanation, allocation.accountId);
+    }
+    await postTransactionJournals(tx, updated);
+  });
+  return { updated: targets.length };
+}
+
+// Apply each transaction's own prediction without the user looking at it. The
+// allocations are marked auto and only count as uses for the predictions once
+// the user confirms them.
+export async function applyPredictions(
+  companyId: number,
+  allocations: PredictedAllocation[],
+  tx?: Tx
+): Promise<void> {
+  if (allocations.length === 0) {
+    return;
+  }
+  await withTransaction(tx, async (tx) => {
+    const updated: Transaction[] = [];
+    for (const allocation of allocations) {
+      const [row] = await tx.update(transactions)
+        .set({
+          explanation: allocation.explanation,
+          accountId: allocation.accountId,
+          predictedBy: allocation.predictedBy,
+          confidence: Math.min(allocation.confidence, 1).toFixed(2),
+          reviewStatus: "auto",
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(transactions.id, allocation.transaction.id),
+          eq(transactions.companyId, companyId)
+        ))
+        .returning();
+      updated.push(row);
+    }
+    await postTransactionJournals(tx, updated);
+  });
+}
+
+// An allocation auto-categorisation made teaches the predictions nothing until
+// the user confirms it, so a wrong guess cannot reinforce itself
+export function isConfirmed(transaction: Pick<Transaction, "reviewStatus">): boolean {
+  return transaction.reviewStatus !== "auto" && transaction.reviewStatus !== "pending";
+}
+
+// Each confirmed explained allocation, or explained part of a split, records
+// one use
+async function rememberAllocation(tx: Tx, companyId: number, transaction: TransactionWithSplits): Promise<void> {
+  if (!isConfirmed(transaction)) {
+    return;
+  }
+  if (transaction.splits.length > 0) {
+    for (const split of transaction.splits) {
+      const explanation = split.explanation ?? transaction.explanation;
+      if (explanation) {
+        await recordHistoricalMatch(tx, companyId, transaction.description, explanation, split.accountId);
+      }
+    }
+  } else if (transaction.explanation && transaction.accountId) {
+    await recordHistoricalMatch(tx, companyId, transaction.description, transaction.explanation, transaction.accountId);
+  }
+}
+
+// Take back the uses the transaction's current allocation recorded, before it
+// is replaced or cleared
+async function forgetAllocation(tx: Tx, companyId: number, transaction: TransactionWithSplits): Promise<void> {
+  if (!isConfirmed(transaction)) {
+    return;
+  }
+  if (transaction.splits.length > 0) {
+    for (const split of transaction.splits) {
+      if (split.explanation ?? transaction.explanation) {
+        await forgetHistoricalMatch(tx, companyId, transaction.description, split.accountId);
+      }
+    }
+  } else if (transaction.explanation && transaction.accountId) {
+    await forgetHistoricalMatch(tx, companyId, transaction.description, transaction.accountId);
+  }
+}
+
+// Back to unexplained, unlearning whatever the allocation taught the
+// predictions
+export async function clearAllocation(
+  companyId: number,
+  transaction: TransactionWithSplits,
+  changes: TransactionChanges = {}
+): Promise<TransactionWithSplits> {
+  await db.transaction(async (tx) => {
+    await forgetAllocation(tx, companyId, transaction);
+    await tx.delete(transactionSplits).where(eq(transactionSplits.transactionId, transaction.id));
+    const [updated] = await tx
+      .update(transactions)
+      .set({
+        explanation: null,
+        accountId: null,
+        predictedBy: null,
+        confidence: null,
+        ...changes,
+        updatedAt: new Date(),
+      })
+      .where(eq(transactions.id, transaction.id))
+      .returning();
+    await postTransactionJournals(tx, [updated]);
+  });
+  return (await getTransactionWithSplits(companyId, transaction.id))!;
+}
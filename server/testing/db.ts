@@ -0,0 +1,21 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { sql } from "drizzle-orm";
+import * as schema from "@db/schema";
+
+// An in-memory Postgres with the schema pushed from db/schema.ts, for tests
+// to stand in for @db:
+//   vi.mock("@db", async () => ({ db: await (await import("./testing/db")).createTestDb() }));
+export async function createTestDb() {
+  // The ESM build of the drizzle-kit API cannot load its own dependencies
+  const require = createRequire(import.meta.url);
+  const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+  const db = drizzle(new PGlite(), { schema });
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await db.execute(sql.raw(statement));
+  }
+  return db;
+}